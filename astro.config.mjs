@@ -1,6 +1,17 @@
 import { defineConfig } from 'astro/config';
 import react from '@astrojs/react';
 import tailwindcss from '@tailwindcss/vite';
+import fs from 'node:fs';
+import { FALLBACK_VERSION, VERSION_CACHE_FILE } from './src/lib/versions.ts';
+
+/** Latest stable TUIkit version from public/version-cache.json (refreshed at prebuild), or the fallback. */
+function cachedStableVersion() {
+  try {
+    return JSON.parse(fs.readFileSync(`public/${VERSION_CACHE_FILE}`, 'utf-8')).stable ?? FALLBACK_VERSION;
+  } catch {
+    return FALLBACK_VERSION;
+  }
+}
 
 // https://astro.build/config
 export default defineConfig({
@@ -12,8 +23,8 @@ export default defineConfig({
   vite: {
     plugins: [tailwindcss()],
     define: {
-      // Fallback version - matches current latest TUIkit release
-      'import.meta.env.PUBLIC_TUIKIT_VERSION': JSON.stringify(process.env.TUIKIT_VERSION ?? '0.3.0'),
+      // Version shown before the client has checked the tags (TUIKIT_VERSION overrides it)
+      'import.meta.env.PUBLIC_TUIKIT_VERSION': JSON.stringify(process.env.TUIKIT_VERSION ?? cachedStableVersion()),
     },
   },
 });
@@ -1,32 +1,132 @@
 /**
  * Prebuild script: runs before `astro build` via the `prebuild` npm script.
  *
- * 1. Generates terminal-data.ts from terminal-script.md
- * 2. Fetches Swift test/suite counts from the TUIkit README badge
+ * 1. Validates terminal-script.md and its translations (terminal-script.de.md,
+ *    one per site locale) and fails the build on any problem (unknown tags,
+ *    malformed delays, missing sections, broken config keys, scenes that
+ *    differ from the English script)
+ * 2. Generates terminal-data.ts from the scripts, including the list
+ *    of asciicast recordings in public/recordings/ (player mode)
+ * 3. Exports the English session as public/terminal.cast (asciicast v2) and
+ *    public/terminal.svg (animated SVG) for the README and slides
+ * 4. Fetches Swift test/suite counts from the TUIkit README badge
  *    via GitHub API (consumed by astro.config.mjs as environment variables)
  *
  * Requires GITHUB_TOKEN env var for authenticated API access (optional but
  * recommended to avoid rate limiting).
  */
 
-import { parseTerminalScript } from "../src/lib/terminal-parser";
+import { formatScriptIssue, parseTerminalScript, validateTerminalScript, type TerminalScript } from "../src/lib/terminal-parser";
+import { recordSession, toAnimatedSvg, toAsciicast } from "../src/lib/terminal-export";
+import { castDuration, parseAsciicast, type CastInfo } from "../src/lib/terminal-cast";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "../src/i18n";
 import fs from "fs";
 import path from "path";
 
+// ── Validation ────────────────────────────────────────────────────
+
+/** Script file of a locale: terminal-script.md for English, terminal-script.<locale>.md otherwise. */
+function scriptFile(locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? "terminal-script.md" : `terminal-script.${locale}.md`;
+}
+
+for (const locale of LOCALES) {
+  const file = scriptFile(locale);
+  if (!fs.existsSync(path.join(process.cwd(), file))) {
+    console.error(`✗ ${file} is missing (every site locale needs a terminal script)`);
+    process.exit(1);
+  }
+  const issues = validateTerminalScript(file);
+  if (issues.length > 0) {
+    console.error(`✗ ${file} has ${issues.length} problem(s):`);
+    for (const issue of issues) {
+      console.error(`  ${formatScriptIssue(issue)}`);
+    }
+    process.exit(1);
+  }
+}
+
+const scripts = Object.fromEntries(
+  LOCALES.map((locale) => [locale, parseTerminalScript(scriptFile(locale))]),
+) as Record<Locale, TerminalScript>;
+const script = scripts[DEFAULT_LOCALE];
+
+// Translations tell the same story: `?scene=` links and skip buttons use the scene names
+const sceneNames = script.scenes.map((scene) => scene.name).join(", ");
+for (const locale of LOCALES) {
+  const names = scripts[locale].scenes.map((scene) => scene.name).join(", ");
+  if (names !== sceneNames) {
+    console.error(`✗ ${scriptFile(locale)} has scenes [${names}], expected [${sceneNames}] as in ${scriptFile(DEFAULT_LOCALE)}`);
+    process.exit(1);
+  }
+}
+
+// ── Recordings ────────────────────────────────────────────────────
+
+const recordingsDir = path.join(process.cwd(), "public", "recordings");
+const recordingFiles = fs.existsSync(recordingsDir)
+  ? fs.readdirSync(recordingsDir).filter((file: string) => file.endsWith(".cast")).sort()
+  : [];
+
+const recordings: CastInfo[] = [];
+const recordingErrors: string[] = [];
+for (const file of recordingFiles) {
+  const name = file.slice(0, -".cast".length);
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) {
+    recordingErrors.push(`${file}: invalid name (use lowercase letters, digits and dashes)`);
+    continue;
+  }
+  const result = parseAsciicast(fs.readFileSync(path.join(recordingsDir, file), "utf-8"));
+  if ("error" in result) {
+    recordingErrors.push(`${file}: ${result.error}`);
+    continue;
+  }
+  const { cast } = result;
+  recordings.push({ name, title: cast.title ?? name, width: cast.width, height: cast.height, duration: castDuration(cast) });
+}
+
+if (recordingErrors.length > 0) {
+  console.error(`✗ public/recordings has ${recordingErrors.length} problem(s):`);
+  for (const error of recordingErrors) {
+    console.error(`  ${error}`);
+  }
+  process.exit(1);
+}
+
 // ── Terminal Data ─────────────────────────────────────────────────
 
-const script = parseTerminalScript();
 const terminalOutputPath = path.join(process.cwd(), "src", "components", "react", "terminal-data.ts");
 
 const tsContent = `/**
- * Auto-generated from terminal-script.md
- * DO NOT EDIT THIS FILE DIRECTLY - Edit terminal-script.md instead
+ * Auto-generated from terminal-script.md and its translations
+ * DO NOT EDIT THIS FILE DIRECTLY - Edit terminal-script*.md instead
  */
 
 import type { TerminalScript } from "../../lib/terminal-parser";
+import type { CastInfo } from "../../lib/terminal-cast";
+import type { Locale } from "../../i18n";
+
+/** Terminal script per site locale. */
+export const TERMINAL_SCRIPTS: Record<Locale, TerminalScript> = ${JSON.stringify(scripts, null, 2)};
 
-export const TERMINAL_SCRIPT: TerminalScript = ${JSON.stringify(script, null, 2)};
+/** Script of the default locale (English). */
+export const TERMINAL_SCRIPT: TerminalScript = TERMINAL_SCRIPTS.${DEFAULT_LOCALE};
+
+export const TERMINAL_RECORDINGS: CastInfo[] = ${JSON.stringify(recordings, null, 2)};
 `;
 
 fs.writeFileSync(terminalOutputPath, tsContent);
-console.log("✓ Generated terminal-data.ts from terminal-script.md");
+console.log(`✓ Generated terminal-data.ts from ${LOCALES.map(scriptFile).join(", ")} (${recordings.length} recording(s))`);
+
+// ── Recording Export ──────────────────────────────────────────────
+
+/** Compact landing-page screen size and a fixed seed, so exports only change with the script. */
+const EXPORT_OPTIONS = { cols: script.config.cols, rows: script.config.rows, seed: 1983 };
+const EXPORT_TITLE = "TUIkit terminal";
+
+const recording = recordSession(script, EXPORT_OPTIONS);
+const publicDir = path.join(process.cwd(), "public");
+
+fs.writeFileSync(path.join(publicDir, "terminal.cast"), toAsciicast(recording, EXPORT_OPTIONS, EXPORT_TITLE));
+fs.writeFileSync(path.join(publicDir, "terminal.svg"), toAnimatedSvg(recording, EXPORT_OPTIONS, EXPORT_TITLE));
+console.log(`✓ Exported terminal.cast and terminal.svg (${recording.frames.length} frames, ${Math.round(recording.duration / 1000)}s)`);
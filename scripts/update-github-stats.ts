@@ -0,0 +1,134 @@
+/**
+ * Fetches the dashboard's GitHub stats and writes them to
+ * public/data/github-stats.json, so the dashboard can render real numbers
+ * immediately instead of spending each visitor's own rate limit on the
+ * first load.
+ *
+ * Uses the same fetching as the live dashboard (src/lib/github-stats.ts):
+ * GraphQL with GITHUB_TOKEN, REST without. Runs at prebuild, so every
+ * deploy ships a snapshot, via the scheduled data refresh workflow, or with
+ * `npm run update:stats`.
+ *
+ * Also records the day's counts in public/data/stats-history.json (see
+ * src/lib/stats-history.ts) for the stat cards' trends. On the first run the
+ * star history is backfilled from the stargazers' `starred_at` timestamps.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createScriptClient } from "../src/lib/github-script-client";
+import { failureOf, isFailure } from "../src/lib/github-client";
+import { fetchGitHubStats, STATS_SNAPSHOT_FILE, type GitHubStatsSnapshot, type PublicJsonReader } from "../src/lib/github-stats";
+import {
+  backfillStars,
+  dayKey,
+  emptyStatsHistory,
+  recordStatsDay,
+  statValuesOf,
+  STATS_HISTORY_FILE,
+  type StatsHistory,
+} from "../src/lib/stats-history";
+
+const REPO = "phranck/TUIkit";
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+/** Stargazers per page, and the most pages read for the star backfill. */
+const STARGAZERS_PER_PAGE = 100;
+const MAX_STARGAZER_PAGES = 100;
+
+const github = createScriptClient("tuikit-website");
+
+/**
+ * `--optional` (the prebuild): a failed fetch only warns, so a build without
+ * GitHub access still succeeds. Otherwise it fails the run.
+ */
+const OPTIONAL = process.argv.includes("--optional");
+
+/** Reads a pre-generated JSON file from public/ (social and activity caches). */
+const readPublicJson: PublicJsonReader = async <T>(file: string) => {
+  const filePath = path.join(PUBLIC_DIR, file);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch (err) {
+    console.warn(`Failed to read ${file}:`, err);
+    return null;
+  }
+};
+
+// ── Star history ──────────────────────────────────────────────────
+
+/** Stargazer entry with timestamp (`application/vnd.github.star+json`). */
+interface StarredEntry {
+  starred_at: string;
+}
+
+/** Fetch when each current stargazer starred the repository, or null on failure. */
+async function fetchStarTimestamps(): Promise<string[] | null> {
+  const timestamps: string[] = [];
+  for (let page = 1; page <= MAX_STARGAZER_PAGES; page++) {
+    const result = await github.request<StarredEntry[]>(
+      `/repos/${REPO}/stargazers?per_page=${STARGAZERS_PER_PAGE}&page=${page}`,
+      { accept: "application/vnd.github.star+json" },
+    );
+    if (isFailure(result)) {
+      console.warn("Failed to fetch stargazer timestamps:", result.error.message);
+      return null;
+    }
+    timestamps.push(...result.data.map((entry) => entry.starred_at));
+    if (result.data.length < STARGAZERS_PER_PAGE) break;
+  }
+  return timestamps;
+}
+
+/** Load the existing history, or an empty one. */
+function loadStatsHistory(filePath: string): StatsHistory {
+  if (!fs.existsSync(filePath)) return emptyStatsHistory();
+  try {
+    return { ...emptyStatsHistory(), ...JSON.parse(fs.readFileSync(filePath, "utf-8")) };
+  } catch (err) {
+    console.warn("Failed to read stats history, starting a new one:", err);
+    return emptyStatsHistory();
+  }
+}
+
+// ── Main ──────────────────────────────────────────────────────────
+
+async function main() {
+  let snapshot: GitHubStatsSnapshot;
+  try {
+    const stats = await fetchGitHubStats(github, readPublicJson, new AbortController().signal);
+    // The script's rate limit says nothing about the visitor's
+    snapshot = { ...stats, rateLimit: null, generatedAt: new Date().toISOString() };
+  } catch (err) {
+    // Keep the previous snapshot: stale numbers beat zeros
+    console.warn("Failed to fetch GitHub stats, keeping the previous snapshot:", failureOf(err).message);
+    github.save();
+    if (!OPTIONAL) process.exitCode = 1;
+    return;
+  }
+  github.save();
+
+  const outputPath = path.join(PUBLIC_DIR, STATS_SNAPSHOT_FILE);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(snapshot, null, 2));
+
+  // Daily counts, with the star history backfilled once
+  const historyPath = path.join(PUBLIC_DIR, STATS_HISTORY_FILE);
+  let history = recordStatsDay(loadStatsHistory(historyPath), dayKey(snapshot.generatedAt), statValuesOf(snapshot));
+  if (!history.starsBackfilled) {
+    const timestamps = await fetchStarTimestamps();
+    if (timestamps) history = backfillStars(history, timestamps);
+  }
+  github.save();
+  fs.writeFileSync(historyPath, JSON.stringify({ ...history, updated: snapshot.generatedAt }));
+
+  console.log(`✓ Generated github-stats.json (${snapshot.stars} stars, ${snapshot.totalCommits} commits)`);
+  console.log(`  Location: ${outputPath}`);
+  console.log(`  History: ${historyPath} (${history.dates.length} days)`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
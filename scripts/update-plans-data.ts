@@ -3,16 +3,56 @@
  * Reads .claude/plans/open/ and .claude/plans/done/ directories.
  *
  * Runs via GitHub Actions (hourly) or manual npm script.
- * Output: public/data/plans.json
+ * Output: public/data/plans.json (list with checklist counts for the
+ * dashboard), public/data/plans/<slug>.md (full markdown for the /plans
+ * pages) and public/data/plans-history.json (checklist counts over time,
+ * extended on every run for the burndown charts, and when each plan was
+ * opened and completed)
+ *
+ * Opened/completed dates come from the commits API: the first commit of the
+ * plan file in open/ and in done/. Once known they are kept in the history
+ * and not fetched again; if the API fails, a plan that was open in the last
+ * run and is done now is marked completed at the time of this run.
+ *
+ * Prefaces are cleaned up for display (normalizePreface), and each plan is
+ * tagged with the language it is written in (detectPlanLocale).
+ *
+ * Requests go through the shared GitHub client (conditional requests with
+ * the response cache in .cache/), so unchanged directories and plan files
+ * cost no rate limit. If a directory listing or a plan file cannot be
+ * fetched, all previous files are kept.
  *
  * Requires GITHUB_TOKEN env var for authenticated API access.
  */
 
 import fs from "fs";
 import path from "path";
+import { PLAN_CONTENT_DIR, PLANS_HISTORY_FILE, loadPlansHistory } from "../src/lib/plans-data";
+import { createScriptClient } from "../src/lib/github-script-client";
+import { isFailure } from "../src/lib/github-client";
+import {
+  countTaskSections,
+  detectPlanLocale,
+  normalizePreface,
+  planDirectory,
+  stripTitle,
+  sumTasks,
+  type PlanLifecycle,
+  type PlansHistory,
+  type TaskProgress,
+  type TaskSection,
+} from "../src/lib/plans";
+import type { Locale } from "../src/i18n";
 
 const REPO = "phranck/TUIkit";
-const API_BASE = `https://api.github.com/repos/${REPO}/contents`;
+const CONTENTS_PATH = `/repos/${REPO}/contents`;
+const COMMITS_PATH = `/repos/${REPO}/commits`;
+
+const github = createScriptClient("tuikit-website");
+
+/** Commits per page of the commits API, and the most pages read per file. */
+const COMMITS_PER_PAGE = 100;
+const MAX_COMMIT_PAGES = 5;
 
 interface PlanData {
   date: string;
@@ -20,6 +60,11 @@ interface PlanData {
   title: string;
   preface: string;
   status: "open" | "done";
+  locale: Locale;
+  /** Full markdown of the plan file. */
+  content: string;
+  tasks: TaskProgress;
+  sections: TaskSection[];
 }
 
 interface GitHubContentItem {
@@ -28,6 +73,12 @@ interface GitHubContentItem {
   type: "file" | "dir";
 }
 
+interface GitHubCommitItem {
+  commit: {
+    committer: { date: string };
+  };
+}
+
 function extractDate(filename: string): string {
   const match = filename.match(/^(\d{4}-\d{2}-\d{2})/);
   return match ? match[1] : "";
@@ -44,43 +95,24 @@ function extractTitle(content: string): string {
 }
 
 function extractPreface(content: string): string {
-  const match = content.match(/^##\s+Preface\s*\n([\s\S]*?)(?=\n##\s|\Z)/m);
-  return match ? match[1].trim() : "";
-}
-
-/** Build common headers for GitHub API requests. */
-function apiHeaders(): Record<string, string> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "User-Agent": "tuikit-website",
-  };
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  return headers;
+  const match = content.match(/^##\s+Preface\s*\n([\s\S]*?)(?=\n##\s|$(?![\s\S]))/m);
+  return match ? normalizePreface(match[1]) : "";
 }
 
-/** Fetch plan files from a GitHub directory via Contents API. */
+/**
+ * Fetch plan files from a GitHub directory via Contents API, or null if the
+ * listing or any of the files could not be fetched.
+ */
 async function fetchPlansFromGitHub(
   dirPath: string,
   status: "open" | "done"
-): Promise<PlanData[]> {
-  const url = `${API_BASE}/${dirPath}`;
-  const headers = apiHeaders();
-
-  let items: GitHubContentItem[];
-  try {
-    const res = await fetch(url, { headers });
-    if (!res.ok) {
-      console.warn(`GitHub API ${res.status} for ${dirPath}`);
-      return [];
-    }
-    items = (await res.json()) as GitHubContentItem[];
-  } catch (err) {
-    console.warn(`Failed to fetch ${dirPath}:`, err);
-    return [];
+): Promise<PlanData[] | null> {
+  const listing = await github.request<GitHubContentItem[]>(`${CONTENTS_PATH}/${dirPath}`);
+  if (isFailure(listing)) {
+    console.warn(`Failed to fetch ${dirPath}:`, listing.error.message);
+    return null;
   }
+  const items = listing.data;
 
   const mdFiles = items.filter(
     (item) => item.type === "file" && item.name.endsWith(".md")
@@ -88,10 +120,14 @@ async function fetchPlansFromGitHub(
 
   const plans: PlanData[] = [];
   for (const file of mdFiles) {
+    const download = await github.request<string>(file.download_url, { as: "text" });
+    if (isFailure(download)) {
+      console.warn(`Failed to fetch content for ${file.name}:`, download.error.message);
+      return null;
+    }
     try {
-      const contentRes = await fetch(file.download_url, { headers });
-      if (!contentRes.ok) continue;
-      const content = await contentRes.text();
+      const content = download.data;
+      const sections = countTaskSections(stripTitle(content));
 
       const plan: PlanData = {
         date: extractDate(file.name),
@@ -99,22 +135,98 @@ async function fetchPlansFromGitHub(
         title: extractTitle(content),
         preface: extractPreface(content),
         status,
+        locale: detectPlanLocale(stripTitle(content)),
+        content,
+        tasks: sumTasks(sections),
+        sections,
       };
 
       if (plan.date && plan.slug && plan.preface) {
         plans.push(plan);
       }
-    } catch {
-      console.warn(`Failed to fetch content for ${file.name}`);
+    } catch (err) {
+      console.warn(`Failed to process ${file.name}:`, err);
     }
   }
 
   return plans;
 }
 
+/** Committer dates of all commits touching a path, oldest first. Empty if the request fails. */
+async function fetchCommitDates(filePath: string): Promise<string[]> {
+  const dates: string[] = [];
+
+  for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+    const result = await github.request<GitHubCommitItem[]>(
+      `${COMMITS_PATH}?path=${encodeURIComponent(filePath)}&per_page=${COMMITS_PER_PAGE}&page=${page}`,
+    );
+    if (isFailure(result)) {
+      console.warn(`Failed to fetch commits of ${filePath}:`, result.error.message);
+      return [];
+    }
+    dates.push(...result.data.map((item) => item.commit.committer.date));
+    if (result.data.length < COMMITS_PER_PAGE) break;
+  }
+
+  return dates.sort();
+}
+
+/**
+ * Determines when a plan was opened and completed. A lifecycle that still
+ * matches the plan's status is reused without API requests.
+ */
+async function resolveLifecycle(plan: PlanData, previous: PlanLifecycle | undefined): Promise<PlanLifecycle> {
+  const isDone = plan.status === "done";
+  if (previous && (previous.completed !== null) === isDone) return previous;
+
+  const fileName = `${plan.date}-${plan.slug}.md`;
+  const openDates = await fetchCommitDates(`${planDirectory("open")}/${fileName}`);
+  const opened = openDates[0] ?? previous?.opened ?? `${plan.date}T00:00:00Z`;
+  if (!isDone) return { opened, completed: null };
+
+  const doneDates = await fetchCommitDates(`${planDirectory("done")}/${fileName}`);
+  // Without commit data, a plan seen open in the last run was completed since then
+  const completed = doneDates[0] ?? (previous ? new Date().toISOString() : null);
+  return { opened, completed };
+}
+
+/**
+ * Adds today's checklist counts of each plan to the history. A day keeps
+ * only its latest counts, and unchanged counts are not repeated (the chart
+ * carries the last value forward to `updated`). A slug listed twice (moved
+ * between directories) is recorded once, from its first entry. Returns the
+ * updated counts by slug.
+ */
+function recordHistory(history: PlansHistory, plans: PlanData[]): PlansHistory["plans"] {
+  const today = new Date().toISOString().slice(0, 10);
+  const recorded = new Set<string>();
+
+  for (const plan of plans) {
+    if (plan.tasks.total === 0 || recorded.has(plan.slug)) continue;
+    recorded.add(plan.slug);
+    const points = history.plans[plan.slug] ?? [];
+    const last = points[points.length - 1];
+
+    if (last && last.date === today) {
+      points[points.length - 1] = { date: today, ...plan.tasks };
+    } else if (!last || last.done !== plan.tasks.done || last.total !== plan.tasks.total) {
+      points.push({ date: today, ...plan.tasks });
+    }
+    history.plans[plan.slug] = points;
+  }
+
+  return history.plans;
+}
+
 async function main() {
   const openPlans = await fetchPlansFromGitHub(".claude/plans/open", "open");
-  const donePlans = await fetchPlansFromGitHub(".claude/plans/done", "done");
+  const donePlans = openPlans && (await fetchPlansFromGitHub(".claude/plans/done", "done"));
+  if (!openPlans || !donePlans) {
+    // An incomplete listing would drop plans: keep plans.json, the documents and the history as they are
+    github.save();
+    console.warn("Keeping the previous plans data");
+    return;
+  }
 
   const sortByDateDesc = (a: PlanData, b: PlanData) =>
     new Date(b.date).getTime() - new Date(a.date).getTime();
@@ -122,19 +234,41 @@ async function main() {
   openPlans.sort(sortByDateDesc);
   donePlans.sort(sortByDateDesc);
 
+  // Lifecycle of each plan, open ones first (a slug in both directories counts as open)
+  const history = loadPlansHistory();
+  const lifecycle = { ...history.lifecycle };
+  const resolved = new Set<string>();
+  for (const plan of [...openPlans, ...donePlans]) {
+    if (resolved.has(plan.slug)) continue;
+    resolved.add(plan.slug);
+    lifecycle[plan.slug] = await resolveLifecycle(plan, history.lifecycle[plan.slug]);
+  }
+  const lifecycleOf = (plan: PlanData) => ({
+    opened: lifecycle[plan.slug].opened,
+    ...(plan.status === "done" && lifecycle[plan.slug].completed ? { completed: lifecycle[plan.slug].completed } : {}),
+  });
+
   const output = {
     generated: new Date().toISOString(),
-    open: openPlans.map(({ date, slug, title, preface }) => ({
-      date,
-      slug,
-      title,
-      preface,
+    open: openPlans.map((plan) => ({
+      date: plan.date,
+      slug: plan.slug,
+      title: plan.title,
+      preface: plan.preface,
+      locale: plan.locale,
+      tasks: plan.tasks,
+      sections: plan.sections,
+      ...lifecycleOf(plan),
     })),
-    done: donePlans.map(({ date, slug, title, preface }) => ({
-      date,
-      slug,
-      title,
-      preface,
+    done: donePlans.map((plan) => ({
+      date: plan.date,
+      slug: plan.slug,
+      title: plan.title,
+      preface: plan.preface,
+      locale: plan.locale,
+      tasks: plan.tasks,
+      sections: plan.sections,
+      ...lifecycleOf(plan),
     })),
   };
 
@@ -144,10 +278,39 @@ async function main() {
   const outputPath = path.join(outputDir, "plans.json");
   fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
 
+  // Full plan documents; files of plans that no longer exist are removed (the listing is complete here)
+  const contentDir = path.join(process.cwd(), PLAN_CONTENT_DIR);
+  fs.mkdirSync(contentDir, { recursive: true });
+  const contentFiles = new Set<string>();
+  for (const plan of [...openPlans, ...donePlans]) {
+    const fileName = `${plan.slug}.md`;
+    if (contentFiles.has(fileName)) continue;
+    contentFiles.add(fileName);
+    fs.writeFileSync(path.join(contentDir, fileName), plan.content);
+  }
+  for (const fileName of fs.readdirSync(contentDir)) {
+    if (fileName.endsWith(".md") && !contentFiles.has(fileName)) {
+      fs.unlinkSync(path.join(contentDir, fileName));
+    }
+  }
+
+  // Checklist history for the burndown charts, and the lifecycles
+  const historyPath = path.join(process.cwd(), PLANS_HISTORY_FILE);
+  const updatedHistory: PlansHistory = {
+    updated: new Date().toISOString(),
+    plans: recordHistory(history, [...openPlans, ...donePlans]),
+    lifecycle,
+  };
+  fs.writeFileSync(historyPath, JSON.stringify(updatedHistory, null, 2));
+
+  github.save();
+
   console.log(
     `✓ Generated plans.json (${openPlans.length} open, ${donePlans.length} done)`
   );
   console.log(`  Location: ${outputPath}`);
+  console.log(`  Plan documents: ${contentDir} (${contentFiles.size} files)`);
+  console.log(`  History: ${historyPath} (${Object.keys(updatedHistory.plans).length} plans, ${Object.keys(lifecycle).length} lifecycles)`);
 }
 
 main();
@@ -0,0 +1,94 @@
+/**
+ * Fetches all published TUIkit releases with their release notes from the
+ * GitHub releases API and writes them to public/data/releases.json.
+ *
+ * Runs via prebuild, the scheduled data refresh workflow or
+ * `npm run update:releases`. The file feeds the /releases pages, the
+ * release feeds (/releases/rss.xml, /releases/atom.xml) and the version
+ * link of the package badge.
+ *
+ * Requests go through the shared GitHub client (conditional requests with
+ * the response cache in .cache/), so an unchanged release list costs no rate
+ * limit. If the API fails, the previous file is kept.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createScriptClient } from "../src/lib/github-script-client";
+import { isFailure } from "../src/lib/github-client";
+import { RELEASES_FILE } from "../src/lib/releases-data";
+import { RELEASES_REPO, versionOfTag, type Release, type ReleasesData } from "../src/lib/releases";
+
+/** Releases per page, and the most pages read. */
+const RELEASES_PER_PAGE = 100;
+const MAX_RELEASE_PAGES = 10;
+
+const github = createScriptClient("tuikit-website");
+
+/** Release entry of the GitHub releases API (the fields used here). */
+interface GitHubRelease {
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+  html_url: string;
+}
+
+/** Fetch all published releases, newest first, or null on failure. */
+async function fetchReleases(): Promise<Release[] | null> {
+  const releases: Release[] = [];
+
+  for (let page = 1; page <= MAX_RELEASE_PAGES; page++) {
+    const result = await github.request<GitHubRelease[]>(
+      `/repos/${RELEASES_REPO}/releases?per_page=${RELEASES_PER_PAGE}&page=${page}`,
+    );
+    if (isFailure(result)) {
+      console.warn("Failed to fetch releases:", result.error.message);
+      return null;
+    }
+
+    for (const release of result.data) {
+      // Drafts are only visible with push access, and have no publication date
+      if (release.draft || !release.published_at) continue;
+      releases.push({
+        version: versionOfTag(release.tag_name),
+        tag: release.tag_name,
+        name: release.name?.trim() || release.tag_name,
+        body: (release.body ?? "").replace(/\r\n/g, "\n").trim(),
+        publishedAt: release.published_at,
+        prerelease: release.prerelease,
+        url: release.html_url,
+      });
+    }
+    if (result.data.length < RELEASES_PER_PAGE) break;
+  }
+
+  return releases.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+}
+
+async function main() {
+  const releases = await fetchReleases();
+  github.save();
+
+  const outputPath = path.join(process.cwd(), RELEASES_FILE);
+  if (!releases) {
+    // Keep the previous release list: the pages and feeds stay as they were
+    console.warn("Keeping the previous releases.json");
+    return;
+  }
+
+  const output: ReleasesData = {
+    generated: new Date().toISOString(),
+    releases,
+  };
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+
+  console.log(`✓ Generated releases.json (${releases.length} releases, latest: ${releases[0]?.tag ?? "none"})`);
+  console.log(`  Location: ${outputPath}`);
+}
+
+main();
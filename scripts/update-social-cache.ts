@@ -2,18 +2,22 @@
 /**
  * Social Cache Updater
  *
- * Finds social accounts (Mastodon, Twitter, Bluesky) for GitHub stargazers using multiple strategies:
+ * Finds social accounts (Mastodon, Twitter, Bluesky) for GitHub stargazers and contributors using multiple strategies:
  * 1. Manual overrides (highest priority)
  * 2. Parse GitHub bio for handles
  * 3. Parse GitHub blog URL for profile links
  * 4. Search username on known platforms
  *
- * Supports incremental updates (only new stargazers) and weekly full refresh.
+ * Supports incremental updates (only new stargazers and contributors) and weekly full refresh.
+ * GitHub requests go through the shared client, so profiles that did not
+ * change since the last run are revalidated without using up the rate limit.
  */
 
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
+import { createScriptClient } from "../src/lib/github-script-client";
+import { failureError, isFailure } from "../src/lib/github-client";
 
 // ES Module equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -25,7 +29,8 @@ const __dirname = path.dirname(__filename);
 
 const OWNER = "phranck";
 const REPO = "TUIkit";
-const GITHUB_API = "https://api.github.com";
+
+const github = createScriptClient("TUIKit-Social-Lookup");
 
 /** Known Mastodon instances to search for username matches. */
 const KNOWN_MASTODON_INSTANCES = [
@@ -102,6 +107,10 @@ interface GitHubStargazer {
   html_url: string;
 }
 
+interface GitHubContributor extends GitHubStargazer {
+  type: string;
+}
+
 /**
  * Domains that use `/@username` URL patterns but are NOT Mastodon instances.
  * Prevents false positive matches from link-in-bio services and social platforms.
@@ -416,32 +425,21 @@ async function fetchSocialFromLinktree(username: string): Promise<ProfileSocialA
 // GitHub API
 // ─────────────────────────────────────────────────────────────────────────────
 
-function getGitHubHeaders(): Record<string, string> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "User-Agent": "TUIKit-Social-Lookup",
-  };
-  const token = process.env.GITHUB_TOKEN;
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  return headers;
-}
-
 async function fetchStargazers(): Promise<GitHubStargazer[]> {
   const stargazers: GitHubStargazer[] = [];
   let page = 1;
   const perPage = 100;
 
   while (true) {
-    const url = `${GITHUB_API}/repos/${OWNER}/${REPO}/stargazers?per_page=${perPage}&page=${page}`;
-    const response = await fetch(url, { headers: getGitHubHeaders() });
+    const result = await github.request<GitHubStargazer[]>(
+      `/repos/${OWNER}/${REPO}/stargazers?per_page=${perPage}&page=${page}`,
+    );
 
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    if (isFailure(result)) {
+      throw failureError(result.error);
     }
 
-    const data = (await response.json()) as GitHubStargazer[];
+    const data = result.data;
     stargazers.push(...data);
 
     if (data.length < perPage) break;
@@ -452,17 +450,41 @@ async function fetchStargazers(): Promise<GitHubStargazer[]> {
   return stargazers;
 }
 
+async function fetchContributors(): Promise<GitHubContributor[]> {
+  const contributors: GitHubContributor[] = [];
+  let page = 1;
+  const perPage = 100;
+
+  while (true) {
+    const result = await github.request<GitHubContributor[]>(
+      `/repos/${OWNER}/${REPO}/contributors?per_page=${perPage}&page=${page}`,
+    );
+
+    if (isFailure(result)) {
+      throw failureError(result.error);
+    }
+
+    const data = result.data;
+    contributors.push(...data.filter((c) => c.type !== "Bot"));
+
+    if (data.length < perPage) break;
+    page++;
+  }
+
+  console.log(`Fetched ${contributors.length} contributors from GitHub`);
+  return contributors;
+}
+
 async function fetchUserDetails(login: string): Promise<GitHubUser | null> {
   try {
-    const url = `${GITHUB_API}/users/${login}`;
-    const response = await fetch(url, { headers: getGitHubHeaders() });
+    const result = await github.request<GitHubUser>(`/users/${login}`);
 
-    if (!response.ok) {
-      console.warn(`  Failed to fetch user ${login}: ${response.status}`);
+    if (isFailure(result)) {
+      console.warn(`  Failed to fetch user ${login}: ${result.error.message}`);
       return null;
     }
 
-    return (await response.json()) as GitHubUser;
+    return result.data;
   } catch (error) {
     console.warn(`  Error fetching user ${login}:`, error);
     return null;
@@ -486,15 +508,13 @@ async function fetchGitHubSocialAccounts(login: string): Promise<ProfileSocialAc
   const accounts: ProfileSocialAccounts = {};
 
   try {
-    const url = `${GITHUB_API}/users/${login}/social_accounts`;
-    const response = await fetch(url, {
-      headers: getGitHubHeaders(),
+    const result = await github.request<GitHubSocialAccount[]>(`/users/${login}/social_accounts`, {
       signal: AbortSignal.timeout(5000),
     });
 
-    if (!response.ok) return accounts;
+    if (isFailure(result)) return accounts;
 
-    const data = (await response.json()) as GitHubSocialAccount[];
+    const data = result.data;
 
     for (const entry of data) {
       if (entry.provider === "twitter" && !accounts.twitter) {
@@ -1053,14 +1073,28 @@ async function main() {
     stargazers = await fetchStargazers();
   }
 
+  let contributors: GitHubContributor[];
+  try {
+    contributors = await fetchContributors();
+  } catch (err) {
+    console.error("Failed to fetch contributors, retrying in 5s...");
+    await new Promise((r) => setTimeout(r, 5000));
+    contributors = await fetchContributors();
+  }
+
+  // Stargazers and contributors, each user once
+  const users = [...stargazers];
+  const stargazerLogins = new Set(stargazers.map((s) => s.login));
+  users.push(...contributors.filter((c) => !stargazerLogins.has(c.login)));
+
   // Determine which users to process
   const cachedLogins = new Set(Object.keys(cache.entries));
-  const currentLogins = new Set(stargazers.map((s) => s.login));
+  const currentLogins = new Set(users.map((u) => u.login));
 
-  // Remove entries for users who unstarred
+  // Remove entries for users who unstarred and never contributed
   for (const login of cachedLogins) {
     if (!currentLogins.has(login)) {
-      console.log(`Removing unstarred user: ${login}`);
+      console.log(`Removing user who is no longer a stargazer or contributor: ${login}`);
       delete cache.entries[login];
     }
   }
@@ -1071,15 +1105,15 @@ async function main() {
     cache.entries = {};
   }
 
-  // Find new stargazers (not in cache)
+  // Find new users (not in cache)
   const toProcess = isFullRefresh
-    ? stargazers
-    : stargazers.filter((s) => !cachedLogins.has(s.login));
+    ? users
+    : users.filter((u) => !cachedLogins.has(u.login));
 
   console.log(`\nProcessing ${toProcess.length} users...`);
 
-  for (const stargazer of toProcess) {
-    const { login } = stargazer;
+  for (const user of toProcess) {
+    const { login } = user;
     console.log(`\nProcessing: ${login}`);
 
     // Check manual overrides first
@@ -1131,6 +1165,7 @@ async function main() {
 
   // Save updated cache
   saveCache(cache);
+  github.save();
 
   console.log("\n" + "=".repeat(60));
   console.log("Done!");
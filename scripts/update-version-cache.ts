@@ -1,68 +1,42 @@
 /**
- * Fetches the latest TUIkit version from GitHub tags API.
+ * Fetches the latest TUIkit versions from the GitHub tags API.
  * Generates public/version-cache.json for pre-cached client-side access.
  *
- * Runs via prebuild, CI workflow, or manual npm script.
+ * Tags are compared as semantic versions (src/lib/versions.ts), so the file
+ * holds the highest stable version and, if there is a newer one, the
+ * highest pre-release. The build config reads the stable version as its
+ * fallback for `PUBLIC_TUIKIT_VERSION`.
+ *
+ * Runs via prebuild, CI workflow, or manual npm script. The tags request is
+ * conditional (shared GitHub client), so an unchanged tag list is free. If
+ * it fails, the previous file is kept.
  */
 
 import fs from "fs";
 import path from "path";
+import { createScriptClient } from "../src/lib/github-script-client";
+import { fetchVersionChannels, VERSION_CACHE_FILE, type VersionCache } from "../src/lib/versions";
 
-const REPO = "phranck/TUIkit";
-const API_URL = `https://api.github.com/repos/${REPO}/tags`;
-const FALLBACK_VERSION = "0.3.0";
+const github = createScriptClient("tuikit-website");
 
-/** Build common headers for GitHub API requests. */
-function apiHeaders(): Record<string, string> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "User-Agent": "tuikit-website",
-  };
-  const token = process.env.GITHUB_TOKEN || process.env.PUBLIC_GITHUB_TOKEN;
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-  return headers;
-}
+async function main() {
+  const outputPath = path.join(process.cwd(), "public", VERSION_CACHE_FILE);
 
-/** Fetch latest version from GitHub tags API. */
-async function fetchLatestVersion(): Promise<string> {
+  let output: VersionCache;
   try {
-    const response = await fetch(API_URL, { headers: apiHeaders() });
-    if (!response.ok) {
-      throw new Error(`GitHub API ${response.status}: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    if (!Array.isArray(data) || data.length === 0) {
-      throw new Error("No tags found in repository");
-    }
-
-    const version = data[0].name?.replace(/^v/, "");
-    if (!version) {
-      throw new Error("Invalid tag format");
-    }
-
-    return version;
+    const channels = await fetchVersionChannels(github);
+    output = { ...channels, generatedAt: new Date().toISOString() };
   } catch (err) {
-    console.warn(`Failed to fetch version from GitHub: ${err}`);
-    console.warn(`Using fallback version: ${FALLBACK_VERSION}`);
-    return FALLBACK_VERSION;
+    console.warn(`Failed to fetch versions from GitHub: ${err}`);
+    console.warn("Keeping the previous version-cache.json");
+    github.save();
+    return;
   }
-}
-
-async function main() {
-  const version = await fetchLatestVersion();
-
-  const output = {
-    version,
-    generatedAt: new Date().toISOString(),
-  };
+  github.save();
 
-  const outputPath = path.join(process.cwd(), "public", "version-cache.json");
   fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
 
-  console.log(`✓ Generated version-cache.json: ${version}`);
+  console.log(`✓ Generated version-cache.json: ${output.stable}${output.prerelease ? ` (pre-release: ${output.prerelease})` : ""}`);
   console.log(`  Location: ${outputPath}`);
 }
 
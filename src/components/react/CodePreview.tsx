@@ -195,7 +195,8 @@ function Highlight({ code, showLineNumbers = false }: { code: string; showLineNu
   );
 }
 
-function tokenizeLine(line: string) {
+/** Highlights one line of Swift (also used by the dashboard's commit diffs). */
+export function tokenizeLine(line: string) {
   // Comments take precedence
   const commentMatch = line.match(/^(.*?)(\/\/.*)$/);
   if (commentMatch) {
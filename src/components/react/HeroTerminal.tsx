@@ -1,6 +1,12 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { Howl } from "howler";
 import TerminalScreen from "./TerminalScreen";
+import TerminalControls, { UNIX_SCENE_LABEL } from "./TerminalControls";
+import { TERMINAL_RECORDINGS, TERMINAL_SCRIPT, TERMINAL_SCRIPTS } from "./terminal-data";
+import { useTerminalPlayback } from "../../hooks/useTerminalPlayback";
+import { useTerminalGeometry, type TerminalGeometry } from "../../hooks/useTerminalGeometry";
+import { importAsciicast, parseAsciicast, RECORDINGS_PATH, type CastFit, type ImportedCast } from "../../lib/terminal-cast";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "../../i18n";
 
 /** Lazy-loaded Howl factory to avoid bundling howler.js on initial load. */
 let HowlClass: typeof Howl | null = null;
@@ -49,6 +55,44 @@ const SPIN_START_DELAY_MS = 19900;
 /** Delay before random seek sounds begin (after boot finishes). */
 const SEEK_START_DELAY_MS = 20300;
 
+/** URL parameter that deep-links to a scene, e.g. `?scene=joshua`. */
+const SCENE_PARAM = "scene";
+
+/**
+ * Reads the `?scene=` deep link. Returns the scene name (null: the UNIX
+ * loop), or undefined when the parameter is missing or unknown. Scene names
+ * are the same in every locale's script (checked at build time).
+ */
+function readSceneParam(): string | null | undefined {
+  const value = new URLSearchParams(window.location.search).get(SCENE_PARAM)?.toLowerCase();
+  if (!value) return undefined;
+  if (value === UNIX_SCENE_LABEL) return null;
+  return TERMINAL_SCRIPT.scenes.some((scene) => scene.name === value) ? value : undefined;
+}
+
+/** URL parameters that start player mode with a recording, e.g. `?cast=demo&fit=crop`. */
+const CAST_PARAM = "cast";
+const FIT_PARAM = "fit";
+
+/** Player mode: which recording plays instead of the script, and how it fits the CRT. */
+interface PlayerSelection {
+  name: string;
+  fit: CastFit;
+}
+
+/** Reads the `?cast=` deep link. Returns undefined when the parameter is missing or unknown. */
+function readCastParam(): PlayerSelection | undefined {
+  const params = new URLSearchParams(window.location.search);
+  const name = params.get(CAST_PARAM)?.toLowerCase();
+  if (!name || !TERMINAL_RECORDINGS.some((info) => info.name === name)) return undefined;
+  return { name, fit: params.get(FIT_PARAM) === "crop" ? "crop" : "scale" };
+}
+
+interface HeroTerminalProps {
+  /** Locale of the page: selects terminal-script.md or its translation. */
+  locale?: Locale;
+}
+
 /**
  * Interactive hero terminal with power-on animation.
  *
@@ -58,8 +102,18 @@ const SEEK_START_DELAY_MS = 20300;
  *
  * Uses CSS `transform: scale()` for the zoom animation so the element
  * animates smoothly from its inline position to viewport center.
+ *
+ * While zoomed, a control strip pauses, restarts, skips between scenes,
+ * changes speed and scrubs the session; the drive sounds follow along.
+ * `?scene=joshua` powers on and jumps straight to that scene.
+ *
+ * Player mode replays an asciicast recording from public/recordings/ (a real
+ * TUIkit app session) instead of the script, either scaled down to show the
+ * whole screen or cropped to the CRT. `?cast=name` starts it directly.
  */
-export default function HeroTerminal() {
+export default function HeroTerminal({ locale = DEFAULT_LOCALE }: HeroTerminalProps) {
+  const script = TERMINAL_SCRIPTS[locale];
+  const t = getMessages(locale).home.terminal;
   const [powered, setPowered] = useState(false);
   const [zoomed, setZoomed] = useState(false);
   const [mounted, setMounted] = useState(false);
@@ -90,6 +144,67 @@ export default function HeroTerminal() {
   const seekAudioRef = useRef<Howl | null>(null);
   /** Tracks all pending setTimeout handles for cleanup on power-off/unmount. */
   const pendingTimersRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  /** Pending start of the spin loop, replaced whenever the drive audio is re-synced. */
+  const spinTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Whether playback (and with it the drive audio) is paused. Read by the seek sound loop. */
+  const audioPausedRef = useRef(false);
+  /** Scene from a `?scene=` deep link, applied once the playback timeline is known. */
+  const pendingSceneRef = useRef<string | null | undefined>(undefined);
+
+  /** Player mode selection, or null for the scripted session. */
+  const [player, setPlayer] = useState<PlayerSelection | null>(null);
+  /** Last imported recording, tagged with the selection it was imported for. */
+  const [loadedCast, setLoadedCast] = useState<{ selection: PlayerSelection; cast: ImportedCast } | null>(null);
+  /** Recording to play; null while the selected one is still loading. */
+  const source = player && loadedCast?.selection === player ? loadedCast.cast : null;
+  /** Recordings start with the drive already spinning, so the audio skips the boot sound. */
+  const audioOffset = player ? SPIN_START_DELAY_MS : 0;
+
+  /** Screen size for the current viewport; the screen re-flows when it changes. */
+  const geometry = useTerminalGeometry(script.config);
+  /**
+   * Screen size the session was started with. The engine keeps it for the
+   * whole session (barrage width, scrollback), so crossing a breakpoint
+   * re-flows the screen instead of restarting the story.
+   */
+  const [sessionGeometry, setSessionGeometry] = useState<TerminalGeometry>(geometry);
+  const screenGeometry = source ?? geometry;
+
+  const playback = useTerminalPlayback(source?.script ?? script, {
+    active: powered && (player === null || source !== null),
+    cols: source?.cols ?? sessionGeometry.cols,
+    rows: source?.rows ?? sessionGeometry.rows,
+  });
+
+  /** Player mode: fetch and import the selected recording. */
+  useEffect(() => {
+    if (!player) return;
+    let cancelled = false;
+    fetch(`${RECORDINGS_PATH}/${player.name}.cast`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then((text) => {
+        if (cancelled) return;
+        const result = parseAsciicast(text);
+        if ("error" in result) throw new Error(result.error);
+        const cast = importAsciicast(result.cast, {
+          name: player.name,
+          cols: sessionGeometry.cols,
+          rows: sessionGeometry.rows,
+          fit: player.fit,
+          config: script.config,
+        });
+        setLoadedCast({ selection: player, cast });
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.warn(`Failed to load recording "${player.name}":`, err);
+        setPlayer(null);
+      });
+    return () => { cancelled = true; };
+  }, [player, sessionGeometry, script]);
 
   /** Helper: schedule a timeout and track it for cleanup. */
   const scheduleTimer = useCallback((callback: () => void, delayMs: number) => {
@@ -105,10 +220,41 @@ export default function HeroTerminal() {
   const clearAllTimers = useCallback(() => {
     for (const handle of pendingTimersRef.current) clearTimeout(handle);
     pendingTimersRef.current.clear();
+    spinTimerRef.current = null;
   }, []);
 
-  /** Whether the remaining (non-critical) audio has been loaded. */
-  const remainingAudioLoadedRef = useRef(false);
+  /**
+   * Aligns the drive sounds with playback time `ms`: the boot sound covers
+   * roughly the first 20 seconds, the spin loop takes over afterwards.
+   */
+  const syncDriveAudio = useCallback((ms: number) => {
+    if (spinTimerRef.current) {
+      clearTimeout(spinTimerRef.current);
+      pendingTimersRef.current.delete(spinTimerRef.current);
+      spinTimerRef.current = null;
+    }
+    const boot = bootAudioRef.current;
+    const spin = spinAudioRef.current;
+
+    if (ms < SPIN_START_DELAY_MS) {
+      spin?.stop();
+      if (boot) {
+        boot.seek(ms / 1000);
+        if (!boot.playing()) boot.play();
+      }
+      // Start gapless spin loop slightly before boot ends for seamless transition
+      spinTimerRef.current = scheduleTimer(() => {
+        spinTimerRef.current = null;
+        spinAudioRef.current?.play();
+      }, SPIN_START_DELAY_MS - ms);
+    } else {
+      boot?.stop();
+      if (spin && !spin.playing()) spin.play();
+    }
+  }, [scheduleTimer]);
+
+  /** Loading of the remaining (non-critical) audio, started on first power-on. */
+  const remainingAudioRef = useRef<Promise<void> | null>(null);
 
   /** Eagerly preload Howler.js + critical sounds (power-on, boot) on mount. */
   useEffect(() => {
@@ -131,19 +277,19 @@ export default function HeroTerminal() {
   }, []);
 
   /** Lazy-load remaining audio (spin, power-off, seek) on first power-on click. */
-  const ensureRemainingAudioLoaded = useCallback(async () => {
-    if (remainingAudioLoadedRef.current) return;
-    remainingAudioLoadedRef.current = true;
-
-    const [spin, powerOff, seek] = await Promise.all([
-      createHowl({ src: ["/sounds/hard-drive-spin.m4a"], volume: 0.6, loop: true }),
-      createHowl({ src: ["/sounds/hard-drive-power-off.m4a"], volume: 0.6 }),
-      createHowl({ src: ["/sounds/hard-drive-seek1.m4a"], volume: 0.4 }),
-    ]);
-
-    spinAudioRef.current = spin;
-    powerOffAudioRef.current = powerOff;
-    seekAudioRef.current = seek;
+  const ensureRemainingAudioLoaded = useCallback(() => {
+    remainingAudioRef.current ??= (async () => {
+      const [spin, powerOff, seek] = await Promise.all([
+        createHowl({ src: ["/sounds/hard-drive-spin.m4a"], volume: 0.6, loop: true }),
+        createHowl({ src: ["/sounds/hard-drive-power-off.m4a"], volume: 0.6 }),
+        createHowl({ src: ["/sounds/hard-drive-seek1.m4a"], volume: 0.4 }),
+      ]);
+
+      spinAudioRef.current = spin;
+      powerOffAudioRef.current = powerOff;
+      seekAudioRef.current = seek;
+    })();
+    return remainingAudioRef.current;
   }, []);
 
   // Cleanup audio on unmount
@@ -195,14 +341,15 @@ export default function HeroTerminal() {
       powerOnAudioRef.current.seek(0);
       powerOnAudioRef.current.play();
     }
-    if (bootAudioRef.current) {
-      bootAudioRef.current.seek(0);
-      bootAudioRef.current.play();
-    }
+    audioPausedRef.current = false;
+    syncDriveAudio(0);
 
     // Lazy-load remaining sounds (spin, power-off, seek) without blocking
     ensureRemainingAudioLoaded();
 
+    // The session keeps the screen size it starts with
+    setSessionGeometry(geometry);
+
     // Start with horizontal line, then expand vertically
     setBootPhase(1);
     setPowered(true);
@@ -218,15 +365,15 @@ export default function HeroTerminal() {
     // Clear boot phase after expansion completes
     scheduleTimer(() => setBootPhase(null), CRT_EXPAND_VERTICAL_MS + 50);
 
-    // Start gapless spin loop slightly before boot ends for seamless transition
-    scheduleTimer(() => {
-      spinAudioRef.current?.play();
-    }, SPIN_START_DELAY_MS);
-
     // Recursive seek scheduling: each invocation picks a fresh random delay.
     // All timeouts go through scheduleTimer so clearAllTimers catches them.
+    // Paused playback skips the sound but keeps the loop alive.
     const scheduleNextSeek = () => {
       scheduleTimer(() => {
+        if (audioPausedRef.current) {
+          scheduleNextSeek();
+          return;
+        }
         seekAudioRef.current?.seek(0);
         seekAudioRef.current?.play();
 
@@ -247,7 +394,7 @@ export default function HeroTerminal() {
 
     // Zoom after 200ms delay
     scheduleTimer(() => setZoomed(true), 200);
-  }, [powered, computeCenterOffset, scheduleTimer, ensureRemainingAudioLoaded]);
+  }, [powered, geometry, computeCenterOffset, scheduleTimer, ensureRemainingAudioLoaded, syncDriveAudio]);
 
   /** Power off: run CRT shutdown animation, then zoom back and kill power. */
   const handlePowerOff = useCallback(() => {
@@ -288,6 +435,100 @@ export default function HeroTerminal() {
     }, CRT_SHUTDOWN_TOTAL_MS);
   }, [shutdownPhase, clearAllTimers, scheduleTimer]);
 
+  const { paused, pause, resume, seek, seekToScene, restart, setSpeed, time, timeline, loadTimeline } = playback;
+
+  /** Pause or resume the session together with the drive sounds. */
+  const handleTogglePause = useCallback(() => {
+    if (paused) {
+      audioPausedRef.current = false;
+      resume();
+      syncDriveAudio(time + audioOffset);
+    } else {
+      audioPausedRef.current = true;
+      pause();
+      if (spinTimerRef.current) {
+        clearTimeout(spinTimerRef.current);
+        pendingTimersRef.current.delete(spinTimerRef.current);
+        spinTimerRef.current = null;
+      }
+      bootAudioRef.current?.pause();
+      spinAudioRef.current?.pause();
+    }
+  }, [paused, pause, resume, syncDriveAudio, time, audioOffset]);
+
+  /**
+   * Keeps playing after a jump, so the drive sounds can follow the new position.
+   * Waits for the spin loop to load (a deep link can jump past boot right away).
+   */
+  const resumeAt = useCallback((ms: number, offset = audioOffset) => {
+    const driveMs = ms + offset;
+    audioPausedRef.current = false;
+    resume();
+    syncDriveAudio(driveMs);
+    ensureRemainingAudioLoaded().then(() => {
+      if (!audioPausedRef.current && driveMs >= SPIN_START_DELAY_MS) syncDriveAudio(driveMs);
+    });
+  }, [resume, syncDriveAudio, ensureRemainingAudioLoaded, audioOffset]);
+
+  const handleRestart = useCallback(() => {
+    restart();
+    resumeAt(0);
+  }, [restart, resumeAt]);
+
+  const handleSkip = useCallback((scene: string | null) => {
+    const mark = timeline?.marks.find((candidate) => candidate.scene === scene);
+    if (!mark || !seekToScene(scene)) return;
+    resumeAt(mark.time);
+  }, [timeline, seekToScene, resumeAt]);
+
+  const handleScrub = useCallback((ms: number) => {
+    seek(ms);
+    if (!audioPausedRef.current) syncDriveAudio(ms + audioOffset);
+  }, [seek, syncDriveAudio, audioOffset]);
+
+  /** Switch between the scripted session and a recording; either starts from the beginning. */
+  const handleRecordingChange = useCallback((name: string | null) => {
+    if (name === (player?.name ?? null)) return;
+    setPlayer(name ? { name, fit: player?.fit ?? "scale" } : null);
+    resumeAt(0, name ? SPIN_START_DELAY_MS : 0);
+  }, [player, resumeAt]);
+
+  const handleFitChange = useCallback((fit: CastFit) => {
+    if (!player) return;
+    setPlayer({ ...player, fit });
+  }, [player]);
+
+  /**
+   * Deep links: `?cast=name` powers on in player mode, `?scene=joshua` powers on
+   * and jumps to the scene (not on phones, like the button).
+   */
+  const deepLinkHandledRef = useRef(false);
+  useEffect(() => {
+    // Only on first load: later power cycles start from the beginning
+    if (deepLinkHandledRef.current) return;
+    deepLinkHandledRef.current = true;
+    if (window.innerWidth < 768) return;
+    const cast = readCastParam();
+    if (cast) {
+      setPlayer(cast);
+      handlePowerOn();
+      return;
+    }
+    const scene = readSceneParam();
+    if (scene === undefined) return;
+    pendingSceneRef.current = scene;
+    loadTimeline();
+    handlePowerOn();
+  }, [handlePowerOn, loadTimeline]);
+
+  /** Apply the deep-linked scene as soon as the playback knows where scenes start. */
+  useEffect(() => {
+    if (!timeline || pendingSceneRef.current === undefined) return;
+    const scene = pendingSceneRef.current;
+    pendingSceneRef.current = undefined;
+    handleSkip(scene);
+  }, [timeline, handleSkip]);
+
   /** Close on Escape key. */
   useEffect(() => {
     if (!zoomed) return;
@@ -364,7 +605,7 @@ export default function HeroTerminal() {
             } : {}),
           }}
         >
-          <TerminalScreen powered={powered} />
+          <TerminalScreen powered={powered} playback={playback} cols={screenGeometry.cols} rows={screenGeometry.rows} locale={locale} />
         </div>
 
         {/* CRT afterglow dot: bright phosphor dot that fades after the image collapses */}
@@ -472,6 +713,31 @@ export default function HeroTerminal() {
           style={{ objectFit: "contain", zIndex: 5 }}
         />
 
+        {/* Playback controls: below the monitor while zoomed and fully powered on.
+            The timeline behind skip-to-scene and the scrubber is scanned once they are reached. */}
+        {zoomed && powered && bootPhase === null && shutdownPhase === null && (
+          <div className="absolute top-full left-1/2 z-10 mt-1 -translate-x-1/2" onPointerEnter={loadTimeline} onFocus={loadTimeline}>
+            <TerminalControls
+              paused={paused}
+              speed={playback.speed}
+              time={time}
+              timeline={timeline}
+              activeScene={playback.shell ? undefined : playback.scene}
+              onTogglePause={handleTogglePause}
+              onRestart={handleRestart}
+              onSkip={handleSkip}
+              onSpeedChange={setSpeed}
+              onScrub={handleScrub}
+              recordings={TERMINAL_RECORDINGS}
+              recording={player?.name ?? null}
+              fit={player?.fit ?? "scale"}
+              onRecordingChange={handleRecordingChange}
+              onFitChange={handleFitChange}
+              locale={locale}
+            />
+          </div>
+        )}
+
         {/* Red power button: positioned over the physical button in the logo.
             Disabled on phones (< 768px) to prevent the zoomed view on small screens. */}
         {mounted && !isPhone && (
@@ -490,8 +756,8 @@ export default function HeroTerminal() {
                 ? "0 0 6px 2px rgba(255, 50, 50, 0.8), 0 0 14px 5px rgba(255, 50, 50, 0.4)"
                 : "none",
             }}
-            aria-label={powered ? "Power off terminal" : "Power on terminal"}
-            title={powered ? "Power off" : "Power on"}
+            aria-label={powered ? t.powerOffLabel : t.powerOnLabel}
+            title={powered ? t.powerOff : t.powerOn}
           />
         )}
       </div>
@@ -29,6 +29,7 @@ import {
   IconMenu2,
   IconX,
   IconCopy,
+  IconRss,
   IconBrandSwift,
   IconBrandMastodon,
   IconBrandX,
@@ -70,6 +71,7 @@ const tablerIcons: Record<string, TablerIcon> = {
   line3Horizontal: IconMenu2,
   xmark: IconX,
   copy: IconCopy,
+  rss: IconRss,
   swift: IconBrandSwift,
   mastodon: IconBrandMastodon,
   twitter: IconBrandX,
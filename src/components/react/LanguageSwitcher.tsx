@@ -0,0 +1,40 @@
+import { LOCALES, LOCALE_NAMES, getMessages, localePath, type Locale } from "../../i18n";
+
+interface LanguageSwitcherProps {
+  /** Locale of the current page. */
+  locale: Locale;
+  /** Locale-independent path of the current page (e.g. "/dashboard"). */
+  path: string;
+}
+
+/** Compact language switcher: links to the current page in every locale. */
+export default function LanguageSwitcher({ locale, path }: LanguageSwitcherProps) {
+  return (
+    <div className="flex items-center gap-1 font-mono text-sm" role="group" aria-label={getMessages(locale).nav.language}>
+      {LOCALES.map((option) => {
+        const label = option.toUpperCase();
+
+        if (option === locale) {
+          return (
+            <span key={option} className="rounded px-1.5 py-0.5 text-foreground" aria-current="true" title={LOCALE_NAMES[option]}>
+              {label}
+            </span>
+          );
+        }
+
+        return (
+          <a
+            key={option}
+            href={localePath(option, path)}
+            hrefLang={option}
+            lang={option}
+            title={LOCALE_NAMES[option]}
+            className="rounded px-1.5 py-0.5 text-muted transition-colors hover:bg-accent/10 hover:text-foreground"
+          >
+            {label}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,31 +1,113 @@
+import { useState } from "react";
 import { IconBrandSwift, IconCopy, IconCheck } from "@tabler/icons-react";
 import { useCopyToClipboard } from "../../hooks/useCopyToClipboard";
 import { useTUIkitVersion } from "../../hooks/useTUIkitVersion";
+import { releasePath } from "../../lib/releases";
+import { DEFAULT_LOCALE, getMessages, localePath, type Locale } from "../../i18n";
 
-/** SPM package dependency badge with copy-to-clipboard. */
-export default function PackageBadge() {
+interface PackageBadgeProps {
+  /** Versions with a release page (known at build time); other versions link to the release list. */
+  releaseVersions?: string[];
+  /** Locale of the labels and release links. */
+  locale?: Locale;
+}
+
+/** SPM version requirements the badge offers a snippet for. */
+const REQUIREMENTS = ["from", "exact", "branch"] as const;
+
+type Requirement = (typeof REQUIREMENTS)[number];
+
+/** Branch used for the `branch:` requirement. */
+const BRANCH = "main";
+
+const PACKAGE_URL = "https://github.com/phranck/TUIkit.git";
+
+/**
+ * SPM package dependency badge with copy-to-clipboard. Offers the
+ * dependency line for a `from:`, `exact:` or `branch:` requirement, on the
+ * stable or (while there is a newer one) the pre-release channel. The
+ * version links to its release notes.
+ */
+export default function PackageBadge({ releaseVersions = [], locale = DEFAULT_LOCALE }: PackageBadgeProps) {
   const { copied, copy } = useCopyToClipboard();
-  const { version } = useTUIkitVersion();
+  const { stable, prerelease } = useTUIkitVersion();
+  const [requirement, setRequirement] = useState<Requirement>("from");
+  const [usePrerelease, setUsePrerelease] = useState(false);
+  const messages = getMessages(locale);
+  const t = messages.home.getStarted;
+
+  const version = usePrerelease && prerelease ? prerelease : stable;
+  const value = requirement === "branch" ? BRANCH : version;
+  const PACKAGE_PREFIX = `.package(url: "${PACKAGE_URL}", ${requirement}: "`;
+  const PACKAGE_SUFFIX = `")`;
+  const PACKAGE_LINE = `${PACKAGE_PREFIX}${value}${PACKAGE_SUFFIX}`;
+  const notesHref = localePath(locale, releaseVersions.includes(version) ? releasePath(version) : "/releases");
 
-  const PACKAGE_LINE = `.package(url: "https://github.com/phranck/TUIkit.git", from: "${version}")`;
+  const optionClass = (active: boolean) =>
+    `rounded-md px-3 py-1 font-mono text-sm transition-colors ${
+      active ? "bg-accent text-background" : "text-muted hover:bg-accent/10 hover:text-foreground"
+    }`;
 
   return (
-    <div className="flex w-full items-center justify-between gap-2 rounded-full border border-border bg-container-body/50 px-4 py-2 text-muted backdrop-blur-sm">
-
-      <code className="font-mono text-lg text-glow" style={{ color: "var(--foreground)" }}>
-        {PACKAGE_LINE}
-      </code>
-      <button
-        onClick={() => copy(PACKAGE_LINE)}
-        aria-label="Copy to clipboard"
-        className="ml-1 rounded-md p-1.5 text-muted transition-colors hover:bg-foreground/10 hover:text-foreground focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2 focus-visible:ring-offset-background shrink-0"
-      >
-        {copied ? (
-          <IconCheck size={20} className="text-accent" />
-        ) : (
-          <IconCopy size={20} />
+    <div className="flex w-full flex-col items-center gap-3">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <div className="flex items-center gap-1 rounded-lg border border-border bg-container-body/50 p-1 backdrop-blur-sm" role="group" aria-label={t.requirement}>
+          {REQUIREMENTS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setRequirement(option)}
+              aria-pressed={requirement === option}
+              title={t.requirements[option]}
+              className={optionClass(requirement === option)}
+            >
+              {option}:
+            </button>
+          ))}
+        </div>
+        {prerelease && requirement !== "branch" && (
+          <div className="flex items-center gap-1 rounded-lg border border-border bg-container-body/50 p-1 backdrop-blur-sm" role="group" aria-label={t.channel}>
+            <button type="button" onClick={() => setUsePrerelease(false)} aria-pressed={!usePrerelease} className={optionClass(!usePrerelease)}>
+              {stable}
+            </button>
+            <button
+              type="button"
+              onClick={() => setUsePrerelease(true)}
+              aria-pressed={usePrerelease}
+              title={messages.releases.prerelease}
+              className={optionClass(usePrerelease)}
+            >
+              {prerelease}
+            </button>
+          </div>
         )}
-      </button>
+      </div>
+
+      <div className="flex w-full items-center justify-between gap-2 rounded-full border border-border bg-container-body/50 px-4 py-2 text-muted backdrop-blur-sm">
+
+        <code className="font-mono text-lg text-glow" style={{ color: "var(--foreground)" }}>
+          {PACKAGE_PREFIX}
+          {requirement === "branch" ? (
+            value
+          ) : (
+            <a href={notesHref} title={messages.releases.viewNotes(version)} className="underline decoration-accent/50 underline-offset-4 transition-colors hover:text-accent">
+              {value}
+            </a>
+          )}
+          {PACKAGE_SUFFIX}
+        </code>
+        <button
+          onClick={() => copy(PACKAGE_LINE)}
+          aria-label="Copy to clipboard"
+          className="ml-1 rounded-md p-1.5 text-muted transition-colors hover:bg-foreground/10 hover:text-foreground focus-visible:ring-2 focus-visible:ring-accent focus-visible:ring-offset-2 focus-visible:ring-offset-background shrink-0"
+        >
+          {copied ? (
+            <IconCheck size={20} className="text-accent" />
+          ) : (
+            <IconCopy size={20} />
+          )}
+        </button>
+      </div>
     </div>
   );
 }
@@ -1,46 +1,66 @@
 import { useState } from "react";
 import Icon from "./Icon";
 import ThemeSwitcher from "./ThemeSwitcher";
+import LanguageSwitcher from "./LanguageSwitcher";
 import { ThemeProvider } from "./ThemeProvider";
+import { DEFAULT_LOCALE, getMessages, localePath, type Locale, type Messages } from "../../i18n";
 
 /** Identifies which page is currently active in the navigation. */
-export type ActivePage = "home" | "dashboard";
+export type ActivePage = "home" | "dashboard" | "plans" | "releases";
+
+/** Locale-independent path of each page. */
+const PAGE_PATHS: Record<ActivePage, string> = {
+  home: "/",
+  dashboard: "/dashboard",
+  plans: "/plans",
+  releases: "/releases",
+};
 
 interface SiteNavProps {
   /** Which nav item to highlight as active. */
   activePage?: ActivePage;
+  /** Locale of the current page. */
+  locale?: Locale;
+  /** Locale-independent path of the current page, if it differs from the active page's (e.g. a single plan or release). */
+  path?: string;
 }
 
 /** Navigation link definition. */
 interface NavLink {
+  /** Locale-independent path for internal links, full URL for external ones. */
   href: string;
-  label: string;
+  label: keyof Messages["nav"];
   icon?: Parameters<typeof Icon>[0]["name"];
   external?: boolean;
-  /** If set, this link is rendered as active text (not a link) when matching. */
+  /** If set, this link is rendered as active text (not a link) on that page itself (not on its sub-pages). */
   page?: ActivePage;
 }
 
 const NAV_LINKS: NavLink[] = [
-  { href: "/dashboard", label: "Dashboard", icon: "chart", page: "dashboard" },
-  { href: "https://docs.tuikit.dev", label: "Docs", icon: "book", external: true },
-  { href: "https://github.com/phranck/TUIkit", label: "GitHub", icon: "github", external: true },
+  { href: "/dashboard", label: "dashboard", icon: "chart", page: "dashboard" },
+  { href: "/plans", label: "plans", icon: "document", page: "plans" },
+  { href: "/releases", label: "releases", icon: "tag", page: "releases" },
+  { href: "https://docs.tuikit.dev", label: "docs", icon: "book", external: true },
+  { href: "https://github.com/phranck/TUIkit", label: "github", icon: "github", external: true },
 ];
 
 /**
  * Navigation bar content (requires ThemeProvider wrapper).
  */
-function SiteNavContent({ activePage }: SiteNavProps) {
+function SiteNavContent({ activePage, locale = DEFAULT_LOCALE, path }: SiteNavProps) {
   const [menuOpen, setMenuOpen] = useState(false);
+  const t = getMessages(locale).nav;
+  const hrefOf = (link: NavLink) => (link.external ? link.href : localePath(locale, link.href));
+  const currentPath = path ?? PAGE_PATHS[activePage ?? "home"];
 
   return (
-    <nav aria-label="Main navigation" className="fixed top-0 z-50 w-full border-b border-border/50 bg-background/80 backdrop-blur-xl">
+    <nav aria-label={t.label} className="fixed top-0 z-50 w-full border-b border-border/50 bg-background/80 backdrop-blur-xl">
       <div className="mx-auto flex max-w-6xl items-center justify-between px-4 py-3 sm:px-6 sm:py-4">
         {/* Logo + brand */}
         <div className="flex items-center gap-2 sm:gap-3">
           <img
             src="/tuikit-logo.png"
-            alt="TUIkit Logo"
+            alt={t.logoAlt}
             width={28}
             height={28}
             className="rounded-lg sm:h-8 sm:w-8"
@@ -48,7 +68,7 @@ function SiteNavContent({ activePage }: SiteNavProps) {
           {activePage === "home" ? (
             <span className="text-xl font-semibold text-foreground sm:text-2xl">TUIkit</span>
           ) : (
-            <a href="/" className="text-xl font-semibold text-foreground transition-colors hover:text-accent sm:text-2xl">
+            <a href={localePath(locale, "/")} className="text-xl font-semibold text-foreground transition-colors hover:text-accent sm:text-2xl">
               TUIkit
             </a>
           )}
@@ -57,7 +77,7 @@ function SiteNavContent({ activePage }: SiteNavProps) {
         {/* Desktop nav links */}
         <div className="hidden items-center gap-4 sm:flex sm:gap-6">
           {NAV_LINKS.map((link) => {
-            const isActive = link.page === activePage;
+            const isActive = link.page === activePage && link.href === currentPath;
 
             if (isActive) {
 return (
@@ -67,7 +87,7 @@ return (
                   aria-current="page"
                 >
                   {link.icon && <Icon name={link.icon} size={20} className="text-current" />}
-                  {link.label}
+                  {t[link.label]}
                 </span>
               );
             }
@@ -75,16 +95,17 @@ return (
             return (
               <a
                 key={link.href}
-                href={link.href}
+                href={hrefOf(link)}
                 {...(link.external ? { target: "_blank", rel: "noopener noreferrer" } : {})}
                 className="flex items-center gap-1.5 text-base text-muted transition-colors hover:text-foreground sm:text-lg"
               >
                 {link.icon && <Icon name={link.icon} size={20} className="text-current" />}
-                {link.label}
+                {t[link.label]}
               </a>
             );
           })}
-          <div className="ml-2 border-l border-border pl-4">
+          <div className="ml-2 flex items-center gap-4 border-l border-border pl-4">
+            <LanguageSwitcher locale={locale} path={currentPath} />
             <ThemeSwitcher />
           </div>
         </div>
@@ -96,7 +117,7 @@ return (
             type="button"
             onClick={() => setMenuOpen(!menuOpen)}
             className="flex h-9 w-9 items-center justify-center rounded-lg text-muted transition-colors hover:bg-accent/10 hover:text-foreground"
-            aria-label={menuOpen ? "Close menu" : "Open menu"}
+            aria-label={menuOpen ? t.closeMenu : t.openMenu}
             aria-expanded={menuOpen}
           >
             <Icon name={menuOpen ? "xmark" : "line3Horizontal"} size={20} />
@@ -109,7 +130,7 @@ return (
         <div className="border-t border-border/50 bg-background/95 px-4 py-4 backdrop-blur-xl sm:hidden">
           <div className="flex flex-col gap-3">
             {NAV_LINKS.map((link) => {
-              const isActive = link.page === activePage;
+              const isActive = link.page === activePage && link.href === currentPath;
 
               if (isActive) {
                 return (
@@ -119,7 +140,7 @@ return (
                     aria-current="page"
                   >
                     {link.icon && <Icon name={link.icon} size={20} className="text-accent" />}
-                    {link.label}
+                    {t[link.label]}
                   </span>
                 );
               }
@@ -127,16 +148,19 @@ return (
               return (
                 <a
                   key={link.href}
-                  href={link.href}
+                  href={hrefOf(link)}
                   {...(link.external ? { target: "_blank", rel: "noopener noreferrer" } : {})}
                   onClick={() => setMenuOpen(false)}
                   className="flex items-center gap-2 rounded-lg px-3 py-2 text-base text-muted transition-colors hover:bg-accent/5 hover:text-foreground"
                 >
                   {link.icon && <Icon name={link.icon} size={20} className="text-current" />}
-                  {link.label}
+                  {t[link.label]}
                 </a>
               );
             })}
+            <div className="border-t border-border/50 px-3 pt-3">
+              <LanguageSwitcher locale={locale} path={currentPath} />
+            </div>
           </div>
         </div>
       )}
@@ -148,15 +172,16 @@ return (
  * Shared site navigation bar used by all pages.
  *
  * Renders the TUIkit logo as a home link, navigation items with optional
- * active state, and the theme switcher. Fixed at the top with backdrop blur.
+ * active state, the language switcher and the theme switcher. Fixed at the
+ * top with backdrop blur.
  * On mobile, shows a hamburger menu that expands to show links.
  *
  * Wraps content in ThemeProvider for theme switching.
  */
-export default function SiteNav({ activePage }: SiteNavProps) {
+export default function SiteNav({ activePage, locale, path }: SiteNavProps) {
   return (
     <ThemeProvider>
-      <SiteNavContent activePage={activePage} />
+      <SiteNavContent activePage={activePage} locale={locale} path={path} />
     </ThemeProvider>
   );
 }
@@ -1,7 +1,8 @@
 import Icon from "./Icon";
 import { useCopyToClipboard } from "../../hooks/useCopyToClipboard";
 
-const INSTALL_COMMAND = 'curl -fsSL https://raw.githubusercontent.com/phranck/TUIkit/main/project-template/install.sh | bash';
+/** One-line installer command, also offered by the interactive CRT shell. */
+export const INSTALL_COMMAND = 'curl -fsSL https://raw.githubusercontent.com/phranck/TUIkit/main/project-template/install.sh | bash';
 
 /** CLI installer badge with copy-to-clipboard. */
 export default function TemplateBadge() {
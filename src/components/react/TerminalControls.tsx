@@ -0,0 +1,183 @@
+import type { PlaybackTimeline } from "../../lib/terminal-engine";
+import type { CastFit, CastInfo } from "../../lib/terminal-cast";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "../../i18n";
+
+/** Speed multipliers the speed button cycles through. */
+const SPEEDS = [1, 2, 4] as const;
+
+/** Label of the UNIX command loop on the scene buttons and in `?scene=` links. */
+export const UNIX_SCENE_LABEL = "unix";
+
+interface TerminalControlsProps {
+  paused: boolean;
+  speed: number;
+  /** Current playback time (ms). */
+  time: number;
+  /** Scene starts and duration; controls that need it are disabled while null. */
+  timeline: PlaybackTimeline | null;
+  /** Scene currently playing (null: UNIX loop), or undefined once the shell has taken over. */
+  activeScene: string | null | undefined;
+  onTogglePause: () => void;
+  onRestart: () => void;
+  /** Jump to the start of a scene (null: the UNIX loop). */
+  onSkip: (scene: string | null) => void;
+  onSpeedChange: (speed: number) => void;
+  /** Jump to an arbitrary time (ms) via the scrubber. */
+  onScrub: (time: number) => void;
+  /** Recordings available for player mode (the row is hidden when empty). */
+  recordings: CastInfo[];
+  /** Recording being played, or null for the scripted session. */
+  recording: string | null;
+  /** How a recording larger than the CRT is fitted. */
+  fit: CastFit;
+  /** Switch to a recording (null: back to the scripted session). */
+  onRecordingChange: (name: string | null) => void;
+  onFitChange: (fit: CastFit) => void;
+  /** Locale for the labels and tooltips. */
+  locale?: Locale;
+}
+
+/** Shared look of the strip's buttons: small, uppercase, phosphor-colored. */
+const BUTTON_CLASS =
+  "cursor-pointer rounded-sm border border-border px-1 py-px uppercase transition-colors hover:bg-foreground/15 focus-visible:outline-1 focus-visible:outline-foreground disabled:cursor-default disabled:opacity-40";
+
+/**
+ * Retro control strip under the zoomed HeroTerminal: play/pause, restart,
+ * skip-to-scene, speed, and a timeline scrubber with scene markers. When
+ * recordings exist, a second row switches between the scripted session and
+ * player mode.
+ *
+ * Purely presentational: HeroTerminal owns the playback and the audio.
+ */
+export default function TerminalControls({
+  paused,
+  speed,
+  time,
+  timeline,
+  activeScene,
+  onTogglePause,
+  onRestart,
+  onSkip,
+  onSpeedChange,
+  onScrub,
+  recordings,
+  recording,
+  fit,
+  onRecordingChange,
+  onFitChange,
+  locale = DEFAULT_LOCALE,
+}: TerminalControlsProps) {
+  const t = getMessages(locale).home.terminal;
+  const duration = timeline?.duration ?? 0;
+  const nextSpeed = SPEEDS[(SPEEDS.indexOf(speed as (typeof SPEEDS)[number]) + 1) % SPEEDS.length];
+
+  return (
+    <div
+      className="flex w-[300px] flex-col gap-1 rounded-md border border-border bg-black/80 px-2 py-1.5 text-[7px] leading-none text-foreground text-glow"
+      style={{ fontFamily: "WarText, monospace" }}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={onTogglePause}
+          className={BUTTON_CLASS}
+          aria-label={paused ? t.play : t.pause}
+          title={paused ? t.play : t.pause}
+        >
+          {paused ? `▶ ${t.play}` : `❚❚ ${t.pause}`}
+        </button>
+        <button type="button" onClick={onRestart} className={BUTTON_CLASS} title={t.restartTitle}>
+          ↺ {t.restart}
+        </button>
+
+        <span className="ml-auto flex items-center gap-1">
+          {timeline?.marks.map((mark) => {
+            const label = mark.scene ?? UNIX_SCENE_LABEL;
+            const isActive = activeScene === mark.scene;
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => onSkip(mark.scene)}
+                className={`${BUTTON_CLASS} ${isActive ? "bg-foreground/25" : ""}`}
+                aria-pressed={isActive}
+                title={t.skipTo(label)}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </span>
+
+        <button
+          type="button"
+          onClick={() => onSpeedChange(nextSpeed)}
+          className={`${BUTTON_CLASS} w-6 text-center`}
+          aria-label={t.speedLabel(speed, nextSpeed)}
+          title={t.speed}
+        >
+          {speed}×
+        </button>
+      </div>
+
+      <div className="relative flex h-2 items-center">
+        {timeline?.marks.map((mark) => (
+          <span
+            key={mark.scene ?? UNIX_SCENE_LABEL}
+            className="pointer-events-none absolute top-0 h-2 w-px bg-foreground/60"
+            style={{ left: `${duration > 0 ? (mark.time / duration) * 100 : 0}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={Math.round(duration)}
+          step={100}
+          value={Math.min(Math.round(time), Math.round(duration))}
+          disabled={!timeline}
+          onChange={(event) => onScrub(Number(event.target.value))}
+          aria-label={t.position}
+          className="relative h-1 w-full cursor-pointer disabled:cursor-default"
+          style={{ accentColor: "var(--foreground)" }}
+        />
+      </div>
+
+      {recordings.length > 0 && (
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => onRecordingChange(null)}
+            className={`${BUTTON_CLASS} ${recording === null ? "bg-foreground/25" : ""}`}
+            aria-pressed={recording === null}
+            title={t.scriptTitle}
+          >
+            {t.script}
+          </button>
+          {recordings.map((info) => (
+            <button
+              key={info.name}
+              type="button"
+              onClick={() => onRecordingChange(info.name)}
+              className={`${BUTTON_CLASS} ${recording === info.name ? "bg-foreground/25" : ""}`}
+              aria-pressed={recording === info.name}
+              title={t.playRecording(info.title, info.width, info.height)}
+            >
+              ● {info.name}
+            </button>
+          ))}
+          {recording !== null && (
+            <button
+              type="button"
+              onClick={() => onFitChange(fit === "scale" ? "crop" : "scale")}
+              className={`${BUTTON_CLASS} ml-auto`}
+              aria-label={t.fitLabel(t.fits[fit], t.fits[fit === "scale" ? "crop" : "scale"])}
+              title={t.fitTitle}
+            >
+              {t.fit(t.fits[fit])}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,17 +5,17 @@ import type { WeeklyActivity } from "../../../hooks/useGitHubStats";
 import { useHoverPopover } from "../../../hooks/useHoverPopover";
 import HoverPopover from "./HoverPopover";
 import Icon from "../Icon";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
 
 interface ActivityHeatmapProps {
   /** 52 weeks of commit activity data. */
   weeks: WeeklyActivity[];
   /** Whether data is still loading. */
   loading?: boolean;
+  /** Locale for the labels and dates. */
+  locale?: Locale;
 }
 
-const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-
 /** Pixel gap between cells. */
 const CELL_GAP = 3;
 /** Width of the day-label column including right padding. */
@@ -30,20 +30,31 @@ const SCROLL_MODE_THRESHOLD = 600;
 const WEEKS_PER_YEAR = 52;
 /** Seconds in one week. */
 const SECONDS_PER_WEEK = 7 * 86400;
+/** A Sunday (UTC), the first row of the grid: the reference for the weekday labels. */
+const REFERENCE_SUNDAY = Date.UTC(2024, 0, 7);
+
+/**
+ * Short weekday names from Sunday to Saturday ("Sun"…"Sat", "So."…"Sa.").
+ */
+function weekdayLabels(locale: Locale): string[] {
+  const format = new Intl.DateTimeFormat(intlLocale(locale), { weekday: "short", timeZone: "UTC" });
+  return Array.from({ length: 7 }, (_, idx) => format.format(REFERENCE_SUNDAY + idx * 86400 * 1000));
+}
 
 /**
  * Formats a Unix timestamp (seconds) + day offset into a readable date.
  */
-function formatDate(weekTimestamp: number, dayIndex: number): string {
+function formatDate(weekTimestamp: number, dayIndex: number, locale: Locale): string {
   const date = new Date((weekTimestamp + dayIndex * 86400) * 1000);
-  return date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+  return date.toLocaleDateString(intlLocale(locale), { weekday: "short", month: "short", day: "numeric", year: "numeric" });
 }
 
 /**
  * Builds month labels with pixel offsets relative to the cell grid.
  */
-function buildMonthLabels(weeks: WeeklyActivity[], cellSize: number): { label: string; offset: number }[] {
+function buildMonthLabels(weeks: WeeklyActivity[], cellSize: number, locale: Locale): { label: string; offset: number }[] {
   const labels: { label: string; offset: number }[] = [];
+  const monthFormat = new Intl.DateTimeFormat(intlLocale(locale), { month: "short" });
   let lastMonth = -1;
 
   for (let idx = 0; idx < weeks.length; idx++) {
@@ -51,7 +62,7 @@ function buildMonthLabels(weeks: WeeklyActivity[], cellSize: number): { label: s
     const month = date.getMonth();
     if (month !== lastMonth) {
       labels.push({
-        label: MONTH_NAMES[month],
+        label: monthFormat.format(date),
         offset: idx * (cellSize + CELL_GAP),
       });
       lastMonth = month;
@@ -68,7 +79,7 @@ interface HeatmapHover {
 }
 
 /** Maps intensity level (0–4) to a Tailwind opacity class. */
-const OPACITY_MAP: Record<number, string> = {
+export const OPACITY_MAP: Record<number, string> = {
   0: "opacity-[0.06]",
   1: "opacity-[0.25]",
   2: "opacity-[0.45]",
@@ -77,7 +88,7 @@ const OPACITY_MAP: Record<number, string> = {
 };
 
 /** Returns an intensity level (0–4) for a commit count relative to the maximum. */
-function intensityLevel(count: number, maxCommits: number): number {
+export function intensityLevel(count: number, maxCommits: number): number {
   if (count === 0) return 0;
   const ratio = count / maxCommits;
   if (ratio <= 0.25) return 1;
@@ -122,7 +133,8 @@ function computeCellSize(containerWidth: number, colCount: number): number {
  * Layout: day labels on the left, a column-flow grid of square cells on the right.
  * Month labels are positioned above the grid using pixel offsets.
  */
-export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeatmapProps) {
+export default function ActivityHeatmap({ weeks, loading = false, locale = DEFAULT_LOCALE }: ActivityHeatmapProps) {
+  const t = getMessages(locale).dashboard.activity;
   const containerRef = useRef<HTMLDivElement>(null);
   const [cellSize, setCellSize] = useState(0);
   const [scrollMode, setScrollMode] = useState(false);
@@ -169,7 +181,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
       <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
         <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
           <Icon name="calendar" size={24} className="text-accent" />
-          Commit Activity
+          {t.title}
         </h3>
         <div className="h-32 w-full rounded-md bg-accent/10 animate-skeleton" />
       </div>
@@ -178,7 +190,8 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
 
 
   const maxCommits = Math.max(1, ...fullYear.flatMap((week) => week.days));
-  const monthLabels = buildMonthLabels(fullYear, cellSize);
+  const monthLabels = buildMonthLabels(fullYear, cellSize, locale);
+  const dayLabels = weekdayLabels(locale);
 
   function handleMouseEnter(event: React.MouseEvent<HTMLDivElement>, weekTimestamp: number, dayIdx: number, count: number) {
     const cell = event.currentTarget;
@@ -189,7 +202,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
     const cellRect = cell.getBoundingClientRect();
 
     showPopover(
-      { date: formatDate(weekTimestamp, dayIdx), count },
+      { date: formatDate(weekTimestamp, dayIdx, locale), count },
       cellRect.left - wrapperRect.left + cellRect.width / 2,
       cellRect.top - wrapperRect.top,
     );
@@ -201,7 +214,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
     <div ref={containerRef} className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
       <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
         <Icon name="calendar" size={24} className="text-accent" />
-        Commit Activity
+        {t.title}
       </h3>
 
       {cellSize > 0 && (
@@ -233,7 +246,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
                   justifyContent: "space-around",
                 }}
               >
-                {DAY_LABELS.map((day) => (
+                {dayLabels.map((day) => (
                   <span
                     key={day}
                     className="text-right text-xs leading-none text-muted"
@@ -284,7 +297,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
           >
             <p className="whitespace-nowrap text-center text-sm font-medium text-foreground">{popover?.data.date}</p>
             <p className="whitespace-nowrap text-center text-sm text-muted">
-              <span className="font-bold text-accent">{popover?.data.count ?? 0}</span> commit{popover?.data.count !== 1 ? "s" : ""}
+              <span className="font-bold text-accent">{popover?.data.count ?? 0}</span> {t.commits(popover?.data.count ?? 0)}
             </p>
           </HoverPopover>
         </div>
@@ -292,7 +305,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
 
       {/* Legend */}
       <div className="mt-6 flex items-center justify-center gap-1.5 text-xs text-muted">
-        <span>Less</span>
+        <span>{t.less}</span>
         {[0, 1, 2, 3, 4].map((level) => (
           <div
             key={level}
@@ -300,7 +313,7 @@ export default function ActivityHeatmap({ weeks, loading = false }: ActivityHeat
             style={{ width: 11, height: 11 }}
           />
         ))}
-        <span>More</span>
+        <span>{t.more}</span>
       </div>
     </div>
   );
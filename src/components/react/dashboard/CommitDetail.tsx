@@ -0,0 +1,226 @@
+import { useState } from "react";
+import Icon from "../Icon";
+import { tokenizeLine } from "../CodePreview";
+import { useCommitDetail } from "../../../hooks/useCommitDetail";
+import { isSwiftFile, parsePatch, type CommitFile, type CommitPullRequest, type FileStatus } from "../../../lib/commit-detail";
+import type { GitHubFailure } from "../../../lib/github-client";
+import type { Messages } from "../../../i18n";
+
+/** Diff lines shown per file before the rest is left to GitHub. */
+const MAX_DIFF_LINES = 150;
+
+/** Squares of the per-file diffstat bar (as on GitHub). */
+const DIFFSTAT_SQUARES = 5;
+
+/** Letter and color of each file status. */
+const STATUS_STYLES: Record<FileStatus, { letter: string; color: string }> = {
+  added: { letter: "A", color: "text-emerald-400" },
+  removed: { letter: "D", color: "text-red-400" },
+  modified: { letter: "M", color: "text-amber-400" },
+  renamed: { letter: "R", color: "text-sky-400" },
+  copied: { letter: "C", color: "text-sky-400" },
+  changed: { letter: "M", color: "text-amber-400" },
+  unchanged: { letter: "U", color: "text-muted" },
+};
+
+/** Badge colors of the pull request states. */
+const PULL_STATE_COLORS: Record<CommitPullRequest["state"], string> = {
+  open: "bg-emerald-500/15 text-emerald-400",
+  merged: "bg-violet-500/15 text-violet-400",
+  closed: "bg-red-500/15 text-red-400",
+};
+
+type DetailMessages = Messages["dashboard"]["commitList"]["detail"];
+
+/** GitHub-style bar of green and red squares for a file's additions and deletions. */
+function DiffStat({ additions, deletions }: { additions: number; deletions: number }) {
+  const total = additions + deletions;
+  const green = total === 0 ? 0 : Math.round((additions / total) * DIFFSTAT_SQUARES);
+  const red = total === 0 ? 0 : DIFFSTAT_SQUARES - green;
+
+  return (
+    <span className="flex gap-0.5" aria-hidden="true">
+      {Array.from({ length: DIFFSTAT_SQUARES }).map((_, idx) => (
+        <span
+          key={idx}
+          className={`h-2 w-2 rounded-sm ${idx < green ? "bg-emerald-500" : idx < green + red ? "bg-red-500" : "bg-foreground/15"}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+/** A file's patch as a diff with line numbers; Swift files are syntax highlighted. */
+function MiniDiff({ file, commitUrl, t }: { file: CommitFile; commitUrl: string; t: DetailMessages }) {
+  if (file.patch === null) {
+    return <p className="px-3 py-2 text-sm text-muted">{t.noPatch}</p>;
+  }
+
+  const lines = parsePatch(file.patch);
+  const shown = lines.slice(0, MAX_DIFF_LINES);
+  const highlight = isSwiftFile(file.filename);
+
+  return (
+    <div className="overflow-x-auto border-t border-border/30 bg-background/40">
+      <pre className="min-w-max py-1 font-mono text-xs leading-relaxed">
+        {shown.map((line, idx) =>
+          line.kind === "hunk" ? (
+            <div key={idx} className="bg-sky-500/5 px-3 text-sky-400/70">
+              {line.text}
+            </div>
+          ) : (
+            <div
+              key={idx}
+              className={`flex ${line.kind === "add" ? "bg-emerald-500/10" : line.kind === "delete" ? "bg-red-500/10" : ""}`}
+            >
+              <span className="w-10 shrink-0 select-none pr-2 text-right text-muted/40">{line.oldLine ?? ""}</span>
+              <span className="w-10 shrink-0 select-none pr-2 text-right text-muted/40">{line.newLine ?? ""}</span>
+              <span
+                className={`w-4 shrink-0 select-none ${line.kind === "add" ? "text-emerald-400" : line.kind === "delete" ? "text-red-400" : "text-muted/40"}`}
+              >
+                {line.kind === "add" ? "+" : line.kind === "delete" ? "-" : " "}
+              </span>
+              <span className="pr-3 text-foreground/85">{highlight ? tokenizeLine(line.text) : line.text}</span>
+            </div>
+          ),
+        )}
+      </pre>
+      {lines.length > shown.length && (
+        <p className="border-t border-border/30 px-3 py-2 text-xs text-muted">
+          {t.truncated(shown.length, lines.length)}{" "}
+          <a href={commitUrl} target="_blank" rel="noopener noreferrer" className="text-accent/80 hover:text-accent hover:underline">
+            {t.viewOnGitHub}
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface CommitDetailProps {
+  sha: string;
+  /** The commit on github.com. */
+  commitUrl: string;
+  t: DetailMessages;
+  /** Explains a failed request (rate limit, offline, HTTP error). */
+  describeFailure: (failure: GitHubFailure) => string;
+}
+
+/**
+ * Drill-down of a commit: the pull requests it belongs to and the changed
+ * files with their additions/deletions, each with a collapsible mini diff.
+ * Loaded from the GitHub API only when opened.
+ */
+export default function CommitDetail({ sha, commitUrl, t, describeFailure }: CommitDetailProps) {
+  const [open, setOpen] = useState(false);
+  const [openFiles, setOpenFiles] = useState<Set<string>>(new Set());
+  const { detail, loading, error } = useCommitDetail(sha, open);
+
+  function toggleFile(filename: string) {
+    setOpenFiles((prev) => {
+      const next = new Set(prev);
+      if (next.has(filename)) {
+        next.delete(filename);
+      } else {
+        next.add(filename);
+      }
+      return next;
+    });
+  }
+
+  return (
+    <div className="mt-2 ml-6 sm:ml-7">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-sm text-muted transition-colors hover:bg-accent/5 hover:text-foreground"
+      >
+        <Icon name="document" size={16} />
+        {open ? t.hideChanges : t.showChanges}
+      </button>
+
+      {open && (
+        <div className="mt-2 flex flex-col gap-3">
+          {loading && <div className="h-16 rounded-lg bg-accent/10 animate-skeleton" aria-label={t.loading} />}
+
+          {error && (
+            <p role="status" className="rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-400">
+              {describeFailure(error)}
+            </p>
+          )}
+
+          {detail && (
+            <>
+              {/* Totals and pull requests */}
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-2 text-sm text-muted">
+                <span>{t.filesChanged(detail.files.length)}</span>
+                <span className="font-mono">
+                  <span className="text-emerald-400" title={t.additions(detail.additions)}>+{detail.additions}</span>{" "}
+                  <span className="text-red-400" title={t.deletions(detail.deletions)}>−{detail.deletions}</span>
+                </span>
+                {detail.pullRequestsFailure && (
+                  <span className="text-amber-400">
+                    {detail.pullRequestsFailure.reason === "rate-limited" ? t.pullsRateLimited : t.pullsFailed}
+                  </span>
+                )}
+                {detail.pullRequests.map((pull) => (
+                  <a
+                    key={pull.number}
+                    href={pull.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={pull.title}
+                    className="flex min-w-0 items-center gap-1.5 rounded-full border border-border px-2.5 py-0.5 transition-colors hover:border-accent/40 hover:text-foreground"
+                  >
+                    <span className={`rounded px-1.5 text-xs font-semibold ${PULL_STATE_COLORS[pull.state]}`}>{t.pullStates[pull.state]}</span>
+                    <span className="font-mono">#{pull.number}</span>
+                    <span className="max-w-64 truncate">{pull.title}</span>
+                  </a>
+                ))}
+              </div>
+
+              {/* Changed files */}
+              <ul className="overflow-hidden rounded-lg border border-border/40">
+                {detail.files.map((file) => {
+                  const fileOpen = openFiles.has(file.filename);
+                  const status = STATUS_STYLES[file.status];
+                  return (
+                    <li key={file.filename} className="border-b border-border/30 last:border-b-0">
+                      <button
+                        type="button"
+                        onClick={() => toggleFile(file.filename)}
+                        aria-expanded={fileOpen}
+                        aria-label={fileOpen ? t.hideDiff(file.filename) : t.showDiff(file.filename)}
+                        className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm transition-colors hover:bg-accent/5"
+                      >
+                        <span className={`transition-transform duration-200 ${fileOpen ? "rotate-90" : ""}`}>
+                          <Icon name="chevronRight" size={16} className="text-muted" />
+                        </span>
+                        <span className={`w-3 shrink-0 font-mono text-xs font-bold ${status.color}`} title={t.statuses[file.status]}>
+                          {status.letter}
+                        </span>
+                        <span className="min-w-0 flex-1 truncate font-mono text-foreground/90">
+                          {file.previousFilename && <span className="text-muted/70">{file.previousFilename} → </span>}
+                          {file.filename}
+                        </span>
+                        <span className="shrink-0 font-mono text-xs">
+                          <span className="text-emerald-400">+{file.additions}</span>{" "}
+                          <span className="text-red-400">−{file.deletions}</span>
+                        </span>
+                        <span className="hidden shrink-0 sm:block">
+                          <DiffStat additions={file.additions} deletions={file.deletions} />
+                        </span>
+                      </button>
+                      {fileOpen && <MiniDiff file={file} commitUrl={commitUrl} t={t} />}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
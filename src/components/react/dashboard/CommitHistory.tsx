@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import Icon from "../Icon";
+import CommitRow from "./CommitRow";
+import { useCommitHistory } from "../../../hooks/useCommitHistory";
+import { EMPTY_HISTORY_QUERY, searchCommits, type CommitHistoryQuery } from "../../../lib/commit-history";
+import { parseCommit } from "../../../lib/conventional-commits";
+import type { GitHubFailure } from "../../../lib/github-client";
+import type { Locale, Messages } from "../../../i18n";
+
+/** Number of placeholder rows while the first page loads. */
+const SKELETON_ROWS = 8;
+
+interface CommitHistoryProps {
+  locale: Locale;
+  t: Messages["dashboard"]["commitList"];
+  /** Explains a failed request (rate limit, offline, HTTP error). */
+  describeFailure: (failure: GitHubFailure) => string;
+}
+
+/**
+ * The full commit history, newest first, in a scrollable list that loads
+ * older pages when scrolled to its end.
+ *
+ * Author and date range filter on GitHub's side (each combination pages
+ * through its own result); the search filters the loaded commits as you
+ * type. While searching, older pages load only on request, so a search
+ * with few matches does not page through the whole history.
+ */
+export default function CommitHistory({ locale, t, describeFailure }: CommitHistoryProps) {
+  const h = t.history;
+  const [query, setQuery] = useState<CommitHistoryQuery>(EMPTY_HISTORY_QUERY);
+  const [authorDraft, setAuthorDraft] = useState("");
+  const [search, setSearch] = useState("");
+  const [expandedSha, setExpandedSha] = useState<Set<string>>(new Set());
+  const { commits, loading, loadingMore, hasMore, error, loadMore } = useCommitHistory(query);
+
+  const parsed = useMemo(() => commits.map(parseCommit), [commits]);
+  const shown = searchCommits(parsed, search);
+  const searching = search.trim() !== "";
+  const filtered = query.author !== "" || query.since !== "" || query.until !== "";
+  // Logins seen so far, as suggestions for the author filter
+  const logins = useMemo(
+    () => [...new Set(commits.flatMap((commit) => (commit.login ? [commit.login] : [])))].sort((a, b) => a.localeCompare(b)),
+    [commits],
+  );
+
+  // -------------------------------------------------------------------------
+  // Infinite scroll: load the next page when the end of the list is visible
+  // -------------------------------------------------------------------------
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const autoLoad = hasMore && !searching && !error && !loading;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!autoLoad || !sentinel) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { root: scrollRef.current, rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [autoLoad, loadMore]);
+
+  function toggleExpanded(sha: string) {
+    setExpandedSha((prev) => {
+      const next = new Set(prev);
+      if (next.has(sha)) {
+        next.delete(sha);
+      } else {
+        next.add(sha);
+      }
+      return next;
+    });
+  }
+
+  function applyAuthor() {
+    const author = authorDraft.trim();
+    if (author !== query.author) setQuery((prev) => ({ ...prev, author }));
+  }
+
+  function clearFilters() {
+    setAuthorDraft("");
+    setSearch("");
+    setQuery(EMPTY_HISTORY_QUERY);
+  }
+
+  const inputClass = "rounded-lg border border-border bg-frosted-glass px-3 py-1.5 text-sm text-foreground backdrop-blur-xl";
+
+  return (
+    <div className="flex flex-col gap-4">
+      {/* Filters */}
+      <form
+        className="flex flex-wrap items-end gap-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          applyAuthor();
+        }}
+      >
+        <label className="flex min-w-48 flex-1 flex-col gap-1 text-xs text-muted">
+          {h.search}
+          <input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder={h.searchPlaceholder}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted">
+          {h.author}
+          <input
+            type="text"
+            value={authorDraft}
+            onChange={(event) => setAuthorDraft(event.target.value)}
+            onBlur={applyAuthor}
+            placeholder={h.authorPlaceholder}
+            list="commit-history-authors"
+            className={`${inputClass} w-40`}
+          />
+          <datalist id="commit-history-authors">
+            {logins.map((login) => (
+              <option key={login} value={login} />
+            ))}
+          </datalist>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted">
+          {h.since}
+          <input
+            type="date"
+            value={query.since}
+            max={query.until || undefined}
+            onChange={(event) => setQuery((prev) => ({ ...prev, since: event.target.value }))}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-muted">
+          {h.until}
+          <input
+            type="date"
+            value={query.until}
+            min={query.since || undefined}
+            onChange={(event) => setQuery((prev) => ({ ...prev, until: event.target.value }))}
+            className={inputClass}
+          />
+        </label>
+        {(filtered || searching) && (
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="flex items-center gap-1 rounded-lg px-2 py-1.5 text-sm text-muted transition-colors hover:bg-accent/5 hover:text-foreground"
+          >
+            <Icon name="xmark" size={16} />
+            {h.clearFilters}
+          </button>
+        )}
+      </form>
+
+      {!loading && commits.length > 0 && (
+        <p className="text-sm text-muted" aria-live="polite">
+          {searching ? h.matches(shown.length, commits.length) : h.loaded(commits.length, !hasMore)}
+        </p>
+      )}
+
+      {error && (
+        <div
+          role="status"
+          className={`flex items-center justify-between gap-3 rounded-lg border px-3 py-2 text-sm ${
+            error.reason === "http-error"
+              ? "border-red-500/30 bg-red-500/10 text-red-400"
+              : "border-amber-500/30 bg-amber-500/10 text-amber-400"
+          }`}
+        >
+          <span>{describeFailure(error)}</span>
+          {hasMore && (
+            <button type="button" onClick={loadMore} className="shrink-0 underline underline-offset-4 hover:text-foreground">
+              {h.retry}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Commits */}
+      <div ref={scrollRef} className="max-h-[36rem] overflow-y-auto pr-1">
+        {loading ? (
+          <div className="flex flex-col gap-3" aria-label={h.loading}>
+            {Array.from({ length: SKELETON_ROWS }).map((_, idx) => (
+              <div key={idx} className="flex items-center gap-3">
+                <div className="h-5 flex-1 rounded-md bg-accent/10 animate-skeleton" />
+                <div className="h-8 w-20 shrink-0 rounded-md bg-accent/10 animate-skeleton" />
+              </div>
+            ))}
+          </div>
+        ) : shown.length === 0 ? (
+          !error && <p className="text-lg text-muted">{commits.length === 0 ? h.empty : h.noMatch}</p>
+        ) : (
+          <ul className="flex flex-col divide-y divide-border/30">
+            {shown.map((commit) => (
+              <CommitRow
+                key={commit.sha}
+                commit={commit}
+                isExpanded={expandedSha.has(commit.sha)}
+                onToggle={() => toggleExpanded(commit.sha)}
+                showType
+                locale={locale}
+                t={t}
+                describeFailure={describeFailure}
+              />
+            ))}
+          </ul>
+        )}
+
+        {!loading && (
+          <div ref={sentinelRef} className="mt-3 flex justify-center text-sm text-muted">
+            {loadingMore ? (
+              <span className="animate-pulse">{h.loading}</span>
+            ) : hasMore && searching && !error ? (
+              <button
+                type="button"
+                onClick={loadMore}
+                className="rounded-lg px-3 py-1.5 transition-colors hover:bg-accent/5 hover:text-foreground"
+              >
+                {h.searchFurther}
+              </button>
+            ) : !hasMore && commits.length > 0 ? (
+              <span>{h.end}</span>
+            ) : null}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,154 +1,93 @@
 
 
-import { useEffect, useRef, useState } from "react";
+import { useMemo, useState } from "react";
 import type { CommitEntry } from "../../../hooks/useGitHubStats";
 import Icon from "../Icon";
+import CommitTypeBadge from "./CommitTypeBadge";
+import CommitRow, { AnimatedCollapse, formatDateParts } from "./CommitRow";
+import CommitHistory from "./CommitHistory";
+import { commitsSince, groupCommitsByType, parseCommit, type CommitType } from "../../../lib/conventional-commits";
+import type { GitHubFailure } from "../../../lib/github-client";
+import { DEFAULT_LOCALE, getMessages, type Locale, type Messages } from "../../../i18n";
 
-/** Number of commits shown before the "show more" toggle. */
-const INITIAL_COUNT = 8;
+/** Days covered by the summary. */
+const SUMMARY_DAYS = 7;
+
+/** Number of commits shown per category before its "show more" toggle. */
+const INITIAL_PER_GROUP = 5;
+
+/** Number of placeholder rows while loading. */
+const SKELETON_ROWS = 8;
+
+/** Views of the card: the weekly summary or the full history. */
+type CommitView = "summary" | "history";
 
 interface CommitListProps {
-  /** List of recent commits to display. */
+  /** Recent commits, newest first; the summary covers those of the last 7 days. */
   commits: CommitEntry[];
   /** Whether data is still loading. */
   loading?: boolean;
+  /** Locale for the labels and dates. */
+  locale?: Locale;
+  /** Explains a failed history request (rate limit, offline, HTTP error). */
+  describeFailure: (failure: GitHubFailure) => string;
 }
 
-/**
- * Formats an ISO date string into separate date and time strings.
- *
- * Returns `{ date: "Feb 03", time: "14:32" }` for stacked display.
- */
-function formatDateParts(isoDate: string): { date: string; time: string } {
-  const parsed = new Date(isoDate);
-  const month = parsed.toLocaleDateString("en-US", { month: "short" });
-  const day = parsed.getDate().toString().padStart(2, "0");
-  const hours = parsed.getHours().toString().padStart(2, "0");
-  const minutes = parsed.getMinutes().toString().padStart(2, "0");
-  return { date: `${month} ${day}`, time: `${hours}:${minutes}` };
-}
-
-/**
- * Animated collapsible container.
- *
- * Measures content height via ResizeObserver so it correctly tracks
- * changes from nested expansions (e.g. commit bodies opening inside).
- */
-function AnimatedCollapse({ expanded, children }: { expanded: boolean; children: React.ReactNode }) {
-  const contentRef = useRef<HTMLDivElement>(null);
-  const [height, setHeight] = useState(0);
-
-  useEffect(() => {
-    const element = contentRef.current;
-    if (!element) return;
-
-    if (!expanded) {
-      setHeight(0);
-      return;
-    }
-
-    // Set initial height
-    setHeight(element.scrollHeight);
-
-    // Watch for content size changes (e.g. nested commit body expanding)
-    const observer = new ResizeObserver(() => {
-      setHeight(element.scrollHeight);
-    });
-    observer.observe(element);
-
-    return () => observer.disconnect();
-  }, [expanded]);
-
-  return (
-    <div
-      className="overflow-hidden transition-all duration-300 ease-in-out"
-      style={{ maxHeight: expanded ? height : 0, opacity: expanded ? 1 : 0 }}
-    >
-      <div ref={contentRef}>
-        {children}
-      </div>
-    </div>
-  );
-}
-
-/** A single commit row with date/time, title, disclosure chevron, and SHA (desktop only). */
-function CommitRow({
-  commit,
-  isBodyExpanded,
-  onToggleBody,
-}: {
-  commit: CommitEntry;
-  isBodyExpanded: boolean;
-  onToggleBody: () => void;
-}) {
-  const hasBody = commit.body !== null;
-  const { date, time } = formatDateParts(commit.date);
-
+/** Segmented control switching between the weekly summary and the history. */
+function ViewToggle({ view, onChange, t }: { view: CommitView; onChange: (view: CommitView) => void; t: Messages["dashboard"]["commitList"] }) {
+  const options: [CommitView, string][] = [
+    ["summary", t.summaryView],
+    ["history", t.historyView],
+  ];
   return (
-    <li className="animate-fade-slide-in py-2.5 first:pt-0 last:pb-0">
-      <div className="flex items-center gap-2 min-w-0 sm:gap-3">
-        {/* Date/time: left, stacked with icon */}
-        <div className="shrink-0 flex items-start gap-1 sm:gap-1.5">
-          <Icon name="clock" size={20} className="text-muted/50" />
-          <div className="flex flex-col items-end font-mono text-[10px] leading-tight tabular-nums sm:text-xs">
-            <span className="text-muted/70">{date}</span>
-            <span className="text-muted/50">{time}</span>
-          </div>
-        </div>
-
-        {/* Disclosure chevron + title: center */}
-        <div className="flex items-center gap-1 min-w-0 flex-1 overflow-hidden sm:gap-1.5">
-          {hasBody ? (
-            <button
-              onClick={onToggleBody}
-              className="shrink-0 flex h-5 w-5 items-center justify-center rounded text-muted transition-colors hover:text-foreground hover:bg-accent/10"
-              aria-label={isBodyExpanded ? "Collapse commit body" : "Expand commit body"}
-            >
-              <span className={`transition-transform duration-200 ${isBodyExpanded ? "rotate-90" : ""}`}>
-                <Icon name="chevronRight" size={20} />
-              </span>
-            </button>
-          ) : (
-            <span className="w-5 shrink-0" />
-          )}
-          <span className="block truncate text-sm text-foreground/90 sm:text-base">{commit.title}</span>
-        </div>
-
-        {/* SHA: hidden on mobile, visible on sm+ */}
-        <a
-          href={commit.url}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="hidden shrink-0 font-mono text-sm text-accent/70 transition-colors hover:text-accent sm:block"
+    <div className="flex items-center gap-1 rounded-lg border border-border p-1" role="group" aria-label={t.viewLabel}>
+      {options.map(([option, label]) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          aria-pressed={view === option}
+          className={`rounded-md px-3 py-1 text-sm transition-colors ${
+            view === option ? "bg-accent text-background" : "text-muted hover:bg-accent/10 hover:text-foreground"
+          }`}
         >
-          {commit.sha}
-        </a>
-      </div>
-
-      {/* Expandable body */}
-      {hasBody && (
-        <AnimatedCollapse expanded={isBodyExpanded}>
-          <pre className="mt-2 ml-6 whitespace-pre-wrap break-words rounded-lg border border-border/20 bg-background/40 px-3 py-2 font-mono text-xs leading-relaxed text-muted/80 sm:ml-7 sm:px-4 sm:py-3 sm:text-sm">
-            {commit.body}
-          </pre>
-        </AnimatedCollapse>
-      )}
-    </li>
+          {label}
+        </button>
+      ))}
+    </div>
   );
 }
 
 /**
- * Displays the most recent commits with title, expandable body, and date/time + SHA.
+ * "What changed" summary of the last 7 days: the commits parsed as
+ * Conventional Commits and grouped by category (features, fixes, ...),
+ * each with a colored type badge. Filter chips narrow the summary to one
+ * category; `#123` references link to the issue or pull request.
  *
- * Initially shows 8 commits. A chevron at the bottom toggles the remaining commits
- * with a smooth animation. All expand/collapse actions are animated.
+ * Each category shows 5 commits, a chevron below it toggles the rest. Commit
+ * bodies expand individually or all at once. All expand/collapse actions
+ * are animated, and commits arriving with an auto-refresh slide in.
  *
- * When new commits arrive (e.g. from auto-refresh), they smoothly slide in from
- * the top while existing commits animate to their new positions.
+ * A toggle in the header switches to the full history (CommitHistory),
+ * which pages, searches and filters all commits of the repository.
  */
-export default function CommitList({ commits, loading = false }: CommitListProps) {
+export default function CommitList({ commits, loading = false, locale = DEFAULT_LOCALE, describeFailure }: CommitListProps) {
+  const t = getMessages(locale).dashboard.commitList;
+  const [view, setView] = useState<CommitView>("summary");
   const [expandedSha, setExpandedSha] = useState<Set<string>>(new Set());
-  const [showAll, setShowAll] = useState(false);
+  const [expandedGroups, setExpandedGroups] = useState<Set<CommitType>>(new Set());
+  const [typeFilter, setTypeFilter] = useState<CommitType | null>(null);
+
+  const parsed = useMemo(() => commits.map(parseCommit), [commits]);
+  const week = commitsSince(parsed, SUMMARY_DAYS);
+  const groups = groupCommitsByType(week);
+  // A filter whose category has no commits anymore (after a refresh) shows everything
+  const activeFilter = groups.some((group) => group.type === typeFilter) ? typeFilter : null;
+  const shownGroups = activeFilter ? groups.filter((group) => group.type === activeFilter) : groups;
+  const breakingCount = week.filter((commit) => commit.breaking).length;
+  // The fetched commits may not reach back a full week on busy weeks
+  const oldest = parsed[parsed.length - 1];
+  const partialSince = week.length > 0 && week.length === parsed.length ? oldest.date : null;
 
   function toggleExpanded(sha: string) {
     setExpandedSha((prev) => {
@@ -162,7 +101,19 @@ export default function CommitList({ commits, loading = false }: CommitListProps
     });
   }
 
-  const commitsWithBody = commits.filter((commit) => commit.body !== null);
+  function toggleGroup(type: CommitType) {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  }
+
+  const commitsWithBody = shownGroups.flatMap((group) => group.commits).filter((commit) => commit.body !== null);
   const allBodiesExpanded = commitsWithBody.length > 0 && commitsWithBody.every((commit) => expandedSha.has(commit.sha));
 
   function toggleAll() {
@@ -170,22 +121,20 @@ export default function CommitList({ commits, loading = false }: CommitListProps
       setExpandedSha(new Set());
     } else {
       setExpandedSha(new Set(commitsWithBody.map((commit) => commit.sha)));
-      // Also show all commits so hidden bodies become visible
-      if (!showAll && commits.length > INITIAL_COUNT) {
-        setShowAll(true);
-      }
+      // Also show all commits of the categories so hidden bodies become visible
+      setExpandedGroups(new Set(shownGroups.map((group) => group.type)));
     }
   }
 
   if (loading) {
     return (
       <div className="overflow-hidden rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
-<h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
+        <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
           <Icon name="listBullet" size={24} className="text-accent" />
-          <span className="whitespace-nowrap">Commits</span>
+          <span className="whitespace-nowrap">{t.loadingTitle}</span>
         </h3>
         <div className="flex flex-col gap-3">
-          {Array.from({ length: INITIAL_COUNT }).map((_, idx) => (
+          {Array.from({ length: SKELETON_ROWS }).map((_, idx) => (
             <div key={idx} className="flex items-center gap-3">
               <div className="h-5 flex-1 rounded-md bg-accent/10 animate-skeleton" />
               <div className="h-8 w-20 shrink-0 rounded-md bg-accent/10 animate-skeleton" />
@@ -196,84 +145,157 @@ export default function CommitList({ commits, loading = false }: CommitListProps
     );
   }
 
-  if (commits.length === 0) {
+  if (view === "history") {
+    return (
+      <div className="overflow-hidden rounded-xl border border-border bg-frosted-glass p-4 backdrop-blur-xl sm:p-6">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3 sm:mb-4">
+          <h3 className="flex items-center gap-3 text-xl font-semibold text-foreground">
+            <Icon name="listBullet" size={24} className="text-accent" />
+            {t.title}
+          </h3>
+          <ViewToggle view={view} onChange={setView} t={t} />
+        </div>
+        <CommitHistory locale={locale} t={t} describeFailure={describeFailure} />
+      </div>
+    );
+  }
+
+  if (week.length === 0) {
     return (
       <div className="overflow-hidden rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
-        <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
-          <Icon name="listBullet" size={24} className="text-accent" />
-          Recent Commits
-        </h3>
-        <p className="text-lg text-muted">No commits found.</p>
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <h3 className="flex items-center gap-3 text-xl font-semibold text-foreground">
+            <Icon name="listBullet" size={24} className="text-accent" />
+            {t.title}
+          </h3>
+          <ViewToggle view={view} onChange={setView} t={t} />
+        </div>
+        <p className="text-lg text-muted">{commits.length === 0 ? t.empty : t.emptyWeek(SUMMARY_DAYS)}</p>
       </div>
     );
   }
 
-  const initialCommits = commits.slice(0, INITIAL_COUNT);
-  const extraCommits = commits.slice(INITIAL_COUNT);
-  const hasMore = extraCommits.length > 0;
+  const chipClass = (active: boolean) =>
+    `flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors ${
+      active ? "border-accent/60 bg-accent/10 text-foreground" : "border-border text-muted hover:border-accent/40 hover:text-foreground"
+    }`;
 
   return (
     <div className="overflow-hidden rounded-xl border border-border bg-frosted-glass p-4 backdrop-blur-xl sm:p-6">
-      <div className="mb-3 flex items-center justify-between sm:mb-4">
-<h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
-          <Icon name="listBullet" size={24} className="text-accent" />
-          Recent Commits
-        </h3>
-        {commitsWithBody.length > 0 && (
-          <button
-            onClick={toggleAll}
-            title={allBodiesExpanded ? "Collapse all" : "Expand all"}
-            className="flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-muted transition-colors hover:bg-accent/5 hover:text-foreground sm:gap-1.5 sm:px-3"
-          >
-            <span className={`transition-transform duration-200 ${allBodiesExpanded ? "rotate-90" : ""}`}>
-              <Icon name="chevronRight" size={20} />
-            </span>
-            <span className="hidden sm:inline">{allBodiesExpanded ? "Collapse all" : "Expand all"}</span>
-          </button>
-        )}
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3 sm:mb-4">
+        <div>
+          <h3 className="flex items-center gap-3 text-xl font-semibold text-foreground">
+            <Icon name="listBullet" size={24} className="text-accent" />
+            {t.title}
+          </h3>
+          <p className="mt-1 text-sm text-muted">
+            {partialSince
+              ? t.summaryPartial(week.length, formatDateParts(partialSince, locale).date)
+              : t.summary(week.length, SUMMARY_DAYS)}
+            {breakingCount > 0 && <span className="text-red-400"> · {t.breakingCount(breakingCount)}</span>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {commitsWithBody.length > 0 && (
+            <button
+              onClick={toggleAll}
+              title={allBodiesExpanded ? t.collapseAll : t.expandAll}
+              className="flex items-center gap-1 rounded-lg px-2 py-1 text-sm text-muted transition-colors hover:bg-accent/5 hover:text-foreground sm:gap-1.5 sm:px-3"
+            >
+              <span className={`transition-transform duration-200 ${allBodiesExpanded ? "rotate-90" : ""}`}>
+                <Icon name="chevronRight" size={20} />
+              </span>
+              <span className="hidden sm:inline">{allBodiesExpanded ? t.collapseAll : t.expandAll}</span>
+            </button>
+          )}
+          <ViewToggle view={view} onChange={setView} t={t} />
+        </div>
       </div>
 
-      {/* Always-visible commits */}
-      <ul className="flex flex-col divide-y divide-border/30">
-        {initialCommits.map((commit) => (
-          <CommitRow
-            key={commit.sha}
-            commit={commit}
-            isBodyExpanded={expandedSha.has(commit.sha)}
-            onToggleBody={() => toggleExpanded(commit.sha)}
-          />
-        ))}
-      </ul>
-
-      {/* Extra commits (collapsible) */}
-      {hasMore && (
-        <AnimatedCollapse expanded={showAll}>
-          <ul className="flex flex-col divide-y divide-border/30 border-t border-border/30">
-            {extraCommits.map((commit) => (
-              <CommitRow
-                key={commit.sha}
-                commit={commit}
-                isBodyExpanded={expandedSha.has(commit.sha)}
-                onToggleBody={() => toggleExpanded(commit.sha)}
-              />
-            ))}
-          </ul>
-        </AnimatedCollapse>
+      {/* Filter chips: one per category with commits */}
+      {groups.length > 1 && (
+        <div className="mb-4 flex flex-wrap gap-2" role="group" aria-label={t.filterLabel}>
+          <button type="button" onClick={() => setTypeFilter(null)} aria-pressed={activeFilter === null} className={chipClass(activeFilter === null)}>
+            {t.all}
+            <span className="font-mono text-xs text-muted">{week.length}</span>
+          </button>
+          {groups.map((group) => (
+            <button
+              key={group.type}
+              type="button"
+              onClick={() => setTypeFilter(group.type)}
+              aria-pressed={activeFilter === group.type}
+              className={chipClass(activeFilter === group.type)}
+            >
+              <CommitTypeBadge type={group.type} label={t.types[group.type]} />
+              <span className="font-mono text-xs text-muted">{group.commits.length}</span>
+            </button>
+          ))}
+        </div>
       )}
 
-      {/* Show more / less toggle */}
-      {hasMore && (
-        <button
-          onClick={() => setShowAll((prev) => !prev)}
-          className="mt-4 flex w-full items-center justify-center gap-2 rounded-lg py-2 text-sm text-muted transition-colors hover:bg-accent/5 hover:text-foreground"
-          aria-label={showAll ? "Show fewer commits" : "Show all commits"}
-        >
-          <span className={`transition-transform duration-300 ${showAll ? "rotate-180" : ""}`}>
-            <Icon name="chevronRight" size={20} className="rotate-90" />
-          </span>
-          <span>{showAll ? "Show less" : `Show ${extraCommits.length} more`}</span>
-        </button>
-      )}
+      {/* One section per category */}
+      <div className="flex flex-col gap-5">
+        {shownGroups.map((group) => {
+          const initialCommits = group.commits.slice(0, INITIAL_PER_GROUP);
+          const extraCommits = group.commits.slice(INITIAL_PER_GROUP);
+          const showAll = expandedGroups.has(group.type);
+
+          return (
+            <section key={group.type} aria-label={t.types[group.type]}>
+              <h4 className="mb-2 flex items-center gap-2">
+                <CommitTypeBadge type={group.type} label={t.types[group.type]} className="text-sm" />
+                <span className="font-mono text-xs text-muted">{group.commits.length}</span>
+              </h4>
+
+              <ul className="flex flex-col divide-y divide-border/30">
+                {initialCommits.map((commit) => (
+                  <CommitRow
+                    key={commit.sha}
+                    commit={commit}
+                    isExpanded={expandedSha.has(commit.sha)}
+                    onToggle={() => toggleExpanded(commit.sha)}
+                    locale={locale}
+                    t={t}
+                    describeFailure={describeFailure}
+                  />
+                ))}
+              </ul>
+
+              {/* Extra commits of the category (collapsible) */}
+              {extraCommits.length > 0 && (
+                <>
+                  <AnimatedCollapse expanded={showAll}>
+                    <ul className="flex flex-col divide-y divide-border/30 border-t border-border/30">
+                      {extraCommits.map((commit) => (
+                        <CommitRow
+                          key={commit.sha}
+                          commit={commit}
+                          isExpanded={expandedSha.has(commit.sha)}
+                          onToggle={() => toggleExpanded(commit.sha)}
+                          locale={locale}
+                          t={t}
+                          describeFailure={describeFailure}
+                        />
+                      ))}
+                    </ul>
+                  </AnimatedCollapse>
+                  <button
+                    onClick={() => toggleGroup(group.type)}
+                    className="mt-2 flex w-full items-center justify-center gap-2 rounded-lg py-1.5 text-sm text-muted transition-colors hover:bg-accent/5 hover:text-foreground"
+                    aria-label={showAll ? t.showFewer : t.showAll}
+                  >
+                    <span className={`transition-transform duration-300 ${showAll ? "rotate-180" : ""}`}>
+                      <Icon name="chevronRight" size={20} className="rotate-90" />
+                    </span>
+                    <span>{showAll ? t.showLess : t.showMore(extraCommits.length)}</span>
+                  </button>
+                </>
+              )}
+            </section>
+          );
+        })}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import Icon from "../Icon";
+import CommitTypeBadge from "./CommitTypeBadge";
+import CommitDetail from "./CommitDetail";
+import { referenceUrl, splitReferences, type ParsedCommit } from "../../../lib/conventional-commits";
+import type { GitHubFailure } from "../../../lib/github-client";
+import { intlLocale, type Locale, type Messages } from "../../../i18n";
+
+/**
+ * Formats an ISO date string into separate date and time strings.
+ *
+ * Returns `{ date: "Feb 03", time: "14:32" }` (German: `"03. Feb."`) for
+ * stacked display. The time always uses the 24-hour clock.
+ */
+export function formatDateParts(isoDate: string, locale: Locale): { date: string; time: string } {
+  const parsed = new Date(isoDate);
+  const tag = intlLocale(locale);
+  return {
+    date: parsed.toLocaleDateString(tag, { month: "short", day: "2-digit" }),
+    time: parsed.toLocaleTimeString(tag, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" }),
+  };
+}
+
+/**
+ * Animated collapsible container.
+ *
+ * Measures content height via ResizeObserver so it correctly tracks
+ * changes from nested expansions (e.g. commit bodies opening inside).
+ */
+export function AnimatedCollapse({ expanded, children }: { expanded: boolean; children: React.ReactNode }) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [height, setHeight] = useState(0);
+
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!element) return;
+
+    if (!expanded) {
+      setHeight(0);
+      return;
+    }
+
+    // Set initial height
+    setHeight(element.scrollHeight);
+
+    // Watch for content size changes (e.g. nested commit body expanding)
+    const observer = new ResizeObserver(() => {
+      setHeight(element.scrollHeight);
+    });
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [expanded]);
+
+  return (
+    <div
+      className="overflow-hidden transition-all duration-300 ease-in-out"
+      style={{ maxHeight: expanded ? height : 0, opacity: expanded ? 1 : 0 }}
+    >
+      <div ref={contentRef}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+
+/** Commit text with `#123` references linked to the issue or pull request. */
+function CommitText({ text, t }: { text: string; t: Messages["dashboard"]["commitList"] }) {
+  return (
+    <>
+      {splitReferences(text).map((part, index) =>
+        "reference" in part ? (
+          <a
+            key={index}
+            href={referenceUrl(part.reference)}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={t.reference(part.reference)}
+            className="text-accent/80 transition-colors hover:text-accent hover:underline"
+          >
+            #{part.reference}
+          </a>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+interface CommitRowProps {
+  commit: ParsedCommit;
+  isExpanded: boolean;
+  onToggle: () => void;
+  /** Show the commit's type badge (in lists that are not grouped by type). */
+  showType?: boolean;
+  locale: Locale;
+  t: Messages["dashboard"]["commitList"];
+  /** Explains a failed detail request (rate limit, offline, HTTP error). */
+  describeFailure: (failure: GitHubFailure) => string;
+}
+
+/**
+ * A single commit row with date/time, scope, subject, disclosure chevron, and
+ * SHA (desktop only). Expanding it shows the body and the changed files
+ * (CommitDetail, loaded when opened).
+ */
+export default function CommitRow({ commit, isExpanded, onToggle, showType = false, locale, t, describeFailure }: CommitRowProps) {
+  const { date, time } = formatDateParts(commit.date, locale);
+
+  return (
+    <li className="animate-fade-slide-in py-2.5 first:pt-0 last:pb-0">
+      <div className="flex items-center gap-2 min-w-0 sm:gap-3">
+        {/* Date/time: left, stacked with icon */}
+        <div className="shrink-0 flex items-start gap-1 sm:gap-1.5">
+          <Icon name="clock" size={20} className="text-muted/50" />
+          <div className="flex flex-col items-end font-mono text-[10px] leading-tight tabular-nums sm:text-xs">
+            <span className="text-muted/70">{date}</span>
+            <span className="text-muted/50">{time}</span>
+          </div>
+        </div>
+
+        {/* Disclosure chevron + scope + subject: center */}
+        <div className="flex items-center gap-1 min-w-0 flex-1 overflow-hidden sm:gap-1.5">
+          <button
+            onClick={onToggle}
+            className="shrink-0 flex h-5 w-5 items-center justify-center rounded text-muted transition-colors hover:text-foreground hover:bg-accent/10"
+            aria-label={isExpanded ? t.collapseDetails : t.expandDetails}
+            aria-expanded={isExpanded}
+          >
+            <span className={`transition-transform duration-200 ${isExpanded ? "rotate-90" : ""}`}>
+              <Icon name="chevronRight" size={20} />
+            </span>
+          </button>
+          {showType && <CommitTypeBadge type={commit.type} className="shrink-0" />}
+          {commit.breaking && (
+            <span className="shrink-0 rounded bg-red-500/15 px-1.5 py-0.5 text-xs font-bold uppercase tracking-wider text-red-400" title={t.breakingTitle}>
+              {t.breaking}
+            </span>
+          )}
+          {commit.scope && <span className="shrink-0 font-mono text-sm text-muted/70">{commit.scope}:</span>}
+          <span className="block truncate text-sm text-foreground/90 sm:text-base">
+            <CommitText text={commit.subject} t={t} />
+          </span>
+        </div>
+
+        {/* SHA: hidden on mobile, visible on sm+ */}
+        <a
+          href={commit.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hidden shrink-0 font-mono text-sm text-accent/70 transition-colors hover:text-accent sm:block"
+        >
+          {commit.sha}
+        </a>
+      </div>
+
+      {/* Expandable body and changes */}
+      <AnimatedCollapse expanded={isExpanded}>
+        {commit.body !== null && (
+          <pre className="mt-2 ml-6 whitespace-pre-wrap break-words rounded-lg border border-border/20 bg-background/40 px-3 py-2 font-mono text-xs leading-relaxed text-muted/80 sm:ml-7 sm:px-4 sm:py-3 sm:text-sm">
+            <CommitText text={commit.body} t={t} />
+          </pre>
+        )}
+        <CommitDetail sha={commit.sha} commitUrl={commit.url} t={t.detail} describeFailure={describeFailure} />
+      </AnimatedCollapse>
+    </li>
+  );
+}
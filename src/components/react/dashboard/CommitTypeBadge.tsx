@@ -0,0 +1,36 @@
+import type { CommitType } from "../../../lib/conventional-commits";
+
+interface CommitTypeBadgeProps {
+  type: CommitType;
+  /** Text of the badge; defaults to the type itself (e.g. "feat"). */
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Badge colors per commit type. Fixed colors rather than theme colors, so
+ * the categories stay apart in every theme.
+ */
+export const COMMIT_TYPE_COLORS: Record<CommitType, string> = {
+  feat: "bg-emerald-500/15 text-emerald-400",
+  fix: "bg-red-500/15 text-red-400",
+  perf: "bg-amber-500/15 text-amber-400",
+  refactor: "bg-violet-500/15 text-violet-400",
+  docs: "bg-sky-500/15 text-sky-400",
+  test: "bg-lime-500/15 text-lime-400",
+  build: "bg-orange-500/15 text-orange-400",
+  ci: "bg-cyan-500/15 text-cyan-400",
+  style: "bg-pink-500/15 text-pink-400",
+  chore: "bg-slate-500/20 text-slate-300",
+  revert: "bg-rose-500/15 text-rose-400",
+  other: "bg-foreground/10 text-muted",
+};
+
+/** Small colored label of a commit type. */
+export default function CommitTypeBadge({ type, label = type, className = "" }: CommitTypeBadgeProps) {
+  return (
+    <span className={`rounded px-1.5 py-0.5 font-mono text-xs font-semibold ${COMMIT_TYPE_COLORS[type]} ${className}`}>
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Contributor } from "../../../hooks/useGitHubStats";
+import StargazerPopoverContent from "./StargazerPopoverContent";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
+
+interface ContributorPopoverContentProps {
+  user: Contributor;
+  locale?: Locale;
+}
+
+/**
+ * Popover content for a contributor: username and social links (as for a
+ * stargazer), plus their commits and changed lines.
+ */
+export default function ContributorPopoverContent({ user, locale = DEFAULT_LOCALE }: ContributorPopoverContentProps) {
+  const t = getMessages(locale).dashboard;
+  const format = (value: number) => value.toLocaleString(intlLocale(locale));
+
+  return (
+    <div className="flex flex-col items-center gap-1.5">
+      <StargazerPopoverContent user={user} />
+      <p className="whitespace-nowrap text-center text-xs text-muted">
+        <span className="font-bold text-accent">{format(user.commits)}</span> {t.activity.commits(user.commits)}
+        {user.additions !== null && user.deletions !== null && (
+          <span className="ml-2 font-mono">
+            <span className="text-emerald-400">+{format(user.additions)}</span>{" "}
+            <span className="text-red-400">−{format(user.deletions)}</span>
+          </span>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useCallback } from "react";
+import type { Contributor, ContributorWeek } from "../../../hooks/useGitHubStats";
+import { useHoverPopover } from "../../../hooks/useHoverPopover";
+import { CONTRIBUTOR_WEEKS } from "../../../lib/github-stats";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
+import AvatarMarquee from "./AvatarMarquee";
+import HoverPopover from "./HoverPopover";
+import ContributorPopoverContent from "./ContributorPopoverContent";
+import { intensityLevel, OPACITY_MAP } from "./ActivityHeatmap";
+
+/** Cell size of the mini heatmaps in pixels. */
+const CELL_SIZE = 9;
+
+interface ContributorsPanelProps {
+  /** Contributors with the most commits, most first. */
+  contributors: Contributor[];
+  /** Controls the expand/collapse animation. */
+  open: boolean;
+  /** Callback when panel requests to close. */
+  onClose?: () => void;
+  /** Locale for the labels, numbers and dates. */
+  locale?: Locale;
+}
+
+/** Data displayed in the heatmap hover popover. */
+interface WeekHover {
+  login: string;
+  date: string;
+  count: number;
+}
+
+/** Formats a week timestamp (seconds) as month and year, e.g. "Mar 2025". */
+function formatMonth(weekTimestamp: number, locale: Locale): string {
+  return new Date(weekTimestamp * 1000).toLocaleDateString(intlLocale(locale), { month: "short", year: "numeric" });
+}
+
+/** Formats a week timestamp (seconds) as a day, e.g. "Mar 2, 2025". */
+function formatDay(weekTimestamp: number, locale: Locale): string {
+  return new Date(weekTimestamp * 1000).toLocaleDateString(intlLocale(locale), { month: "short", day: "numeric", year: "numeric" });
+}
+
+/**
+ * Contributors of the repository, shown when the Contributors card is
+ * clicked: a marquee of their avatars (with social links in the popover,
+ * like the stargazers) above a leaderboard with each contributor's commits,
+ * added and deleted lines, first and latest contribution, and a mini heatmap
+ * of their commits over the last 26 weeks.
+ */
+export default function ContributorsPanel({ contributors, open, onClose, locale = DEFAULT_LOCALE }: ContributorsPanelProps) {
+  const messages = getMessages(locale).dashboard;
+  const t = messages.contributorsPanel;
+  const { hover, popover, show: showPopover, hide: hidePopover, cancelHide } = useHoverPopover<WeekHover>();
+
+  const getAvatarUrl = useCallback((c: Contributor) => c.avatarUrl, []);
+  const getLabel = useCallback((c: Contributor) => c.login, []);
+  const getProfileUrl = useCallback((c: Contributor) => c.profileUrl, []);
+  const renderPopover = useCallback((c: Contributor) => <ContributorPopoverContent user={c} locale={locale} />, [locale]);
+
+  const format = (value: number) => value.toLocaleString(intlLocale(locale));
+  // GitHub computes the line statistics on demand; until then only commit counts are known
+  const computing = contributors.some((contributor) => contributor.additions === null);
+
+  function handleMouseEnter(event: React.MouseEvent<HTMLDivElement>, login: string, week: ContributorWeek) {
+    const cell = event.currentTarget;
+    const wrapper = cell.closest("[data-leaderboard]");
+    if (!wrapper) return;
+
+    const wrapperRect = wrapper.getBoundingClientRect();
+    const cellRect = cell.getBoundingClientRect();
+    showPopover(
+      { login, date: t.weekOf(formatDay(week.week, locale)), count: week.commits },
+      cellRect.left - wrapperRect.left + cellRect.width / 2,
+      cellRect.top - wrapperRect.top,
+    );
+  }
+
+  return (
+    <>
+      <AvatarMarquee
+        items={contributors}
+        getAvatarUrl={getAvatarUrl}
+        getLabel={getLabel}
+        getProfileUrl={getProfileUrl}
+        renderPopover={renderPopover}
+        open={open}
+        title={messages.contributors}
+        onClose={onClose}
+      />
+
+      {open && contributors.length > 0 && (
+        <div className="relative mt-4 animate-fade-slide-in rounded-xl border border-border bg-frosted-glass p-4 backdrop-blur-xl sm:p-6" data-leaderboard>
+          <h3 className="mb-4 text-xl font-semibold text-foreground">{t.title}</h3>
+          {computing && <p className="mb-3 text-sm text-muted">{t.computing}</p>}
+
+          <div className="max-h-[28rem] overflow-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 bg-frosted-glass text-xs text-muted backdrop-blur-xl">
+                <tr>
+                  <th className="py-2 pr-3 font-medium">{t.rank}</th>
+                  <th className="py-2 pr-3 font-medium">{t.contributor}</th>
+                  <th className="py-2 pr-3 text-right font-medium">{t.commits}</th>
+                  <th className="hidden py-2 pr-3 text-right font-medium sm:table-cell">{t.lines}</th>
+                  <th className="hidden py-2 pr-3 font-medium md:table-cell">{t.active}</th>
+                  <th className="hidden py-2 font-medium lg:table-cell">{t.activity(CONTRIBUTOR_WEEKS)}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/30">
+                {contributors.map((contributor, index) => {
+                  const maxCommits = Math.max(0, ...contributor.recentWeeks.map((week) => week.commits));
+                  return (
+                    <tr key={contributor.login}>
+                      <td className="py-2 pr-3 font-mono text-muted">{index + 1}</td>
+                      <td className="py-2 pr-3">
+                        <a
+                          href={contributor.profileUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 text-foreground/90 transition-colors hover:text-accent"
+                        >
+                          <img
+                            src={`${contributor.avatarUrl}&s=48`}
+                            alt=""
+                            width={24}
+                            height={24}
+                            loading="lazy"
+                            className="avatar-tinted rounded-full ring-1 ring-border"
+                          />
+                          {contributor.login}
+                        </a>
+                      </td>
+                      <td className="py-2 pr-3 text-right font-mono text-foreground">{format(contributor.commits)}</td>
+                      <td className="hidden whitespace-nowrap py-2 pr-3 text-right font-mono sm:table-cell">
+                        {contributor.additions !== null && contributor.deletions !== null ? (
+                          <>
+                            <span className="text-emerald-400">+{format(contributor.additions)}</span>{" "}
+                            <span className="text-red-400">−{format(contributor.deletions)}</span>
+                          </>
+                        ) : (
+                          <span className="text-muted">—</span>
+                        )}
+                      </td>
+                      <td className="hidden whitespace-nowrap py-2 pr-3 text-muted md:table-cell">
+                        {contributor.firstWeek !== null && contributor.lastWeek !== null
+                          ? t.span(formatMonth(contributor.firstWeek, locale), formatMonth(contributor.lastWeek, locale))
+                          : "—"}
+                      </td>
+                      <td className="hidden py-2 lg:table-cell">
+                        <div className="flex" style={{ gap: 2 }} aria-label={t.activity(CONTRIBUTOR_WEEKS)}>
+                          {contributor.recentWeeks.map((week) => (
+                            <div
+                              key={week.week}
+                              className={`rounded-sm bg-accent ${OPACITY_MAP[intensityLevel(week.commits, maxCommits)]} transition-opacity hover:ring-1 hover:ring-accent/60`}
+                              style={{ width: CELL_SIZE, height: CELL_SIZE }}
+                              onMouseEnter={(event) => week.commits > 0 && handleMouseEnter(event, contributor.login, week)}
+                              onMouseLeave={hidePopover}
+                            />
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Popover of a heatmap week */}
+          <HoverPopover
+            visible={!!hover}
+            x={popover?.x ?? 0}
+            y={popover?.y ?? 0}
+            offsetY={-11}
+            minWidth="10rem"
+            onMouseEnter={cancelHide}
+            onMouseLeave={hidePopover}
+          >
+            <p className="whitespace-nowrap text-center text-sm font-medium text-foreground">{popover?.data.login}</p>
+            <p className="whitespace-nowrap text-center text-xs text-muted">{popover?.data.date}</p>
+            <p className="whitespace-nowrap text-center text-sm text-muted">
+              <span className="font-bold text-accent">{popover?.data.count ?? 0}</span> {messages.activity.commits(popover?.data.count ?? 0)}
+            </p>
+          </HoverPopover>
+        </div>
+      )}
+    </>
+  );
+}
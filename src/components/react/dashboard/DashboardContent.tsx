@@ -1,60 +1,107 @@
 import { useState, useCallback, useEffect } from "react";
 import { useGitHubStatsCache } from "../../../hooks/useGitHubStatsCache";
+import { usePlansCache } from "../../../hooks/usePlansCache";
+import { useStatsHistory } from "../../../hooks/useStatsHistory";
+import { useIssueExplorerCache } from "../../../hooks/useIssueExplorerCache";
+import { statPoints, statTrend, statValuesOf, type StatMetric } from "../../../lib/stats-history";
+import type { GitHubFailure } from "../../../lib/github-client";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale, type Messages } from "../../../i18n";
 import Icon from "../Icon";
 import StatCard from "./StatCard";
+import TrendChart from "./TrendChart";
 import StargazersPanel from "./StargazersPanel";
+import ContributorsPanel from "./ContributorsPanel";
 import ActivityHeatmap from "./ActivityHeatmap";
 import PlansCard from "./PlansCard";
+import ShippedTimeline from "./ShippedTimeline";
 import LanguageBar from "./LanguageBar";
 import CommitList from "./CommitList";
+import IssueExplorer from "./IssueExplorer";
 import RepoInfo from "./RepoInfo";
 
+/** Metrics of the first row of stat cards (their trend chart opens below that row). */
+const FIRST_ROW_METRICS: StatMetric[] = ["stars", "contributors", "forks", "releases"];
+
+interface DashboardContentProps {
+  /** Locale of the page: labels, dates and relative times follow it. */
+  locale?: Locale;
+}
+
 /**
  * Formats a relative time string like "2 min ago" or "just now".
  *
  * Uses simple second/minute thresholds: no need for Intl.RelativeTimeFormat
  * since the maximum age before auto-refresh is 5 minutes.
  */
-function formatTimeAgo(timestampMs: number): string {
+function formatTimeAgo(timestampMs: number, t: Messages["dashboard"]): string {
   const seconds = Math.floor((Date.now() - timestampMs) / 1000);
-  if (seconds < 5) return "just now";
-  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 5) return t.justNow;
+  if (seconds < 60) return t.secondsAgo(seconds);
   const minutes = Math.floor(seconds / 60);
   const remainingSeconds = seconds % 60;
-  if (remainingSeconds === 0) return `${minutes} min ago`;
-  return `${minutes} min ${remainingSeconds}s ago`;
+  if (remainingSeconds === 0) return t.minutesAgo(minutes);
+  return t.minutesSecondsAgo(minutes, remainingSeconds);
 }
 
 /**
  * Formats a countdown string like "3:12" from a future timestamp.
  *
- * Returns "now" if the target is in the past or within 1 second.
+ * Returns "now" (localized) if the target is in the past or within 1 second.
  */
-function formatCountdown(targetMs: number): string {
+function formatCountdown(targetMs: number, t: Messages["dashboard"]): string {
   const remainingSeconds = Math.max(0, Math.floor((targetMs - Date.now()) / 1000));
-  if (remainingSeconds <= 0) return "now";
+  if (remainingSeconds <= 0) return t.now;
   const minutes = Math.floor(remainingSeconds / 60);
   const seconds = remainingSeconds % 60;
   return `${minutes}:${String(seconds).padStart(2, "0")}`;
 }
 
+/** Formats a clock time like "14:05" in the page's locale. */
+function formatClockTime(timestampMs: number, locale: Locale): string {
+  return new Intl.DateTimeFormat(intlLocale(locale), { hour: "2-digit", minute: "2-digit" }).format(timestampMs);
+}
+
+/** Explains why the shown data is stale: rate limit (with reset time), offline, or an HTTP error. */
+function describeStaleReason(reason: GitHubFailure, t: Messages["dashboard"], locale: Locale): string {
+  switch (reason.reason) {
+    case "rate-limited":
+      return t.stale.rateLimited(reason.retryAt !== null ? formatClockTime(reason.retryAt, locale) : null);
+    case "offline":
+      return t.stale.offline;
+    case "http-error":
+      return t.stale.httpError(reason.status);
+  }
+}
+
 /**
  * Dashboard content: displays live GitHub metrics for the TUIKit repository.
  *
  * Data is cached in localStorage for 5 minutes. Page reloads within that window
  * serve cached data without hitting the GitHub API. A background timer
  * auto-refreshes every 5 minutes. An animated refresh icon appears during loading.
+ * When a refresh fails, the previous data stays and a notice says why
+ * (rate limit and its reset time, offline, or an HTTP error).
  */
-export default function DashboardContent() {
+export default function DashboardContent({ locale = DEFAULT_LOCALE }: DashboardContentProps) {
+  const t = getMessages(locale).dashboard;
   const {
     lastFetchedAt,
     nextRefreshAt,
     isFromCache,
     isRefreshing,
+    staleReason,
     ...stats
   } = useGitHubStatsCache();
+  const plans = usePlansCache();
+  const history = useStatsHistory();
+  // The explorer costs rate limit: it loads once its panel is scrolled into view
+  const [explorerVisible, setExplorerVisible] = useState(false);
+  const explorer = useIssueExplorerCache(explorerVisible);
+  const showExplorer = useCallback(() => setExplorerVisible(true), []);
 
   const [showStargazers, setShowStargazers] = useState(false);
+  const [showContributors, setShowContributors] = useState(false);
+  const [trendMetric, setTrendMetric] = useState<StatMetric | null>(null);
 
   // Tick every second to update the "last updated" and countdown displays
   const [, setTick] = useState(0);
@@ -82,22 +129,57 @@ export default function DashboardContent() {
 
   const toggleStargazers = useCallback(() => setShowStargazers((prev) => !prev), []);
   const closeStargazers = useCallback(() => setShowStargazers(false), []);
+  const toggleContributors = useCallback(() => setShowContributors((prev) => !prev), []);
+  const closeContributors = useCallback(() => setShowContributors(false), []);
+  const closeTrend = useCallback(() => setTrendMetric(null), []);
+
+  // Sparkline, deltas and chart toggle of a card (nothing until the history has loaded)
+  const values = statValuesOf(stats);
+  const cardLabels: Partial<Record<StatMetric, string>> = {
+    stars: t.stars,
+    contributors: t.contributors,
+    forks: t.forks,
+    releases: t.releases,
+    commits: t.commits,
+    openIssues: t.openIssues,
+    openPRs: t.openPRs,
+    mergedPRs: t.mergedPRs,
+  };
+  const trendProps = (metric: StatMetric) =>
+    history.data
+      ? {
+          trend: statTrend(history.data, metric, values[metric]),
+          onShowTrend: () => setTrendMetric((prev) => (prev === metric ? null : metric)),
+          locale,
+        }
+      : { locale };
+
+  const trendPanel = trendMetric && history.data && (
+    <TrendChart
+      label={cardLabels[trendMetric] ?? trendMetric}
+      points={statPoints(history.data, trendMetric)}
+      current={values[trendMetric]}
+      note={trendMetric === "stars" && history.data.starsBackfilled ? t.trend.backfilled : undefined}
+      onClose={closeTrend}
+      locale={locale}
+    />
+  );
 
   return (
     <>
       {/* Header with loading indicator */}
       <div className="mb-6 flex flex-col items-center text-center sm:mb-10 sm:flex-row sm:items-center sm:justify-between sm:text-left">
         <div>
-          <h1 className="text-3xl font-bold text-foreground sm:text-4xl">Project Dashboard</h1>
+          <h1 className="text-3xl font-bold text-foreground sm:text-4xl">{t.title}</h1>
           <p className="mt-1 text-base text-muted sm:text-lg">
-            Live metrics · <a href="https://github.com/phranck/TUIkit" target="_blank" rel="noopener noreferrer" className="text-accent transition-colors hover:text-foreground">phranck/TUIkit</a>
+            {t.liveMetrics} · <a href="https://github.com/phranck/TUIkit" target="_blank" rel="noopener noreferrer" className="text-accent transition-colors hover:text-foreground">phranck/TUIkit</a>
           </p>
         </div>
         {/* Refresh icon: fades in while refreshing, spins */}
         {isRefreshing && (
           <div
             className="mt-3 flex items-center justify-center animate-fade-scale-in sm:mt-0"
-            aria-label="Refreshing data"
+            aria-label={t.refreshing}
           >
             <span className="animate-spin-slow text-muted">
               <Icon name="refresh" size={20} />
@@ -106,22 +188,34 @@ export default function DashboardContent() {
         )}
       </div>
 
-      {/* Error state */}
-      {stats.error && (
-        <div className="mb-8 rounded-xl border border-red-500/30 bg-red-500/10 p-4 text-base text-red-400">
-          <strong>Error:</strong> {stats.error}
-          <span className="ml-3 text-muted/60">Will retry automatically</span>
+      {/* Stale state: why the last refresh failed */}
+      {staleReason && (
+        <div
+          role="status"
+          className={`mb-8 rounded-xl border p-4 text-base ${
+            staleReason.reason === "http-error"
+              ? "border-red-500/30 bg-red-500/10 text-red-400"
+              : "border-amber-500/30 bg-amber-500/10 text-amber-400"
+          }`}
+        >
+          {staleReason.reason === "http-error" && <strong>{t.error} </strong>}
+          {describeStaleReason(staleReason, t, locale)}
+          {lastFetchedAt && <span className="ml-1">{t.stale.showingSaved(formatTimeAgo(lastFetchedAt, t))}</span>}
+          {staleReason.reason !== "rate-limited" && <span className="ml-3 text-muted/60">{t.willRetry}</span>}
         </div>
       )}
 
       {/* Stat cards: row 1 */}
       <div className="mb-4 grid grid-cols-2 gap-4 md:grid-cols-4">
-        <StatCard id="stat-card-stars" label="Stars" value={stats.stars} icon="star" loading={stats.loading} onClick={toggleStargazers} active={showStargazers} />
-        <StatCard id="stat-card-contributors" label="Contributors" value={stats.contributors} icon="person2" loading={stats.loading} />
-        <StatCard label="Forks" value={stats.forks} icon="branch" loading={stats.loading} />
-        <StatCard label="Releases" value={stats.releases} icon="shippingbox" loading={stats.loading} />
+        <StatCard id="stat-card-stars" label={t.stars} value={stats.stars} icon="star" loading={stats.loading} onClick={toggleStargazers} active={showStargazers} {...trendProps("stars")} />
+        <StatCard id="stat-card-contributors" label={t.contributors} value={stats.contributors} icon="person2" loading={stats.loading} onClick={toggleContributors} active={showContributors} {...trendProps("contributors")} />
+        <StatCard label={t.forks} value={stats.forks} icon="branch" loading={stats.loading} active={trendMetric === "forks"} {...trendProps("forks")} />
+        <StatCard label={t.releases} value={stats.releases} icon="shippingbox" loading={stats.loading} active={trendMetric === "releases"} {...trendProps("releases")} />
       </div>
 
+      {/* Trend chart of a first-row card */}
+      {trendMetric && FIRST_ROW_METRICS.includes(trendMetric) && <div className="mb-4">{trendPanel}</div>}
+
       {/* Stargazers panel: expands between the two rows */}
       <div className={showStargazers ? "mb-4" : ""}>
         <StargazersPanel
@@ -129,31 +223,46 @@ export default function DashboardContent() {
           totalStars={stats.stars}
           open={showStargazers}
           onClose={closeStargazers}
+          locale={locale}
+        />
+      </div>
+
+      {/* Contributors panel: leaderboard below the stargazers */}
+      <div className={showContributors ? "mb-4" : ""}>
+        <ContributorsPanel
+          contributors={stats.topContributors ?? []}
+          open={showContributors}
+          onClose={closeContributors}
+          locale={locale}
         />
       </div>
 
       {/* Stat cards: row 2 */}
       <div className="mb-8 grid grid-cols-2 gap-4 md:grid-cols-4">
-        <StatCard label="Commits" value={stats.totalCommits} icon="numberCircle" loading={stats.loading} />
-        <StatCard label="Open Issues" value={stats.openIssues} icon="issue" loading={stats.loading} />
-        <StatCard label="Open PRs" value={stats.openPRs} icon="pullRequest" loading={stats.loading} />
-        <StatCard label="Merged PRs" value={stats.mergedPRs} icon="merge" loading={stats.loading} />
+        <StatCard label={t.commits} value={stats.totalCommits} icon="numberCircle" loading={stats.loading} active={trendMetric === "commits"} {...trendProps("commits")} />
+        <StatCard label={t.openIssues} value={stats.openIssues} icon="issue" loading={stats.loading} active={trendMetric === "openIssues"} {...trendProps("openIssues")} />
+        <StatCard label={t.openPRs} value={stats.openPRs} icon="pullRequest" loading={stats.loading} active={trendMetric === "openPRs"} {...trendProps("openPRs")} />
+        <StatCard label={t.mergedPRs} value={stats.mergedPRs} icon="merge" loading={stats.loading} active={trendMetric === "mergedPRs"} {...trendProps("mergedPRs")} />
       </div>
 
+      {/* Trend chart of a second-row card */}
+      {trendMetric && !FIRST_ROW_METRICS.includes(trendMetric) && <div className="mb-8">{trendPanel}</div>}
+
       {/* Activity heatmap: hidden on mobile */}
       <div className="mb-8 hidden sm:block">
-        <ActivityHeatmap weeks={stats.weeklyActivity} loading={stats.loading} />
+        <ActivityHeatmap weeks={stats.weeklyActivity} loading={stats.loading} locale={locale} />
       </div>
 
-      {/* Plans Card */}
-      <div className="mb-8">
-        <PlansCard />
+      {/* Plans + recently shipped */}
+      <div className="mb-8 grid gap-8 lg:grid-cols-[2fr_1fr]">
+        <PlansCard data={plans.data} loading={plans.loading} error={plans.error} locale={locale} />
+        <ShippedTimeline plans={plans.data?.done ?? []} loading={plans.loading} locale={locale} />
       </div>
 
       {/* Languages + Repo Info + Commits */}
       <div className="mb-8 grid gap-8 lg:grid-cols-[1fr_2fr]">
         <div className="flex flex-col gap-8">
-          <LanguageBar languages={stats.languages} loading={stats.loading} />
+          <LanguageBar languages={stats.languages} loading={stats.loading} locale={locale} />
           <RepoInfo
             createdAt={stats.createdAt}
             license={stats.license}
@@ -161,9 +270,27 @@ export default function DashboardContent() {
             defaultBranch={stats.defaultBranch}
             pushedAt={stats.pushedAt}
             loading={stats.loading}
+            locale={locale}
           />
         </div>
-        <CommitList commits={stats.recentCommits} loading={stats.loading} />
+        <CommitList
+          commits={stats.recentCommits}
+          loading={stats.loading}
+          locale={locale}
+          describeFailure={(failure) => describeStaleReason(failure, t, locale)}
+        />
+      </div>
+
+      {/* Open pull requests and issues */}
+      <div className="mb-8">
+        <IssueExplorer
+          data={explorer.data}
+          loading={explorer.loading}
+          staleReason={explorer.staleReason}
+          describeFailure={(failure) => describeStaleReason(failure, t, locale)}
+          onVisible={showExplorer}
+          locale={locale}
+        />
       </div>
 
       {/* Footer: cache status + rate limit */}
@@ -172,16 +299,16 @@ export default function DashboardContent() {
           {lastFetchedAt && (
             <>
               <span>
-                Updated {formatTimeAgo(lastFetchedAt)}
+                {t.updated} {formatTimeAgo(lastFetchedAt, t)}
                 {isFromCache && (
                   <span className="ml-1 rounded bg-white/5 px-1 py-0.5 text-[10px] text-muted/40 lg:ml-1.5 lg:px-1.5 lg:text-xs">
-                    cached
+                    {t.cached}
                   </span>
                 )}
               </span>
               {nextRefreshAt && (
                 <span className="text-muted/40">
-                  · Next in {formatCountdown(nextRefreshAt)}
+                  · {t.nextIn} {formatCountdown(nextRefreshAt, t)}
                 </span>
               )}
             </>
@@ -189,7 +316,8 @@ export default function DashboardContent() {
         </div>
         {stats.rateLimit && (
           <div className="text-center lg:text-right">
-            API rate limit: {stats.rateLimit.remaining}/{stats.rateLimit.limit} remaining
+            {t.rateLimit(stats.rateLimit.remaining, stats.rateLimit.limit)}
+            {stats.rateLimit.resetAt && stats.rateLimit.remaining < stats.rateLimit.limit && ` · ${t.rateLimitReset(formatClockTime(stats.rateLimit.resetAt, locale))}`}
           </div>
         )}
       </div>
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from "react";
+import Icon from "../Icon";
+import { ageInDays, isStale, STALE_DAYS, type ExplorerData, type ExplorerItem, type ReviewState } from "../../../lib/issue-explorer";
+import type { GitHubFailure } from "../../../lib/github-client";
+import { DEFAULT_LOCALE, formatDays, getMessages, type Locale, type Messages } from "../../../i18n";
+
+/** Number of placeholder rows while loading. */
+const SKELETON_ROWS = 5;
+
+/** Most assignee avatars shown per item. */
+const MAX_ASSIGNEES = 3;
+
+/** Which list the panel shows. */
+type ExplorerKind = "pullRequests" | "issues";
+
+/** Badge colors of the review states. */
+const REVIEW_STATE_COLORS: Record<ReviewState, string> = {
+  approved: "bg-emerald-500/15 text-emerald-400",
+  "changes-requested": "bg-red-500/15 text-red-400",
+  commented: "bg-sky-500/15 text-sky-400",
+  "review-required": "bg-amber-500/15 text-amber-400",
+  none: "bg-foreground/10 text-muted",
+  draft: "bg-foreground/10 text-muted",
+  unknown: "bg-foreground/10 text-muted",
+};
+
+interface IssueExplorerProps {
+  data: ExplorerData | null;
+  /** Whether data is still loading (nothing to show yet). */
+  loading?: boolean;
+  /** Why the shown data is stale, or null. */
+  staleReason?: GitHubFailure | null;
+  /** Explains a failed request (rate limit, offline, HTTP error). */
+  describeFailure: (failure: GitHubFailure) => string;
+  /** Called once the panel is (nearly) scrolled into view, to start loading. */
+  onVisible?: () => void;
+  /** Locale for the labels and durations. */
+  locale?: Locale;
+}
+
+/** A metric tile: a median in days and what it is based on. */
+function MetricTile({ label, days, sample, locale, t }: { label: string; days: number | null; sample: string; locale: Locale; t: Messages["dashboard"]["explorer"] }) {
+  return (
+    <div className="flex-1 rounded-lg border border-border/40 bg-background/30 px-4 py-3">
+      <div className="text-sm text-muted">{label}</div>
+      <div className="mt-1 font-mono text-2xl text-foreground">{days === null ? "—" : formatDays(locale, days)}</div>
+      <div className="mt-1 text-xs text-muted/70">{days === null ? t.noSample : sample}</div>
+    </div>
+  );
+}
+
+/** One open pull request or issue: title, labels, author, age, assignees and (PRs) review state. */
+function ExplorerRow({ item, locale, t }: { item: ExplorerItem; locale: Locale; t: Messages["dashboard"]["explorer"] }) {
+  const stale = isStale(item);
+  const shownAssignees = item.assignees.slice(0, MAX_ASSIGNEES);
+
+  return (
+    <li className="animate-fade-slide-in flex items-start gap-3 py-3 first:pt-0 last:pb-0">
+      <div className="min-w-0 flex-1">
+        <a
+          href={item.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-foreground/90 transition-colors hover:text-accent"
+        >
+          <span className="mr-2 font-mono text-sm text-accent/70">#{item.number}</span>
+          {item.title}
+        </a>
+        <div className="mt-1.5 flex flex-wrap items-center gap-x-3 gap-y-1.5 text-xs text-muted">
+          {item.reviewState && (
+            <span className={`rounded px-1.5 py-0.5 font-semibold ${REVIEW_STATE_COLORS[item.reviewState]}`}>
+              {t.reviewStates[item.reviewState]}
+            </span>
+          )}
+          {stale && (
+            <span className="rounded bg-amber-500/15 px-1.5 py-0.5 font-semibold text-amber-400" title={t.staleTitle(STALE_DAYS)}>
+              {t.staleBadge}
+            </span>
+          )}
+          {item.author && <span>{t.by(item.author.login)}</span>}
+          <span className="flex items-center gap-1">
+            <Icon name="clock" size={14} className="text-muted/50" />
+            {t.age(formatDays(locale, ageInDays(item.createdAt)))}
+          </span>
+          {item.comments > 0 && (
+            <span className="flex items-center gap-1">
+              <Icon name="issue" size={14} className="text-muted/50" />
+              {t.comments(item.comments)}
+            </span>
+          )}
+          {item.labels.map((label) => (
+            <span key={label.name} className="flex items-center gap-1 rounded-full border border-border px-2 py-0.5">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: `#${label.color}` }} />
+              {label.name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Assignees: stacked avatars */}
+      {shownAssignees.length > 0 && (
+        <div className="flex shrink-0 -space-x-2" title={`${t.assignees}: ${item.assignees.map((user) => user.login).join(", ")}`}>
+          {shownAssignees.map((user) => (
+            <img
+              key={user.login}
+              src={`${user.avatarUrl}&s=48`}
+              alt={user.login}
+              loading="lazy"
+              className="h-6 w-6 rounded-full border border-border"
+            />
+          ))}
+          {item.assignees.length > MAX_ASSIGNEES && (
+            <span className="flex h-6 w-6 items-center justify-center rounded-full border border-border bg-container-body text-[10px] text-muted">
+              +{item.assignees.length - MAX_ASSIGNEES}
+            </span>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Explorer of the open pull requests and issues: labels, assignees, age and
+ * (for pull requests) the review state of each, filterable by label, author
+ * and staleness (no activity for more than 30 days). Above the list, the
+ * median time to merge and to first response over the recent history.
+ */
+export default function IssueExplorer({ data, loading = false, staleReason = null, describeFailure, onVisible, locale = DEFAULT_LOCALE }: IssueExplorerProps) {
+  const t = getMessages(locale).dashboard.explorer;
+  const [kind, setKind] = useState<ExplorerKind>("pullRequests");
+  const [label, setLabel] = useState("");
+  const [author, setAuthor] = useState("");
+  const [staleOnly, setStaleOnly] = useState(false);
+  const placeholder = loading || !data;
+
+  // Report when the panel comes into view (it renders another element once data is there)
+  const rootRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!onVisible || !root) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onVisible();
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [onVisible, placeholder]);
+
+  if (placeholder) {
+    return (
+      <div ref={rootRef} className="overflow-hidden rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
+        <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
+          <Icon name="pullRequest" size={24} className="text-accent" />
+          {t.title}
+        </h3>
+        {loading ? (
+          <div className="flex flex-col gap-3">
+            {Array.from({ length: SKELETON_ROWS }).map((_, idx) => (
+              <div key={idx} className="h-10 rounded-md bg-accent/10 animate-skeleton" />
+            ))}
+          </div>
+        ) : (
+          <p className="text-lg text-muted">{staleReason ? describeFailure(staleReason) : t.empty[kind]}</p>
+        )}
+      </div>
+    );
+  }
+
+  const items = data[kind];
+  const labels = [...new Set(items.flatMap((item) => item.labels.map((itemLabel) => itemLabel.name)))].sort((a, b) => a.localeCompare(b));
+  const authors = [...new Set(items.flatMap((item) => (item.author ? [item.author.login] : [])))].sort((a, b) => a.localeCompare(b));
+  // Filters whose value is not in the current list (after switching lists or a refresh) are ignored
+  const activeLabel = labels.includes(label) ? label : "";
+  const activeAuthor = authors.includes(author) ? author : "";
+  const shown = items.filter(
+    (item) =>
+      (!activeLabel || item.labels.some((itemLabel) => itemLabel.name === activeLabel)) &&
+      (!activeAuthor || item.author?.login === activeAuthor) &&
+      (!staleOnly || isStale(item)),
+  );
+  const staleCount = items.filter((item) => isStale(item)).length;
+  const filtered = activeLabel !== "" || activeAuthor !== "" || staleOnly;
+
+  const optionClass = (active: boolean) =>
+    `rounded-md px-3 py-1 text-sm transition-colors ${
+      active ? "bg-accent text-background" : "text-muted hover:bg-accent/10 hover:text-foreground"
+    }`;
+  const selectClass = "rounded-lg border border-border bg-frosted-glass px-3 py-1.5 text-sm text-foreground backdrop-blur-xl";
+
+  function resetFilters() {
+    setLabel("");
+    setAuthor("");
+    setStaleOnly(false);
+  }
+
+  return (
+    <div ref={rootRef} className="overflow-hidden rounded-xl border border-border bg-frosted-glass p-4 backdrop-blur-xl sm:p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="flex items-center gap-3 text-xl font-semibold text-foreground">
+          <Icon name="pullRequest" size={24} className="text-accent" />
+          {t.title}
+        </h3>
+        <div className="flex items-center gap-1 rounded-lg border border-border p-1" role="group" aria-label={t.kindLabel}>
+          {(["pullRequests", "issues"] as const).map((option) => (
+            <button key={option} type="button" onClick={() => setKind(option)} aria-pressed={kind === option} className={optionClass(kind === option)}>
+              {t.kinds[option]}
+              <span className="ml-1.5 font-mono text-xs opacity-70">{data[option].length}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {staleReason && <p className="mb-4 text-sm text-amber-400">{describeFailure(staleReason)}</p>}
+
+      {/* Metrics over the recent history */}
+      <div className="mb-5 flex flex-col gap-3 sm:flex-row">
+        <MetricTile
+          label={t.medianMerge}
+          days={data.metrics.medianDaysToMerge}
+          sample={t.mergedSample(data.metrics.mergedCount)}
+          locale={locale}
+          t={t}
+        />
+        <MetricTile
+          label={t.medianResponse}
+          days={data.metrics.medianDaysToFirstResponse}
+          sample={t.respondedSample(data.metrics.respondedCount)}
+          locale={locale}
+          t={t}
+        />
+      </div>
+
+      {/* Filters */}
+      {items.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-muted">
+            {t.label}
+            <select value={activeLabel} onChange={(event) => setLabel(event.target.value)} className={selectClass}>
+              <option value="">{t.allLabels}</option>
+              {labels.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-muted">
+            {t.author}
+            <select value={activeAuthor} onChange={(event) => setAuthor(event.target.value)} className={selectClass}>
+              <option value="">{t.allAuthors}</option>
+              {authors.map((login) => (
+                <option key={login} value={login}>
+                  {login}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={() => setStaleOnly((prev) => !prev)}
+            aria-pressed={staleOnly}
+            title={t.staleTitle(STALE_DAYS)}
+            className={`flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors ${
+              staleOnly ? "border-accent/60 bg-accent/10 text-foreground" : "border-border text-muted hover:border-accent/40 hover:text-foreground"
+            }`}
+          >
+            {t.staleFilter(STALE_DAYS)}
+            <span className="font-mono text-xs text-muted">{staleCount}</span>
+          </button>
+          {filtered && (
+            <span className="text-sm text-muted">
+              {t.count(shown.length, items.length)}
+              <button type="button" onClick={resetFilters} className="ml-2 underline underline-offset-4 hover:text-foreground">
+                {t.resetFilters}
+              </button>
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Items */}
+      {items.length === 0 ? (
+        <p className="text-lg text-muted">{t.empty[kind]}</p>
+      ) : shown.length === 0 ? (
+        <p className="text-lg text-muted">{t.noMatch}</p>
+      ) : (
+        <ul className="flex max-h-[32rem] flex-col divide-y divide-border/30 overflow-y-auto pr-1">
+          {shown.map((item) => (
+            <ExplorerRow key={item.number} item={item} locale={locale} t={t} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,15 @@
 
 import type { LanguageBreakdown } from "../../../hooks/useGitHubStats";
 import Icon from "../Icon";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "../../../i18n";
 
 interface LanguageBarProps {
   /** Language byte counts from the GitHub API. */
   languages: LanguageBreakdown;
   /** Whether data is still loading. */
   loading?: boolean;
+  /** Locale for the labels. */
+  locale?: Locale;
 }
 
 /**
@@ -30,13 +33,15 @@ const LANG_COLORS = [
  * Each segment is proportional to the byte count. A legend below the bar lists
  * each language with its percentage.
  */
-export default function LanguageBar({ languages, loading = false }: LanguageBarProps) {
+export default function LanguageBar({ languages, loading = false, locale = DEFAULT_LOCALE }: LanguageBarProps) {
+  const t = getMessages(locale).dashboard.languages;
+
   if (loading) {
     return (
       <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
         <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
           <Icon name="code" size={24} className="text-accent" />
-          Languages
+          {t.title}
         </h3>
         <div className="h-4 w-full rounded-full bg-accent/10 animate-skeleton" />
         <div className="mt-3 flex gap-4">
@@ -55,9 +60,9 @@ export default function LanguageBar({ languages, loading = false }: LanguageBarP
       <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
         <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
           <Icon name="code" size={24} className="text-accent" />
-          Languages
+          {t.title}
         </h3>
-        <p className="text-lg text-muted">No language data available.</p>
+        <p className="text-lg text-muted">{t.empty}</p>
       </div>
     );
   }
@@ -66,7 +71,7 @@ export default function LanguageBar({ languages, loading = false }: LanguageBarP
     <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
       <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
         <Icon name="code" size={24} className="text-accent" />
-        Languages
+        {t.title}
       </h3>
 
       {/* Stacked bar */}
@@ -1,9 +1,12 @@
 
 
 import { useState, useRef, useEffect } from "react";
-import { usePlansCache } from "../../../hooks/usePlansCache";
 import ReactMarkdown from "react-markdown";
 import Icon from "../Icon";
+import PlanLanguageBadge from "../plans/PlanLanguageBadge";
+import TaskProgressBar from "../plans/TaskProgressBar";
+import { planLocale, PRIMARY_PLAN_LOCALE, primaryLanguageFirst, type PlansData, type PlanSummary } from "../../../lib/plans";
+import { DEFAULT_LOCALE, getMessages, localePath, type Locale } from "../../../i18n";
 
 /**
  * Animated collapsible container.
@@ -50,35 +53,52 @@ const COLLAPSED_COUNT = 1;
 /** Maximum number of plans to display per section. */
 const MAX_PLANS = 6;
 
-interface Plan {
-  date: string;
-  slug: string;
-  title: string;
-  preface: string;
+interface PlansCardProps {
+  /** Contents of plans.json, or null while loading or after an error. */
+  data: PlansData | null;
+  /** Whether data is still loading. */
+  loading?: boolean;
+  /** Error message if loading failed. */
+  error?: string | null;
+  /** Locale for the labels. */
+  locale?: Locale;
 }
 
 /**
- * Renders a plan item with date, title, and preface (with markdown support).
+ * Renders a plan item with date, title (linking to the plan's page), a
+ * language tag for non-English plans, checklist progress (open plans only),
+ * and preface (with markdown support).
  */
-function PlanItem({ plan, isDone }: { plan: Plan; isDone: boolean }) {
+function PlanItem({ plan, isDone, locale }: { plan: PlanSummary; isDone: boolean; locale: Locale }) {
   const [year, month, day] = plan.date.split("-");
+  const language = planLocale(plan);
 
   return (
     <div className="border-l-2 border-accent/30 pl-4 py-3">
       {/* Date + Title */}
       <div className="flex items-baseline gap-2">
         <span className="text-sm font-mono text-muted/60">{year}-{month}-{day}</span>
-        <h4 className="text-lg font-semibold text-foreground">{plan.title}</h4>
+        <h4 className="text-lg font-semibold text-foreground" lang={language}>
+          <a href={localePath(locale, `/plans/${plan.slug}`)} className="transition-colors hover:text-accent">
+            {plan.title}
+          </a>
+        </h4>
+        <PlanLanguageBadge planLocale={language} locale={locale} />
       </div>
 
+      {/* Checklist progress */}
+      {!isDone && plan.tasks && <TaskProgressBar tasks={plan.tasks} locale={locale} className="mt-2 max-w-sm" />}
+
       {/* Preface with markdown rendering */}
-      <div className="mt-2 text-lg text-muted prose prose-lg max-w-none [&_strong]:font-semibold [&_strong]:text-foreground [&_em]:italic [&_em]:text-muted [&_code]:bg-background/50 [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-accent [&_a]:text-accent [&_a]:underline [&_a:hover]:no-underline">
+      <div lang={language} className="mt-2 text-lg text-muted prose prose-lg max-w-none [&_strong]:font-semibold [&_strong]:text-foreground [&_em]:italic [&_em]:text-muted [&_code]:bg-background/50 [&_code]:px-1 [&_code]:py-0.5 [&_code]:rounded [&_code]:text-accent [&_a]:text-accent [&_a]:underline [&_a:hover]:no-underline">
         <ReactMarkdown
           components={{
             p: ({ children }) => <p className="m-0 leading-relaxed">{children}</p>,
             strong: ({ children }) => <strong>{children}</strong>,
             em: ({ children }) => <em>{children}</em>,
             code: ({ children }) => <code>{children}</code>,
+            ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-6">{children}</ul>,
+            ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-6">{children}</ol>,
             a: ({ href, children }) => (
               <a href={href} target="_blank" rel="noopener noreferrer">
                 {children}
@@ -100,10 +120,12 @@ function PlansSection({
   title,
   plans: allPlans,
   isDone,
+  locale,
 }: {
   title: string;
-  plans: Plan[];
+  plans: PlanSummary[];
   isDone: boolean;
+  locale: Locale;
 }) {
   const [expanded, setExpanded] = useState(false);
   const plans = allPlans.slice(0, MAX_PLANS);
@@ -132,7 +154,7 @@ function PlansSection({
       {/* Always visible plans */}
       <div className="space-y-4">
         {plans.slice(0, COLLAPSED_COUNT).map((plan) => (
-          <PlanItem key={plan.slug} plan={plan} isDone={isDone} />
+          <PlanItem key={plan.slug} plan={plan} isDone={isDone} locale={locale} />
         ))}
       </div>
 
@@ -141,7 +163,7 @@ function PlansSection({
         <AnimatedCollapse expanded={expanded}>
           <div className="space-y-4 pt-4">
             {plans.slice(COLLAPSED_COUNT).map((plan) => (
-              <PlanItem key={plan.slug} plan={plan} isDone={isDone} />
+              <PlanItem key={plan.slug} plan={plan} isDone={isDone} locale={locale} />
             ))}
           </div>
         </AnimatedCollapse>
@@ -153,17 +175,20 @@ function PlansSection({
 /**
  * Plans Card: displays top 5 open and top 5 done plans from plans.json.
  * Includes markdown rendering for prefaces (bold, italics, code, links).
- * Each section is collapsible, showing 2 plans by default.
+ * Each section is collapsible, showing 2 plans by default. Only English
+ * plans are listed until the visitor asks for the other languages, which
+ * then follow the English ones.
  */
-export default function PlansCard() {
-  const { data, loading, error, isFromCache } = usePlansCache();
+export default function PlansCard({ data, loading = false, error = null, locale = DEFAULT_LOCALE }: PlansCardProps) {
+  const t = getMessages(locale).dashboard.plans;
+  const [allLanguages, setAllLanguages] = useState(false);
 
   if (loading) {
     return (
       <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
         <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
           <Icon name="document" size={24} className="text-accent" />
-          Development Plans
+          {t.title}
         </h3>
         <div className="space-y-3">
           {[...Array(3)].map((_, i) => (
@@ -177,35 +202,62 @@ export default function PlansCard() {
   if (error || !data) {
     return (
       <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-6 backdrop-blur-xl text-sm text-red-400">
-        <strong>Error loading plans:</strong> {error || "No data"}
+        <strong>{t.loadError}</strong> {error || t.noData}
       </div>
     );
   }
 
+  const isPrimary = (plan: PlanSummary) => planLocale(plan) === PRIMARY_PLAN_LOCALE;
+  const listed = (plans: PlanSummary[]) => (allLanguages ? primaryLanguageFirst(plans) : plans.filter(isPrimary));
+  const openPlans = listed(data.open);
+  const donePlans = listed(data.done);
+  const otherCount = [...data.open, ...data.done].filter((plan) => !isPrimary(plan)).length;
+
   return (
     <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
       {/* Header */}
       <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
         <Icon name="document" size={24} className="text-accent" />
-        Development Plans
+        {t.title}
       </h3>
 
       {/* Open Plans Section */}
-      {data.open.length > 0 && (
+      {openPlans.length > 0 && (
         <div className="mb-6">
-          <PlansSection title="Open" plans={data.open} isDone={false} />
+          <PlansSection title={t.open} plans={openPlans} isDone={false} locale={locale} />
         </div>
       )}
 
       {/* Divider */}
-      {data.open.length > 0 && data.done.length > 0 && (
+      {openPlans.length > 0 && donePlans.length > 0 && (
         <div className="my-6 border-t border-border/10" />
       )}
 
       {/* Done Plans Section */}
-      {data.done.length > 0 && (
-        <PlansSection title="Recently Completed" plans={data.done} isDone={true} />
+      {donePlans.length > 0 && (
+        <PlansSection title={t.done} plans={donePlans} isDone={true} locale={locale} />
+      )}
+
+      {/* Plans in other languages, on request */}
+      {otherCount > 0 && (
+        <button
+          type="button"
+          onClick={() => setAllLanguages((prev) => !prev)}
+          aria-pressed={allLanguages}
+          className="mt-6 block text-sm text-muted underline underline-offset-4 transition-colors hover:text-foreground"
+        >
+          {allLanguages ? t.englishOnly : t.showOtherLanguages(otherCount)}
+        </button>
       )}
+
+      {/* Link to the full list */}
+      <a
+        href={localePath(locale, "/plans")}
+        className="mt-6 inline-flex items-center gap-1 text-sm text-accent transition-colors hover:text-foreground"
+      >
+        {t.viewAll}
+        <Icon name="chevronRight" size={16} />
+      </a>
     </div>
   );
 }
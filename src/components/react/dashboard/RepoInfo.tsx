@@ -1,6 +1,7 @@
 
 
 import Icon from "../Icon";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
 
 interface RepoInfoProps {
   createdAt: string;
@@ -9,6 +10,8 @@ interface RepoInfoProps {
   defaultBranch: string;
   pushedAt: string;
   loading?: boolean;
+  /** Locale for the labels, dates and number formats. */
+  locale?: Locale;
 }
 
 /**
@@ -16,24 +19,25 @@ interface RepoInfoProps {
  *
  * GitHub reports repo size in KB. This converts to KB, MB, or GB as appropriate.
  */
-function formatSize(sizeKB: number): string {
+function formatSize(sizeKB: number, locale: Locale): string {
+  const number = new Intl.NumberFormat(intlLocale(locale), { minimumFractionDigits: 1, maximumFractionDigits: 1 });
   if (sizeKB < 1024) return `${sizeKB} KB`;
-  if (sizeKB < 1048576) return `${(sizeKB / 1024).toFixed(1)} MB`;
-  return `${(sizeKB / 1048576).toFixed(1)} GB`;
+  if (sizeKB < 1048576) return `${number.format(sizeKB / 1024)} MB`;
+  return `${number.format(sizeKB / 1048576)} GB`;
 }
 
 /**
  * Formats an ISO date string into a human-readable relative time.
  *
- * Produces strings like "3 hours ago" or "2 days ago".
+ * Produces strings like "3 hours ago" or "2 days ago" in the given locale.
  */
-function relativeTime(isoDate: string): string {
+function relativeTime(isoDate: string, locale: Locale): string {
   if (!isoDate) return "—";
   const now = Date.now();
   const then = new Date(isoDate).getTime();
   const diffSeconds = Math.floor((now - then) / 1000);
 
-  const rtf = new Intl.RelativeTimeFormat("en", { numeric: "auto" });
+  const rtf = new Intl.RelativeTimeFormat(intlLocale(locale), { numeric: "auto" });
 
   if (diffSeconds < 60) return rtf.format(-diffSeconds, "second");
   if (diffSeconds < 3600) return rtf.format(-Math.floor(diffSeconds / 60), "minute");
@@ -44,11 +48,11 @@ function relativeTime(isoDate: string): string {
 }
 
 /**
- * Formats an ISO date string into a short date (e.g., "Jan 28, 2026").
+ * Formats an ISO date string into a short date (e.g., "Jan 28, 2026" or "28. Jan. 2026").
  */
-function formatDate(isoDate: string): string {
+function formatDate(isoDate: string, locale: Locale): string {
   if (!isoDate) return "—";
-  return new Date(isoDate).toLocaleDateString("en-US", {
+  return new Date(isoDate).toLocaleDateString(intlLocale(locale), {
     month: "short",
     day: "numeric",
     year: "numeric",
@@ -77,13 +81,16 @@ export default function RepoInfo({
   defaultBranch,
   pushedAt,
   loading = false,
+  locale = DEFAULT_LOCALE,
 }: RepoInfoProps) {
+  const t = getMessages(locale).dashboard.repo;
+
   if (loading) {
     return (
       <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
         <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
           <Icon name="serverRack" size={24} className="text-accent" />
-          Repository
+          {t.title}
         </h3>
         <div className="flex flex-col gap-2">
           {Array.from({ length: 5 }).map((_, idx) => (
@@ -98,14 +105,14 @@ export default function RepoInfo({
     <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
       <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
         <Icon name="serverRack" size={24} className="text-accent" />
-        Repository
+        {t.title}
       </h3>
       <div className="flex flex-col">
-        <InfoRow label="Created" value={formatDate(createdAt)} />
-        <InfoRow label="License" value={license ?? "None"} />
-        <InfoRow label="Size" value={formatSize(size)} />
-        <InfoRow label="Default Branch" value={defaultBranch || "—"} />
-        <InfoRow label="Last Push" value={relativeTime(pushedAt)} />
+        <InfoRow label={t.created} value={formatDate(createdAt, locale)} />
+        <InfoRow label={t.license} value={license ?? t.noLicense} />
+        <InfoRow label={t.size} value={formatSize(size, locale)} />
+        <InfoRow label={t.defaultBranch} value={defaultBranch || "—"} />
+        <InfoRow label={t.lastPush} value={relativeTime(pushedAt, locale)} />
       </div>
     </div>
   );
@@ -0,0 +1,87 @@
+import Icon from "../Icon";
+import { averageCycleDays, cycleDays, recentlyShipped, type PlanSummary } from "../../../lib/plans";
+import { DEFAULT_LOCALE, formatDays, getMessages, intlLocale, localePath, type Locale } from "../../../i18n";
+
+interface ShippedTimelineProps {
+  /** Completed plans from plans.json. */
+  plans: PlanSummary[];
+  /** Whether data is still loading. */
+  loading?: boolean;
+  /** Locale for the labels and dates. */
+  locale?: Locale;
+}
+
+/** Number of shipped plans shown in the timeline. */
+const MAX_SHIPPED = 5;
+
+/**
+ * Timeline of the most recently completed plans, ordered by the date they
+ * moved to `done/`, with each plan's cycle time and the average over all
+ * completed plans.
+ */
+export default function ShippedTimeline({ plans, loading = false, locale = DEFAULT_LOCALE }: ShippedTimelineProps) {
+  const t = getMessages(locale).dashboard.shipped;
+
+  const header = (
+    <h3 className="mb-4 flex items-center gap-3 text-xl font-semibold text-foreground">
+      <Icon name="checkmark" size={24} className="text-accent" />
+      {t.title}
+    </h3>
+  );
+
+  if (loading) {
+    return (
+      <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
+        {header}
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-10 w-full animate-skeleton rounded bg-accent/10" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const shipped = recentlyShipped(plans, MAX_SHIPPED);
+  const average = averageCycleDays(plans);
+  const dateFormat = new Intl.DateTimeFormat(intlLocale(locale), { month: "short", day: "numeric", year: "numeric" });
+
+  return (
+    <div className="rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
+      {header}
+
+      {/* Average cycle time */}
+      {average !== null && (
+        <div className="mb-5 flex items-baseline justify-between gap-4 rounded-lg bg-accent/10 px-4 py-3">
+          <span className="text-base text-muted">{t.averageCycle}</span>
+          <span className="font-mono text-lg font-semibold text-foreground">{formatDays(locale, average)}</span>
+        </div>
+      )}
+
+      {shipped.length === 0 ? (
+        <p className="text-base text-muted">{t.empty}</p>
+      ) : (
+        <ol className="relative space-y-5 border-l-2 border-accent/30 pl-5">
+          {shipped.map((plan) => {
+            const days = cycleDays(plan);
+            return (
+              <li key={plan.slug} className="relative">
+                <span className="absolute -left-[27px] top-1.5 h-3 w-3 rounded-full bg-accent ring-4 ring-background" />
+                <time dateTime={plan.completed} className="block font-mono text-sm text-muted/60">
+                  {dateFormat.format(new Date(plan.completed ?? ""))}
+                </time>
+                <a
+                  href={localePath(locale, `/plans/${plan.slug}`)}
+                  className="text-base font-semibold text-foreground transition-colors hover:text-accent"
+                >
+                  {plan.title}
+                </a>
+                {days !== null && <span className="block text-sm text-muted">{t.tookDays(formatDays(locale, days))}</span>}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+interface SparklineProps {
+  /** Values oldest first; fewer than two draw nothing. */
+  values: number[];
+  /** Additional classes for the SVG (size, color via `text-*`). */
+  className?: string;
+}
+
+/** Sparkline size in SVG units (scaled to the element size). */
+const WIDTH = 100;
+const HEIGHT = 24;
+
+/**
+ * Minimal line chart of a value's recent course, drawn in `currentColor`.
+ * The line spans the values' own range, so small changes stay visible.
+ */
+export default function Sparkline({ values, className = "" }: SparklineProps) {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const x = (index: number) => (index / (values.length - 1)) * WIDTH;
+  const y = (value: number) => HEIGHT - 2 - ((value - min) / range) * (HEIGHT - 4);
+
+  const line = values.map((value, index) => `${index === 0 ? "M" : "L"}${x(index)},${y(value)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className={className} aria-hidden="true">
+      <path d={`${line} L${WIDTH},${HEIGHT} L0,${HEIGHT} Z`} fill="currentColor" opacity={0.12} />
+      <path d={line} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useCallback } from "react";
 import type { Stargazer } from "../../../hooks/useGitHubStats";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "../../../i18n";
 import AvatarMarquee from "./AvatarMarquee";
 import StargazerPopoverContent from "./StargazerPopoverContent";
 
@@ -14,6 +15,8 @@ interface StargazersPanelProps {
   open: boolean;
   /** Callback when panel requests to close. */
   onClose?: () => void;
+  /** Locale for the panel title. */
+  locale?: Locale;
 }
 
 /**
@@ -22,7 +25,7 @@ interface StargazersPanelProps {
  * Displays between the two StatCard rows when the Stars card is clicked.
  * Uses the generic AvatarMarquee component with stargazer-specific popover content.
  */
-export default function StargazersPanel({ stargazers, open, onClose }: StargazersPanelProps) {
+export default function StargazersPanel({ stargazers, open, onClose, locale = DEFAULT_LOCALE }: StargazersPanelProps) {
   const getAvatarUrl = useCallback((s: Stargazer) => s.avatarUrl, []);
   const getLabel = useCallback((s: Stargazer) => s.login, []);
   const getProfileUrl = useCallback((s: Stargazer) => s.profileUrl, []);
@@ -36,7 +39,7 @@ export default function StargazersPanel({ stargazers, open, onClose }: Stargazer
       getProfileUrl={getProfileUrl}
       renderPopover={renderPopover}
       open={open}
-      title="Stargazers"
+      title={getMessages(locale).dashboard.stargazers}
       onClose={onClose}
     />
   );
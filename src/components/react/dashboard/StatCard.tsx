@@ -2,6 +2,9 @@
 
 import type { IconName } from "../Icon";
 import Icon from "../Icon";
+import Sparkline from "./Sparkline";
+import type { StatTrend } from "../../../lib/stats-history";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
 
 interface StatCardProps {
   /** The stat label shown next to the icon. */
@@ -18,6 +21,44 @@ interface StatCardProps {
   active?: boolean;
   /** Optional ID for targeting (e.g., for arrow positioning). */
   id?: string;
+  /** Recent course and 7/30-day change, shown below the number. */
+  trend?: StatTrend;
+  /** Opens the full-size chart: on click of the card, or of the trend row if `onClick` does something else. */
+  onShowTrend?: () => void;
+  /** Locale for the number and delta formatting. */
+  locale?: Locale;
+}
+
+/** Formats a change with its sign: "+12", "−3", "±0". */
+function formatDelta(delta: number, locale: Locale): string {
+  const magnitude = Math.abs(delta).toLocaleString(intlLocale(locale));
+  if (delta > 0) return `+${magnitude}`;
+  if (delta < 0) return `−${magnitude}`;
+  return `±${magnitude}`;
+}
+
+/** Sparkline plus 7/30-day deltas of a card. */
+function TrendRow({ trend, locale }: { trend: StatTrend; locale: Locale }) {
+  const t = getMessages(locale).dashboard.trend;
+  const deltas = [
+    { days: 7, label: t.week, delta: trend.week },
+    { days: 30, label: t.month, delta: trend.month },
+  ].filter((entry) => entry.delta !== null);
+
+  return (
+    <div className="flex w-full items-center gap-3">
+      <Sparkline values={trend.values} className="h-6 min-w-0 flex-1 text-accent" />
+      {deltas.map(({ days, label, delta }) => (
+        <span
+          key={days}
+          title={t.deltaTitle(days)}
+          className={`whitespace-nowrap font-mono text-xs tabular-nums ${(delta ?? 0) > 0 ? "text-accent" : "text-muted"}`}
+        >
+          {formatDelta(delta ?? 0, locale)} <span className="text-muted/60">{label}</span>
+        </span>
+      ))}
+    </div>
+  );
 }
 
 /**
@@ -28,11 +69,30 @@ interface StatCardProps {
  *
  * When `onClick` is provided, renders as a `<button>` with native keyboard
  * and focus support. Otherwise renders as a static `<div>`.
+ *
+ * With a `trend`, a sparkline and the 7/30-day change sit below the number.
+ * `onShowTrend` opens the full chart: it is the card's click action unless
+ * the card has its own `onClick`, in which case the trend row becomes a
+ * separate button.
  */
-export default function StatCard({ label, value, icon, loading = false, onClick, active = false, id }: StatCardProps) {
-  const interactive = !!onClick;
+export default function StatCard({
+  label,
+  value,
+  icon,
+  loading = false,
+  onClick,
+  active = false,
+  id,
+  trend,
+  onShowTrend,
+  locale = DEFAULT_LOCALE,
+}: StatCardProps) {
+  const action = onClick ?? onShowTrend;
+  const interactive = !!action;
+  const separateTrendButton = !!onClick && !!onShowTrend;
+  const showTrend = !loading && trend && trend.values.length > 1;
 
-  const baseClasses = "flex w-full flex-col items-center gap-2 rounded-xl border p-4 backdrop-blur-xl transition-all duration-300 sm:flex-row sm:items-center sm:justify-between sm:gap-3 sm:p-5";
+  const baseClasses = "flex w-full flex-col items-center gap-2 rounded-xl border p-4 backdrop-blur-xl transition-all duration-300 sm:gap-3 sm:p-5";
   const stateClasses = active
     ? "border-accent/50 bg-accent/10"
     : "border-border bg-frosted-glass hover:border-accent/30";
@@ -41,7 +101,9 @@ export default function StatCard({ label, value, icon, loading = false, onClick,
     : "";
   const className = `${baseClasses} ${stateClasses} ${interactiveClasses}`;
 
-  const content = loading ? (
+  const rowClasses = "flex w-full flex-col items-center gap-2 sm:flex-row sm:items-center sm:justify-between sm:gap-3";
+
+  const main = loading ? (
     <div className="flex w-full flex-col items-center gap-2 sm:flex-row sm:justify-between">
       <div className="flex items-center gap-2">
         <div className="h-5 w-5 rounded-md bg-accent/10 animate-skeleton sm:h-6 sm:w-6" />
@@ -56,14 +118,46 @@ export default function StatCard({ label, value, icon, loading = false, onClick,
         <span className="whitespace-nowrap">{label}</span>
       </p>
       <p className="text-2xl font-bold text-foreground text-glow tabular-nums sm:text-3xl">
-        {value.toLocaleString()}
+        {value.toLocaleString(intlLocale(locale))}
       </p>
     </>
   );
 
+  const trendRow = showTrend && <TrendRow trend={trend} locale={locale} />;
+  const showLabel = getMessages(locale).dashboard.trend.show(label);
+
+  // Card action and chart are different: two buttons in one card
+  if (separateTrendButton) {
+    return (
+      <div id={id} className={className}>
+        <button type="button" onClick={onClick} className={`${rowClasses} cursor-pointer`}>
+          {main}
+        </button>
+        {trendRow && (
+          <button
+            type="button"
+            onClick={onShowTrend}
+            title={showLabel}
+            aria-label={showLabel}
+            className="w-full cursor-pointer rounded-md transition-colors hover:bg-accent/10"
+          >
+            {trendRow}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const content = (
+    <>
+      <div className={rowClasses}>{main}</div>
+      {trendRow}
+    </>
+  );
+
   if (interactive) {
     return (
-      <button type="button" id={id} onClick={onClick} className={className}>
+      <button type="button" id={id} onClick={action} title={onClick ? undefined : showLabel} className={className}>
         {content}
       </button>
     );
@@ -0,0 +1,121 @@
+import { useEffect } from "react";
+import Icon from "../Icon";
+import type { StatPoint } from "../../../lib/stats-history";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
+
+interface TrendChartProps {
+  /** Label of the metric (the stat card's label). */
+  label: string;
+  /** Recorded values of the metric, oldest first. */
+  points: StatPoint[];
+  /** Current (live) value, drawn as today's point. */
+  current: number;
+  /** Optional note below the chart (e.g. how the star history was backfilled). */
+  note?: string;
+  /** Callback when the panel requests to close (close button, ESC key). */
+  onClose: () => void;
+  /** Locale for the labels and dates. */
+  locale?: Locale;
+}
+
+/** Chart size in SVG units (scaled to the container width). */
+const WIDTH = 720;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+
+/** Parses a YYYY-MM-DD date to a UTC day in milliseconds. */
+function dayOf(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+/**
+ * Full-size chart of a stat card's metric over its whole recorded history,
+ * opened from the card. Values are drawn as steps: a count holds until the
+ * next recorded day, and the last one until today's live value.
+ */
+export default function TrendChart({ label, points, current, note, onClose, locale = DEFAULT_LOCALE }: TrendChartProps) {
+  const t = getMessages(locale).dashboard.trend;
+
+  // ESC closes the panel
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const series = [...points.filter((point) => point.date < today), { date: today, value: current }];
+
+  const header = (
+    <div className="mb-4 flex items-center justify-between gap-4">
+      <h3 className="flex items-center gap-3 text-xl font-semibold text-foreground">
+        <Icon name="chart" size={24} className="text-accent" />
+        {t.title(label)}
+      </h3>
+      <button
+        type="button"
+        onClick={onClose}
+        aria-label={t.close}
+        className="rounded-md p-1 text-muted transition-colors hover:bg-accent/10 hover:text-foreground"
+      >
+        <Icon name="xmark" size={20} />
+      </button>
+    </div>
+  );
+
+  if (series.length < 2) {
+    return (
+      <div className="animate-fade-scale-in rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
+        {header}
+        <p className="text-base text-muted">{t.empty}</p>
+      </div>
+    );
+  }
+
+  const start = dayOf(series[0].date);
+  const end = dayOf(today);
+  const minValue = Math.min(...series.map((point) => point.value));
+  const maxValue = Math.max(...series.map((point) => point.value), minValue + 1);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (day: number) => PADDING.left + ((day - start) / Math.max(end - start, 1)) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - ((value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  // Step line: each value holds until the next point
+  const line = series
+    .map((point, index) => {
+      const nextDay = index + 1 < series.length ? dayOf(series[index + 1].date) : end;
+      const command = index === 0 ? "M" : "L";
+      return `${command}${x(dayOf(point.date))},${y(point.value)} L${x(nextDay)},${y(point.value)}`;
+    })
+    .join(" ");
+  const area = `${line} L${x(end)},${y(minValue)} L${x(start)},${y(minValue)} Z`;
+
+  const numberFormat = new Intl.NumberFormat(intlLocale(locale));
+  const dateFormat = new Intl.DateTimeFormat(intlLocale(locale), { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+  return (
+    <div className="animate-fade-scale-in rounded-xl border border-border bg-frosted-glass p-6 backdrop-blur-xl">
+      {header}
+      <figure>
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label={`${t.title(label)}: ${numberFormat.format(current)}`}>
+          {/* Axes */}
+          <line x1={PADDING.left} y1={y(minValue)} x2={WIDTH - PADDING.right} y2={y(minValue)} className="stroke-border" strokeWidth={1} />
+          <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={y(minValue)} className="stroke-border" strokeWidth={1} />
+          <text x={PADDING.left - 8} y={y(maxValue) + 4} textAnchor="end" className="fill-muted font-mono text-[11px]">{numberFormat.format(maxValue)}</text>
+          <text x={PADDING.left - 8} y={y(minValue) + 4} textAnchor="end" className="fill-muted font-mono text-[11px]">{numberFormat.format(minValue)}</text>
+          <text x={PADDING.left} y={HEIGHT - 8} className="fill-muted font-mono text-[11px]">{dateFormat.format(start)}</text>
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-muted font-mono text-[11px]">{dateFormat.format(end)}</text>
+
+          {/* Series */}
+          <path d={area} className="fill-accent/15" />
+          <path d={line} fill="none" className="stroke-accent" strokeWidth={2} />
+        </svg>
+        {note && <figcaption className="mt-3 text-sm text-muted">{note}</figcaption>}
+      </figure>
+    </div>
+  );
+}
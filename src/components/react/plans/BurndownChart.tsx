@@ -0,0 +1,93 @@
+import type { PlanHistoryPoint } from "../../../lib/plans";
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
+
+interface BurndownChartProps {
+  /** Checklist counts of the plan over time, oldest first. */
+  points: PlanHistoryPoint[];
+  /** ISO timestamp of the latest data refresh; the last value is carried forward to it. */
+  until: string;
+  /** Locale for the labels and dates. */
+  locale?: Locale;
+}
+
+/** Chart size in SVG units (scaled to the container width). */
+const WIDTH = 640;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 36 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parses a YYYY-MM-DD date (or ISO timestamp) to a UTC day in milliseconds. */
+function dayOf(date: string): number {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+/**
+ * Burndown chart of a plan's checklist: remaining tasks as a filled step
+ * line, total tasks (the plan's scope, which grows when items are added) as
+ * a dashed line. Rendered as static SVG at build time.
+ */
+export default function BurndownChart({ points, until, locale = DEFAULT_LOCALE }: BurndownChartProps) {
+  const t = getMessages(locale).plans.burndown;
+
+  if (points.length === 0) {
+    return <p className="text-base text-muted">{t.noHistory}</p>;
+  }
+
+  const start = dayOf(points[0].date);
+  const end = Math.max(dayOf(until || points[points.length - 1].date), start + DAY_MS);
+  const maxTotal = Math.max(...points.map((point) => point.total), 1);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (day: number) => PADDING.left + ((day - start) / (end - start)) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxTotal) * plotHeight;
+
+  // Step lines: each value holds until the next point, the last one until `end`
+  const stepPath = (value: (point: PlanHistoryPoint) => number) =>
+    points
+      .map((point, index) => {
+        const nextDay = index + 1 < points.length ? dayOf(points[index + 1].date) : end;
+        const command = index === 0 ? "M" : "L";
+        return `${command}${x(dayOf(point.date))},${y(value(point))} L${x(nextDay)},${y(value(point))}`;
+      })
+      .join(" ");
+
+  const remainingLine = stepPath((point) => point.total - point.done);
+  const remainingArea = `${remainingLine} L${x(end)},${y(0)} L${x(start)},${y(0)} Z`;
+  const scopeLine = stepPath((point) => point.total);
+
+  const dateFormat = new Intl.DateTimeFormat(intlLocale(locale), { month: "short", day: "numeric", timeZone: "UTC" });
+  const latest = points[points.length - 1];
+
+  return (
+    <figure>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label={t.summary(latest.total - latest.done, latest.total)}>
+        {/* Axes */}
+        <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} className="stroke-border" strokeWidth={1} />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={y(0)} className="stroke-border" strokeWidth={1} />
+        <text x={PADDING.left - 8} y={y(maxTotal) + 4} textAnchor="end" className="fill-muted font-mono text-[11px]">{maxTotal}</text>
+        <text x={PADDING.left - 8} y={y(0) + 4} textAnchor="end" className="fill-muted font-mono text-[11px]">0</text>
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-muted font-mono text-[11px]">{dateFormat.format(start)}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-muted font-mono text-[11px]">{dateFormat.format(end)}</text>
+
+        {/* Series */}
+        <path d={remainingArea} className="fill-accent/15" />
+        <path d={remainingLine} fill="none" className="stroke-accent" strokeWidth={2} />
+        <path d={scopeLine} fill="none" className="stroke-muted" strokeWidth={1.5} strokeDasharray="4 4" />
+      </svg>
+
+      {/* Legend */}
+      <figcaption className="mt-3 flex flex-wrap gap-4 text-sm text-muted">
+        <span className="flex items-center gap-2">
+          <span className="inline-block h-0.5 w-5 bg-accent" />
+          {t.remaining}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-5 border-t-2 border-dashed border-muted" />
+          {t.scope}
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,27 @@
+import { DEFAULT_LOCALE, getMessages, intlLocale, type Locale } from "../../../i18n";
+
+interface PlanLanguageBadgeProps {
+  /** Language the plan is written in. */
+  planLocale: Locale;
+  /** Locale for the tooltip. */
+  locale?: Locale;
+}
+
+/**
+ * Language tag ("DE") for plans not written in English. English plans, the
+ * norm, get no badge.
+ */
+export default function PlanLanguageBadge({ planLocale, locale = DEFAULT_LOCALE }: PlanLanguageBadgeProps) {
+  if (planLocale === DEFAULT_LOCALE) return null;
+
+  const languageName = new Intl.DisplayNames(intlLocale(locale), { type: "language" }).of(planLocale) ?? planLocale;
+
+  return (
+    <span
+      className="rounded border border-border px-1.5 py-0.5 font-mono text-xs text-muted"
+      title={getMessages(locale).plans.writtenIn(languageName)}
+    >
+      {planLocale.toUpperCase()}
+    </span>
+  );
+}
@@ -0,0 +1,89 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import Icon from "../Icon";
+import { resolvePlanUrl, type PlanStatus } from "../../../lib/plans";
+
+interface PlanMarkdownProps {
+  /** Markdown of the plan (without its title). */
+  markdown: string;
+  /** Status of the plan, to resolve relative links into its repository directory. */
+  status: PlanStatus;
+}
+
+/** Resolves a relative link or image source of a document. */
+export type MarkdownUrlResolver = (url: string, kind: "link" | "image") => string;
+
+/**
+ * Element styles for plan documents and release notes. The checkbox GFM
+ * renders at the start of a task list item is replaced by an icon in the
+ * item's left gutter.
+ */
+export function markdownComponents(resolveUrl: MarkdownUrlResolver): Components {
+  return {
+    h2: ({ children }) => <h2 className="mt-10 mb-4 border-b border-border/50 pb-2 text-2xl font-semibold text-foreground">{children}</h2>,
+    h3: ({ children }) => <h3 className="mt-8 mb-3 text-xl font-semibold text-foreground">{children}</h3>,
+    h4: ({ children }) => <h4 className="mt-6 mb-2 text-lg font-semibold text-foreground">{children}</h4>,
+    p: ({ children }) => <p className="my-4 leading-relaxed">{children}</p>,
+    strong: ({ children }) => <strong className="font-semibold text-foreground">{children}</strong>,
+    em: ({ children }) => <em className="italic">{children}</em>,
+    a: ({ href, children }) => {
+      const url = resolveUrl(href ?? "", "link");
+      const external = !url.startsWith("#");
+      return (
+        <a
+          href={url}
+          {...(external ? { target: "_blank", rel: "noopener noreferrer" } : {})}
+          className="text-accent underline hover:no-underline"
+        >
+          {children}
+        </a>
+      );
+    },
+    img: ({ src, alt }) => (
+      <img src={resolveUrl(typeof src === "string" ? src : "", "image")} alt={alt ?? ""} loading="lazy" className="my-4 max-w-full rounded-lg border border-border" />
+    ),
+    ul: ({ className, children }) => (
+      <ul className={`my-4 space-y-1.5 ${className?.includes("contains-task-list") ? "list-none pl-1" : "list-disc pl-6"}`}>{children}</ul>
+    ),
+    ol: ({ children }) => <ol className="my-4 list-decimal space-y-1.5 pl-6">{children}</ol>,
+    li: ({ className, children }) => (
+      <li className={className?.includes("task-list-item") ? "relative pl-7 leading-relaxed" : "leading-relaxed"}>{children}</li>
+    ),
+    input: ({ checked }) =>
+      checked ? (
+        <Icon name="checkmark" size={20} className="absolute left-0 top-1 text-accent" />
+      ) : (
+        <span className="absolute left-0.5 top-1.5 h-4 w-4 rounded-full border-2 border-muted/60" />
+      ),
+    blockquote: ({ children }) => <blockquote className="my-4 border-l-2 border-accent/40 pl-4 text-muted">{children}</blockquote>,
+    pre: ({ children }) => (
+      <pre className="my-4 overflow-x-auto rounded-lg border border-border bg-background/60 p-4 font-mono text-sm leading-relaxed text-foreground [&_code]:bg-transparent [&_code]:p-0 [&_code]:text-foreground">
+        {children}
+      </pre>
+    ),
+    code: ({ children }) => <code className="rounded bg-background/50 px-1 py-0.5 font-mono text-[0.9em] text-accent">{children}</code>,
+    hr: () => <hr className="my-8 border-border/50" />,
+    table: ({ children }) => (
+      <div className="my-4 overflow-x-auto">
+        <table className="w-full border-collapse text-left text-base">{children}</table>
+      </div>
+    ),
+    th: ({ children }) => <th className="border-b border-border px-3 py-2 font-semibold text-foreground">{children}</th>,
+    td: ({ children }) => <td className="border-b border-border/40 px-3 py-2 align-top">{children}</td>,
+  };
+}
+
+/**
+ * Renders the full markdown of a plan with GitHub Flavored Markdown
+ * (checklists, tables, strikethrough). Rendered at build time on the plan
+ * pages, so it ships no JavaScript.
+ */
+export default function PlanMarkdown({ markdown, status }: PlanMarkdownProps) {
+  return (
+    <div className="text-lg text-muted">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents((url, kind) => resolvePlanUrl(url, status, kind))}>
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
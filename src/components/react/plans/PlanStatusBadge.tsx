@@ -0,0 +1,21 @@
+import type { PlanStatus } from "../../../lib/plans";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "../../../i18n";
+
+interface PlanStatusBadgeProps {
+  status: PlanStatus;
+  /** Locale for the label. */
+  locale?: Locale;
+}
+
+/** Small uppercase "Open" / "Done" label for a plan. */
+export default function PlanStatusBadge({ status, locale = DEFAULT_LOCALE }: PlanStatusBadgeProps) {
+  return (
+    <span
+      className={`rounded px-2 py-0.5 text-xs font-bold uppercase tracking-wider ${
+        status === "open" ? "bg-accent-secondary/20 text-accent-secondary" : "bg-accent/15 text-accent"
+      }`}
+    >
+      {getMessages(locale).plans[status]}
+    </span>
+  );
+}
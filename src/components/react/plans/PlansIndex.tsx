@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from "react";
+import Icon from "../Icon";
+import PlanLanguageBadge from "./PlanLanguageBadge";
+import PlanStatusBadge from "./PlanStatusBadge";
+import TaskProgressBar from "./TaskProgressBar";
+import type { PlanEntry, PlanStatus } from "../../../lib/plans";
+import { DEFAULT_LOCALE, LOCALES, getMessages, intlLocale, isLocale, localePath, type Locale } from "../../../i18n";
+
+/** Status filter: one status or every plan. */
+type StatusFilter = PlanStatus | "all";
+
+const STATUS_FILTERS: StatusFilter[] = ["all", "open", "done"];
+
+/** URL parameters that keep the filters, e.g. `?status=done&month=2026-02&lang=en`. */
+const STATUS_PARAM = "status";
+const MONTH_PARAM = "month";
+const LANGUAGE_PARAM = "lang";
+
+interface Filters {
+  status: StatusFilter;
+  /** Month as "YYYY-MM", or "" for all months. */
+  month: string;
+  /** Language the plans are written in, or "" for all. */
+  language: Locale | "";
+}
+
+const DEFAULT_FILTERS: Filters = { status: "all", month: "", language: "" };
+
+/** Reads the filters from the URL, ignoring unknown values. */
+function readFilterParams(months: string[]): Filters {
+  const params = new URLSearchParams(window.location.search);
+  const status = params.get(STATUS_PARAM);
+  const month = params.get(MONTH_PARAM) ?? "";
+  const language = params.get(LANGUAGE_PARAM);
+  return {
+    status: STATUS_FILTERS.includes(status as StatusFilter) ? (status as StatusFilter) : "all",
+    month: months.includes(month) ? month : "",
+    language: isLocale(language) ? language : "",
+  };
+}
+
+/** Writes the filters to the URL without adding history entries. */
+function writeFilterParams(filters: Filters) {
+  const url = new URL(window.location.href);
+  if (filters.status === "all") url.searchParams.delete(STATUS_PARAM);
+  else url.searchParams.set(STATUS_PARAM, filters.status);
+  if (filters.month) url.searchParams.set(MONTH_PARAM, filters.month);
+  else url.searchParams.delete(MONTH_PARAM);
+  if (filters.language) url.searchParams.set(LANGUAGE_PARAM, filters.language);
+  else url.searchParams.delete(LANGUAGE_PARAM);
+  window.history.replaceState(null, "", url);
+}
+
+/** Formats "YYYY-MM" as a month label, e.g. "February 2026". */
+function formatMonth(month: string, locale: Locale): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(intlLocale(locale), {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+interface PlansIndexProps {
+  /** All plans, open ones first, each group newest first. */
+  plans: PlanEntry[];
+  /** Locale for the labels and links. */
+  locale?: Locale;
+}
+
+/**
+ * Filterable list of all development plans on the /plans page.
+ *
+ * Filters by status, by month of the plan date and by the language a plan
+ * is written in; all are kept in the URL so a filtered list can be linked.
+ */
+export default function PlansIndex({ plans, locale = DEFAULT_LOCALE }: PlansIndexProps) {
+  const t = getMessages(locale).plans;
+  const languageNames = new Intl.DisplayNames(intlLocale(locale), { type: "language" });
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+
+  const months = useMemo(
+    () => [...new Set(plans.map((plan) => plan.date.slice(0, 7)))].sort().reverse(),
+    [plans],
+  );
+
+  // Filters from the URL are applied after hydration (the static HTML shows all plans)
+  useEffect(() => {
+    setFilters(readFilterParams(months));
+  }, [months]);
+
+  const update = (changes: Partial<Filters>) => {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+    writeFilterParams(next);
+  };
+
+  const visible = plans.filter(
+    (plan) =>
+      (filters.status === "all" || plan.status === filters.status) &&
+      (!filters.month || plan.date.startsWith(filters.month)) &&
+      (!filters.language || plan.locale === filters.language),
+  );
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-1 rounded-lg border border-border bg-frosted-glass p-1 backdrop-blur-xl" role="group" aria-label={t.status}>
+          {STATUS_FILTERS.map((status) => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => update({ status })}
+              aria-pressed={filters.status === status}
+              className={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                filters.status === status ? "bg-accent text-background" : "text-muted hover:bg-accent/10 hover:text-foreground"
+              }`}
+            >
+              {t[status]}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-muted">
+          <Icon name="calendar" size={18} className="text-accent" />
+          <span className="sr-only">{t.month}</span>
+          <select
+            value={filters.month}
+            onChange={(event) => update({ month: event.target.value })}
+            className="rounded-lg border border-border bg-frosted-glass px-3 py-1.5 text-sm text-foreground backdrop-blur-xl"
+          >
+            <option value="">{t.allMonths}</option>
+            {months.map((month) => (
+              <option key={month} value={month}>
+                {formatMonth(month, locale)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-muted">
+          <span className="sr-only">{t.language}</span>
+          <select
+            value={filters.language}
+            onChange={(event) => update({ language: isLocale(event.target.value) ? event.target.value : "" })}
+            className="rounded-lg border border-border bg-frosted-glass px-3 py-1.5 text-sm text-foreground backdrop-blur-xl"
+          >
+            <option value="">{t.allLanguages}</option>
+            {LOCALES.map((option) => (
+              <option key={option} value={option}>
+                {languageNames.of(option) ?? option}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <span className="ml-auto font-mono text-sm text-muted" aria-live="polite">
+          {t.count(visible.length, plans.length)}
+        </span>
+      </div>
+
+      {/* Plan list */}
+      {visible.length === 0 ? (
+        <div className="rounded-xl border border-border bg-frosted-glass p-8 text-center backdrop-blur-xl">
+          <p className="text-lg text-muted">{t.noMatch}</p>
+          <button
+            type="button"
+            onClick={() => update(DEFAULT_FILTERS)}
+            className="mt-4 text-accent underline hover:no-underline"
+          >
+            {t.resetFilters}
+          </button>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {visible.map((plan) => (
+            <li key={plan.slug}>
+              <a
+                href={localePath(locale, `/plans/${plan.slug}`)}
+                className="block rounded-xl border border-border bg-frosted-glass p-5 backdrop-blur-xl transition-colors hover:border-accent/50"
+              >
+                <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                  <span className="font-mono text-sm text-muted/60">{plan.date}</span>
+                  <PlanStatusBadge status={plan.status} locale={locale} />
+                  <PlanLanguageBadge planLocale={plan.locale} locale={locale} />
+                  <h2 className="basis-full text-xl font-semibold text-foreground sm:basis-auto" lang={plan.locale}>{plan.title}</h2>
+                </div>
+                <TaskProgressBar tasks={plan.tasks} locale={locale} className="mt-3 max-w-md" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
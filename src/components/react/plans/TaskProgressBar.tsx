@@ -0,0 +1,42 @@
+import { taskRatio, type TaskProgress } from "../../../lib/plans";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "../../../i18n";
+
+interface TaskProgressBarProps {
+  /** Checklist items of the plan. */
+  tasks: TaskProgress;
+  /** Locale for the labels. */
+  locale?: Locale;
+  /** Extra classes for the wrapper (e.g. a width). */
+  className?: string;
+}
+
+/**
+ * Thin progress bar with a "done/total tasks" label for a plan's checklist.
+ * Renders nothing for plans without checklist items.
+ */
+export default function TaskProgressBar({ tasks, locale = DEFAULT_LOCALE, className = "" }: TaskProgressBarProps) {
+  const ratio = taskRatio(tasks);
+  if (ratio === null) return null;
+
+  const t = getMessages(locale).plans;
+  const percent = Math.round(ratio * 100);
+
+  return (
+    <div className={`flex items-center gap-3 ${className}`}>
+      <div
+        className="h-2 flex-1 overflow-hidden rounded-full bg-accent/10"
+        role="progressbar"
+        aria-label={t.progress}
+        aria-valuemin={0}
+        aria-valuemax={tasks.total}
+        aria-valuenow={tasks.done}
+      >
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${ratio === 1 ? "bg-accent" : "bg-accent-secondary"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="shrink-0 font-mono text-sm text-muted">{t.tasks(tasks.done, tasks.total)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { markdownComponents } from "../plans/PlanMarkdown";
+import { resolveReleaseUrl } from "../../../lib/releases";
+
+interface ReleaseNotesProps {
+  /** Markdown of the release notes. */
+  markdown: string;
+}
+
+/** Plan document styles; notes may use `#` headings, which render like `##` below the page title. */
+const components = markdownComponents(resolveReleaseUrl);
+components.h1 = components.h2;
+
+/**
+ * Renders the notes of a release with GitHub Flavored Markdown, styled like
+ * the plan documents. Rendered at build time on the release pages, so it
+ * ships no JavaScript.
+ */
+export default function ReleaseNotes({ markdown }: ReleaseNotesProps) {
+  return (
+    <div className="text-lg text-muted">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+}
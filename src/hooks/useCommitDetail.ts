@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { browserGitHubClient, failureOf, type GitHubFailure } from "../lib/github-client";
+import { fetchCommitDetail, type CommitDetail } from "../lib/commit-detail";
+
+/** Return type of the commit detail hook. */
+export interface UseCommitDetailReturn {
+  detail: CommitDetail | null;
+  loading: boolean;
+  /** Why the request failed, or null. */
+  error: GitHubFailure | null;
+}
+
+/**
+ * Details loaded during this page view, by SHA. A commit never changes, so
+ * reopening one needs no request; across page loads the GitHub client's
+ * conditional requests keep it cheap. Details whose pull request lookup
+ * failed are not kept, so reopening them tries the lookup again.
+ */
+const loadedDetails = new Map<string, CommitDetail>();
+
+/**
+ * Loads a commit's changed files and pull requests once `enabled` turns
+ * true (the detail view is opened), not before.
+ */
+export function useCommitDetail(sha: string, enabled: boolean): UseCommitDetailReturn {
+  const [detail, setDetail] = useState<CommitDetail | null>(() => loadedDetails.get(sha) ?? null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<GitHubFailure | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const cached = loadedDetails.get(sha);
+    if (cached) {
+      setDetail(cached);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    fetchCommitDetail(browserGitHubClient(), sha, controller.signal)
+      .then((result) => {
+        if (!result.pullRequestsFailure) loadedDetails.set(sha, result);
+        setDetail(result);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(failureOf(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [sha, enabled]);
+
+  return { detail, loading, error };
+}
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { browserGitHubClient, failureOf, type GitHubFailure } from "../lib/github-client";
+import { COMMITS_PER_PAGE, fetchCommitPage, historyQueryKey, mergeCommits, type CommitHistoryQuery } from "../lib/commit-history";
+import type { CommitEntry } from "../lib/github-stats";
+
+/** How long loaded pages are served without revalidating the first one (milliseconds). */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Key used to persist loaded history pages in localStorage. */
+const CACHE_KEY = "tuikit-commit-history";
+
+/** Most queries (filter combinations) kept in the cache; the least recently fetched are dropped. */
+const MAX_CACHED_QUERIES = 5;
+
+/** Most commits kept per query (a multiple of COMMITS_PER_PAGE). */
+const MAX_CACHED_COMMITS = 10 * COMMITS_PER_PAGE;
+
+/** Loaded part of a query's history. */
+interface HistoryData {
+  commits: CommitEntry[];
+  /** Next page to request, or null once the oldest commit is loaded. */
+  nextPage: number | null;
+}
+
+/** Shape of a localStorage cache entry (one per query). */
+interface CacheEntry {
+  data: HistoryData;
+  fetchedAt: number;
+}
+
+/** Return type of the commit history hook. */
+export interface UseCommitHistoryReturn {
+  /** Loaded commits of the query, newest first. */
+  commits: CommitEntry[];
+  /** Whether the first page is loading (nothing to show yet). */
+  loading: boolean;
+  /** Whether a further page is loading. */
+  loadingMore: boolean;
+  /** Whether there are older commits to load. */
+  hasMore: boolean;
+  /** Why the last request failed, or null. */
+  error: GitHubFailure | null;
+  /** Loads the next page (ignored while loading or when everything is loaded). */
+  loadMore: () => void;
+  /** Whether the commits were served from localStorage cache. */
+  isFromCache: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// localStorage helpers: all reads/writes are wrapped in try/catch to handle
+// Safari Private Mode, full storage, or disabled storage gracefully.
+// ---------------------------------------------------------------------------
+
+/** Read and validate all cached queries from localStorage. */
+function readCache(): Record<string, CacheEntry> {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, CacheEntry>;
+    if (!parsed || typeof parsed !== "object") {
+      localStorage.removeItem(CACHE_KEY);
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        ([, entry]) => entry && typeof entry.fetchedAt === "number" && Array.isArray(entry.data?.commits),
+      ),
+    );
+  } catch {
+    // Corrupt data or storage unavailable: clear and move on
+    try {
+      localStorage.removeItem(CACHE_KEY);
+    } catch {
+      /* ignore */
+    }
+    return {};
+  }
+}
+
+/** Persist a query's loaded history with a timestamp, keeping the most recent queries. */
+function writeCache(key: string, data: HistoryData): number {
+  const fetchedAt = Date.now();
+  const stored: HistoryData =
+    data.commits.length > MAX_CACHED_COMMITS
+      ? { commits: data.commits.slice(0, MAX_CACHED_COMMITS), nextPage: MAX_CACHED_COMMITS / COMMITS_PER_PAGE + 1 }
+      : data;
+  const entries = Object.entries({ ...readCache(), [key]: { data: stored, fetchedAt } })
+    .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+    .slice(0, MAX_CACHED_QUERIES);
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch {
+    /* Storage full or unavailable: silently continue without cache */
+  }
+  return fetchedAt;
+}
+
+/**
+ * Pages through the commit history for a query (author, date range), with
+ * the loaded pages cached in localStorage like `useGitHubStatsCache` does
+ * with the stats.
+ *
+ * Switching to a query with cached pages shows them right away; if they are
+ * older than 5 minutes, the first page is fetched again and new commits are
+ * put in front. `loadMore` appends the next page. All requests go through
+ * the shared GitHub client (conditional requests, rate-limit backoff).
+ *
+ * Nothing is fetched while `enabled` is false (the history view is closed).
+ */
+export function useCommitHistory(query: CommitHistoryQuery, enabled = true): UseCommitHistoryReturn {
+  const key = historyQueryKey(query);
+  const [data, setData] = useState<HistoryData>({ commits: [], nextPage: 1 });
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<GitHubFailure | null>(null);
+  const [isFromCache, setIsFromCache] = useState(false);
+
+  // The query the shown data belongs to: results of an earlier query are dropped
+  const keyRef = useRef(key);
+  const queryRef = useRef(query);
+  // Latest shown data, so a loaded page is merged into what is on screen when it arrives
+  const dataRef = useRef(data);
+
+  // Declared first, so the effects below see this render's query and data
+  useEffect(() => {
+    queryRef.current = query;
+    dataRef.current = data;
+  });
+
+  // -------------------------------------------------------------------------
+  // Query change: serve cached pages, revalidate or fetch the first page
+  // -------------------------------------------------------------------------
+
+  useEffect(() => {
+    if (!enabled) return;
+    keyRef.current = key;
+    const controller = new AbortController();
+    const cached = readCache()[key];
+
+    setError(null);
+    setLoadingMore(false);
+    const initial = cached ? cached.data : { commits: [], nextPage: 1 };
+    // Set right away: the first page may arrive before the next render
+    dataRef.current = initial;
+    setData(initial);
+    setIsFromCache(!!cached);
+    setLoading(!cached);
+    if (cached && Date.now() - cached.fetchedAt < REFRESH_INTERVAL_MS) return;
+
+    fetchCommitPage(browserGitHubClient(), queryRef.current, 1, controller.signal)
+      .then((page) => {
+        // New commits first; older pages from the cache, or loaded while revalidating, stay loaded
+        const current = dataRef.current;
+        const next: HistoryData =
+          current.commits.length > 0
+            ? { commits: mergeCommits(page.commits, current.commits), nextPage: current.nextPage }
+            : { commits: page.commits, nextPage: page.hasMore ? 2 : null };
+        dataRef.current = next;
+        writeCache(key, next);
+        setData(next);
+        setIsFromCache(false);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(failureOf(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [key, enabled]);
+
+  // -------------------------------------------------------------------------
+  // Next page
+  // -------------------------------------------------------------------------
+
+  const loadMore = useCallback(() => {
+    if (loading || loadingMore || data.nextPage === null) return;
+    const requestKey = key;
+    const page = data.nextPage;
+
+    setLoadingMore(true);
+    setError(null);
+    fetchCommitPage(browserGitHubClient(), queryRef.current, page)
+      .then((result) => {
+        if (keyRef.current !== requestKey) return;
+        const next: HistoryData = {
+          commits: mergeCommits(dataRef.current.commits, result.commits),
+          nextPage: result.hasMore ? page + 1 : null,
+        };
+        dataRef.current = next;
+        setData(next);
+        writeCache(requestKey, next);
+      })
+      .catch((err) => {
+        if (keyRef.current === requestKey) setError(failureOf(err));
+      })
+      .finally(() => {
+        if (keyRef.current === requestKey) setLoadingMore(false);
+      });
+  }, [key, loading, loadingMore, data.nextPage]);
+
+  return {
+    commits: data.commits,
+    loading,
+    loadingMore,
+    hasMore: data.nextPage !== null,
+    error,
+    loadMore,
+    isFromCache,
+  };
+}
@@ -2,6 +2,8 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useGitHubStats, type GitHubStats } from "./useGitHubStats";
+import { browserGitHubClient, failureOf, type GitHubFailure } from "../lib/github-client";
+import { STATS_SNAPSHOT_FILE, type GitHubStatsSnapshot } from "../lib/github-stats";
 
 /** How often fresh data is fetched automatically (milliseconds). */
 const REFRESH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
@@ -9,6 +11,12 @@ const REFRESH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 /** Minimum time between force-refresh clicks (milliseconds). */
 const FORCE_REFRESH_COOLDOWN_MS = 60 * 1000; // 60 seconds
 
+/**
+ * Requests a live refresh can cost (REST path, without a token). A refresh
+ * only starts while at least this much of the visitor's rate limit is left.
+ */
+export const LIVE_FETCH_BUDGET = 17;
+
 /** Key used to persist cached stats in localStorage. */
 const CACHE_KEY = "tuikit-dashboard-cache";
 
@@ -32,6 +40,8 @@ export interface UseGitHubStatsCacheReturn extends GitHubStats {
   isFromCache: boolean;
   /** Whether a background refresh is in progress (for showing a subtle indicator). */
   isRefreshing: boolean;
+  /** Why the last refresh failed, so the shown data is stale; null after a successful refresh. */
+  staleReason: GitHubFailure | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -72,15 +82,51 @@ function writeCache(data: GitHubStats): number {
   return fetchedAt;
 }
 
+/** Load the build-time snapshot (public/data/github-stats.json), or null if unavailable. */
+async function readSnapshot(): Promise<GitHubStatsSnapshot | null> {
+  try {
+    const response = await fetch(`/${STATS_SNAPSHOT_FILE}`);
+    if (!response.ok) return null;
+    const snapshot = (await response.json()) as GitHubStatsSnapshot;
+    return typeof snapshot.generatedAt === "string" ? snapshot : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Unix timestamp (ms) until which the visitor's rate limit cannot pay for a
+ * live refresh, or null if it can. Uses the client's state, or the rate limit
+ * stored with the cached stats on a fresh page load.
+ */
+function budgetExhaustedUntil(cached: CacheEntry | null): number | null {
+  const client = browserGitHubClient();
+  const blockedUntil = client.blockedUntil();
+  if (blockedUntil !== null) return blockedUntil;
+
+  const rateLimit = client.rateLimit() ?? cached?.data.rateLimit;
+  if (rateLimit?.resetAt && rateLimit.resetAt > Date.now() && rateLimit.remaining < LIVE_FETCH_BUDGET) {
+    return rateLimit.resetAt;
+  }
+  return null;
+}
+
 /**
  * Caching wrapper around `useGitHubStats` that prevents redundant API calls.
  *
  * On mount the hook checks localStorage for a recent cache entry (< 5 min old).
  * If valid cached data exists it is served immediately: no GitHub API call.
+ * Otherwise the newer of the stale cache entry and the build-time snapshot
+ * (refreshed by the scheduled workflow) is shown right away and revalidated
+ * live, but only while the visitor has rate-limit budget left.
  * A background interval automatically refreshes data every 5 minutes.
  *
  * The `forceRefresh` function bypasses the cache but enforces a 60-second
  * cooldown to prevent accidental rate-limit exhaustion.
+ *
+ * When a refresh hits the rate limit, the auto-refresh is rescheduled for
+ * the moment the limit resets (`X-RateLimit-Reset`) and `staleReason`
+ * tells the UI why the data is not current.
  */
 export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
   // Skip the automatic fetch on mount: we decide whether to fetch based on cache freshness
@@ -91,7 +137,9 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
   const [nextRefreshAt, setNextRefreshAt] = useState<number | null>(null);
   const [isFromCache, setIsFromCache] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [staleReason, setStaleReason] = useState<GitHubFailure | null>(null);
 
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const initializedRef = useRef(false);
 
@@ -104,7 +152,26 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
   // Core fetch + cache-write logic
   // -------------------------------------------------------------------------
 
+  /** Clears pending refresh timers. */
+  const clearSchedule = useCallback(() => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    if (intervalRef.current) clearInterval(intervalRef.current);
+    timeoutRef.current = null;
+    intervalRef.current = null;
+  }, []);
+
+  // Lets doFetchAndCache reschedule itself (scheduleRefresh is defined in terms of it)
+  const scheduleRef = useRef<(delay: number) => void>(() => {});
+
   const doFetchAndCache = useCallback(async () => {
+    // Not enough rate limit left: keep the current data and wait for the reset
+    const exhaustedUntil = budgetExhaustedUntil(readCache());
+    if (exhaustedUntil !== null) {
+      setStaleReason({ reason: "rate-limited", status: null, retryAt: exhaustedUntil, message: "GitHub rate limit nearly exhausted" });
+      scheduleRef.current(exhaustedUntil - Date.now());
+      return;
+    }
+
     setIsRefreshing(true);
     try {
       const freshData = await fetchData();
@@ -112,20 +179,49 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
       setLastFetchedAt(timestamp);
       setNextRefreshAt(timestamp + REFRESH_INTERVAL_MS);
       setIsFromCache(false);
+      setStaleReason(null);
       // Store the fresh data as override with loading: false to prevent skeleton flash
       setOverrideStats({ ...freshData, loading: false });
-    } catch {
-      // On error, keep showing previous data (overrideStats stays as-is)
-      // Errors are also reflected in rawStats.error via useGitHubStats if needed
+    } catch (err) {
+      // On error, keep showing previous data (overrideStats stays as-is) and say why it is stale
+      const failure = failureOf(err);
+      setStaleReason(failure);
+      // Rate limited: don't try again before the limit resets
+      if (failure.reason === "rate-limited" && failure.retryAt !== null) {
+        scheduleRef.current(Math.max(0, failure.retryAt - Date.now()));
+      }
     } finally {
       setIsRefreshing(false);
     }
   }, [fetchData]);
 
+  /** Schedules the next auto-refresh after `delay` ms, then repeats every interval. */
+  const scheduleRefresh = useCallback(
+    (delay: number) => {
+      clearSchedule();
+      setNextRefreshAt(Date.now() + delay);
+      timeoutRef.current = setTimeout(() => {
+        doFetchAndCache();
+        intervalRef.current = setInterval(() => {
+          doFetchAndCache();
+        }, REFRESH_INTERVAL_MS);
+      }, delay);
+    },
+    [clearSchedule, doFetchAndCache],
+  );
+  scheduleRef.current = scheduleRefresh;
+
   // -------------------------------------------------------------------------
   // Mount: check cache: serve cached data or trigger a fresh fetch
   // -------------------------------------------------------------------------
 
+  /** Shows stored stats (cache entry or snapshot) without fetching. */
+  const serveStored = useCallback((data: GitHubStats, fetchedAt: number) => {
+    setOverrideStats({ ...data, loading: false, error: null });
+    setLastFetchedAt(fetchedAt);
+    setIsFromCache(true);
+  }, []);
+
   useEffect(() => {
     if (initializedRef.current) return;
     initializedRef.current = true;
@@ -135,15 +231,21 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
 
     if (cached && now - cached.fetchedAt < REFRESH_INTERVAL_MS) {
       // Cache is fresh: serve it immediately, no API call needed
-      setOverrideStats({ ...cached.data, loading: false, error: null });
-      setLastFetchedAt(cached.fetchedAt);
+      serveStored(cached.data, cached.fetchedAt);
       setNextRefreshAt(cached.fetchedAt + REFRESH_INTERVAL_MS);
-      setIsFromCache(true);
-    } else {
-      // No valid cache: fetch fresh data now
-      doFetchAndCache();
+      return;
     }
-  }, [doFetchAndCache]);
+
+    // No fresh cache: show the newest stored data right away, then revalidate
+    if (cached) serveStored(cached.data, cached.fetchedAt);
+    readSnapshot().then((snapshot) => {
+      const generatedAt = snapshot ? Date.parse(snapshot.generatedAt) : NaN;
+      if (snapshot && (!cached || generatedAt > cached.fetchedAt)) {
+        serveStored(snapshot, generatedAt);
+      }
+      doFetchAndCache();
+    });
+  }, [doFetchAndCache, serveStored]);
 
   // -------------------------------------------------------------------------
   // Auto-refresh: schedule based on remaining TTL, then repeat every interval
@@ -156,29 +258,20 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
     if (timerInitializedRef.current) return;
     timerInitializedRef.current = true;
 
-    // Calculate delay until first refresh based on cache age
+    // Calculate delay until first refresh based on cache age (a stale cache is revalidated on mount)
     const cached = readCache();
     let initialDelay = REFRESH_INTERVAL_MS;
     if (cached) {
       const elapsed = Date.now() - cached.fetchedAt;
       const remaining = REFRESH_INTERVAL_MS - elapsed;
-      initialDelay = Math.max(0, remaining);
+      if (remaining > 0) initialDelay = remaining;
     }
 
-    // First refresh after remaining TTL
-    const timeoutId = setTimeout(() => {
-      doFetchAndCache();
-      // Then repeat every REFRESH_INTERVAL_MS
-      intervalRef.current = setInterval(() => {
-        doFetchAndCache();
-      }, REFRESH_INTERVAL_MS);
-    }, initialDelay);
+    // First refresh after remaining TTL, then every REFRESH_INTERVAL_MS
+    scheduleRefresh(initialDelay);
 
-    return () => {
-      clearTimeout(timeoutId);
-      if (intervalRef.current) clearInterval(intervalRef.current);
-    };
-  }, [doFetchAndCache]);
+    return clearSchedule;
+  }, [scheduleRefresh, clearSchedule]);
 
   // -------------------------------------------------------------------------
   // Force refresh with cooldown
@@ -190,13 +283,13 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
     if (lastFetchedAt !== null && Date.now() - lastFetchedAt < FORCE_REFRESH_COOLDOWN_MS) {
       return; // Cooldown active: ignore
     }
-    // Reset the interval so the next auto-refresh is a full REFRESH_INTERVAL_MS from now
-    if (intervalRef.current) clearInterval(intervalRef.current);
+    // Reset the schedule so the next auto-refresh is a full REFRESH_INTERVAL_MS from now
+    clearSchedule();
     doFetchAndCache();
     intervalRef.current = setInterval(() => {
       doFetchAndCache();
     }, REFRESH_INTERVAL_MS);
-  }, [lastFetchedAt, doFetchAndCache]);
+  }, [lastFetchedAt, doFetchAndCache, clearSchedule]);
 
   // Override loading to false if we already have data: prevents skeleton flash during background refresh
   const statsWithLoadingOverride = hasData
@@ -211,5 +304,33 @@ export function useGitHubStatsCache(): UseGitHubStatsCacheReturn {
     canForceRefresh,
     isFromCache,
     isRefreshing,
+    staleReason,
   };
 }
+
+/**
+ * Star count from the cached stats, or from the build-time snapshot when
+ * nothing is cached, without starting a live refresh. For places that only
+ * mention the stars in passing, like the hero terminal's shell. Null until
+ * one of them has been read.
+ */
+export function useCachedStars(): number | null {
+  const [stars, setStars] = useState<number | null>(null);
+
+  useEffect(() => {
+    const cached = readCache();
+    if (cached) {
+      setStars(cached.data.stars);
+      return;
+    }
+    let cancelled = false;
+    readSnapshot().then((snapshot) => {
+      if (!cancelled && snapshot) setStars(snapshot.stars);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return stars;
+}
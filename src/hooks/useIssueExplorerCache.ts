@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { browserGitHubClient, failureOf, type GitHubFailure } from "../lib/github-client";
+import { fetchExplorerData, fetchReviewStates, type ExplorerData } from "../lib/issue-explorer";
+import { LIVE_FETCH_BUDGET } from "./useGitHubStatsCache";
+
+/** How often fresh data is fetched automatically (milliseconds). */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Requests of an explorer refresh (its six lists). It only starts while the
+ * visitor has this much rate limit left on top of LIVE_FETCH_BUDGET, so the
+ * stats refresh can always follow. Review lookups are not included: they
+ * only use what is left above LIVE_FETCH_BUDGET after the lists.
+ */
+const EXPLORER_FETCH_BUDGET = 6;
+
+/** Key used to persist the explorer data in localStorage. */
+const CACHE_KEY = "tuikit-explorer-cache";
+
+/** Shape of the localStorage cache entry. */
+interface CacheEntry {
+  data: ExplorerData;
+  fetchedAt: number;
+}
+
+/** Return type of the explorer data hook. */
+export interface UseIssueExplorerCacheReturn {
+  /** Open pull requests, issues and metrics, or null until first loaded. */
+  data: ExplorerData | null;
+  /** Whether the first load is in progress (nothing to show yet). */
+  loading: boolean;
+  /** Whether a background refresh is in progress. */
+  isRefreshing: boolean;
+  /** Unix timestamp (ms) of the shown data, or null if none yet. */
+  lastFetchedAt: number | null;
+  /** Whether the shown data was served from localStorage cache. */
+  isFromCache: boolean;
+  /** Why the last refresh failed or was skipped, so the shown data is stale; null after a successful refresh. */
+  staleReason: GitHubFailure | null;
+}
+
+// ---------------------------------------------------------------------------
+// localStorage helpers: all reads/writes are wrapped in try/catch to handle
+// Safari Private Mode, full storage, or disabled storage gracefully.
+// ---------------------------------------------------------------------------
+
+/** Read and validate the cached entry from localStorage. */
+function readCache(): CacheEntry | null {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as CacheEntry;
+    if (!parsed || typeof parsed.fetchedAt !== "number" || !Array.isArray(parsed.data?.pullRequests)) {
+      localStorage.removeItem(CACHE_KEY);
+      return null;
+    }
+    return parsed;
+  } catch {
+    // Corrupt data or storage unavailable: clear and move on
+    try {
+      localStorage.removeItem(CACHE_KEY);
+    } catch {
+      /* ignore */
+    }
+    return null;
+  }
+}
+
+/** Persist explorer data to localStorage with a timestamp. */
+function writeCache(data: ExplorerData): number {
+  const fetchedAt = Date.now();
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ data, fetchedAt }));
+  } catch {
+    /* Storage full or unavailable: silently continue without cache */
+  }
+  return fetchedAt;
+}
+
+/** Unix timestamp (ms) until which the visitor's rate limit cannot pay for a fetch, or null if it can. */
+function budgetExhaustedUntil(): number | null {
+  const client = browserGitHubClient();
+  const blockedUntil = client.blockedUntil();
+  if (blockedUntil !== null) return blockedUntil;
+
+  const rateLimit = client.rateLimit();
+  if (rateLimit?.resetAt && rateLimit.resetAt > Date.now() && rateLimit.remaining < LIVE_FETCH_BUDGET + EXPLORER_FETCH_BUDGET) {
+    return rateLimit.resetAt;
+  }
+  return null;
+}
+
+/** Review lookups the visitor's rate limit pays for while keeping LIVE_FETCH_BUDGET for the stats. */
+function reviewLookupBudget(): number {
+  const client = browserGitHubClient();
+  const rateLimit = client.rateLimit();
+  if (client.blockedUntil() !== null || !rateLimit) return 0;
+  return Math.max(0, rateLimit.remaining - LIVE_FETCH_BUDGET);
+}
+
+/**
+ * Open pull requests and issues with their metrics, cached in localStorage
+ * next to the stats of `useGitHubStatsCache` and with the same 5-minute TTL.
+ *
+ * Cached data is shown right away. Nothing is fetched while `enabled` is
+ * false (the panel has not been scrolled into view yet); then stale or
+ * missing data is fetched, but only while the visitor has enough rate limit
+ * left for it and a stats refresh together, so the explorer never starves
+ * the stats. While the panel is enabled, the data is refreshed every 5 minutes.
+ */
+export function useIssueExplorerCache(enabled = true): UseIssueExplorerCacheReturn {
+  const [data, setData] = useState<ExplorerData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [lastFetchedAt, setLastFetchedAt] = useState<number | null>(null);
+  const [isFromCache, setIsFromCache] = useState(false);
+  const [staleReason, setStaleReason] = useState<GitHubFailure | null>(null);
+  const lastFetchedRef = useRef<number | null>(null);
+  const dataRef = useRef<ExplorerData | null>(null);
+
+  const refresh = useCallback(async () => {
+    // Not enough rate limit left: keep the current data and say why
+    const exhaustedUntil = budgetExhaustedUntil();
+    if (exhaustedUntil !== null) {
+      setStaleReason({ reason: "rate-limited", status: null, retryAt: exhaustedUntil, message: "GitHub rate limit nearly exhausted" });
+      setLoading(false);
+      return;
+    }
+
+    setIsRefreshing(true);
+    try {
+      const client = browserGitHubClient();
+      const lists = await fetchExplorerData(client);
+      const fresh = await fetchReviewStates(client, lists, reviewLookupBudget(), dataRef.current);
+      const timestamp = writeCache(fresh);
+      dataRef.current = fresh;
+      lastFetchedRef.current = timestamp;
+      setData(fresh);
+      setLastFetchedAt(timestamp);
+      setIsFromCache(false);
+      setStaleReason(null);
+    } catch (err) {
+      // Keep showing the previous data and say why it is stale
+      setStaleReason(failureOf(err));
+    } finally {
+      setIsRefreshing(false);
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const cached = readCache();
+    if (!cached) return;
+    lastFetchedRef.current = cached.fetchedAt;
+    dataRef.current = cached.data;
+    setData(cached.data);
+    setLastFetchedAt(cached.fetchedAt);
+    setIsFromCache(true);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Refresh whenever the shown data has outlived the TTL
+    const refreshIfStale = () => {
+      const fetchedAt = lastFetchedRef.current;
+      if (fetchedAt === null || Date.now() - fetchedAt >= REFRESH_INTERVAL_MS) refresh();
+    };
+    refreshIfStale();
+    const timer = setInterval(refreshIfStale, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, refresh]);
+
+  return { data, loading, isRefreshing, lastFetchedAt, isFromCache, staleReason };
+}
@@ -1,19 +1,7 @@
 
 
 import { useState, useEffect } from "react";
-
-interface Plan {
-  date: string;
-  slug: string;
-  title: string;
-  preface: string;
-}
-
-interface PlansData {
-  generated: string;
-  open: Plan[];
-  done: Plan[];
-}
+import type { PlansData } from "../lib/plans";
 
 const CACHE_KEY = "tuikit_plans_cache";
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { STATS_HISTORY_FILE, type StatsHistory } from "../lib/stats-history";
+
+/**
+ * Loads the daily stats history (public/data/stats-history.json) written by
+ * the scheduled data refresh. The file changes at most every 30 minutes, so
+ * the browser's HTTP cache is enough: no localStorage layer.
+ *
+ * `data` stays null if the file is missing (e.g. before the first refresh);
+ * the stat cards then simply show no trend.
+ */
+export function useStatsHistory() {
+  const [data, setData] = useState<StatsHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/${STATS_HISTORY_FILE}`, { signal: controller.signal })
+      .then((response) => (response.ok ? (response.json() as Promise<StatsHistory>) : null))
+      .then((history) => setData(history && Array.isArray(history.dates) ? history : null))
+      .catch(() => {
+        /* No history yet: cards render without trends */
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  return { data, loading };
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
+import { browserGitHubClient } from "../lib/github-client";
+import { FALLBACK_VERSION, fetchVersionChannels, VERSION_CACHE_FILE, type VersionCache, type VersionChannels } from "../lib/versions";
 
 /** localStorage key for version cache. */
 const CACHE_KEY = "tuikit-version-cache";
@@ -9,20 +11,14 @@ const CACHE_DURATION_MS = 24 * 60 * 60 * 1000;
 /** Minimum time between force-refresh clicks (60 seconds). */
 const FORCE_REFRESH_COOLDOWN_MS = 60 * 1000;
 
-/** Fallback version if all sources fail. */
-const FALLBACK_VERSION = "0.3.0";
-
 /** Shape of the localStorage cache entry. */
-interface VersionCacheEntry {
-  version: string;
+interface VersionCacheEntry extends VersionChannels {
   fetchedAt: number;
   source: "api" | "precache" | "build";
 }
 
 /** Return type of the useTUIkitVersion hook. */
-export interface UseTUIkitVersionReturn {
-  /** Current TUIkit version (e.g., "0.3.0"). */
-  version: string;
+export interface UseTUIkitVersionReturn extends VersionChannels {
   /** Whether initial fetch is in progress (false after first resolution). */
   loading: boolean;
   /** API error message if fetch failed, null otherwise. */
@@ -47,7 +43,8 @@ function readCache(): VersionCacheEntry | null {
     const raw = localStorage.getItem(CACHE_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as VersionCacheEntry;
-    if (!parsed || typeof parsed.version !== "string" || typeof parsed.fetchedAt !== "number") {
+    // Entries without `stable` predate the release channels
+    if (!parsed || typeof parsed.stable !== "string" || typeof parsed.fetchedAt !== "number") {
       localStorage.removeItem(CACHE_KEY);
       return null;
     }
@@ -62,11 +59,11 @@ function readCache(): VersionCacheEntry | null {
   }
 }
 
-/** Persist version to localStorage with timestamp and source. */
-function writeCache(version: string, source: "api" | "precache"): number {
+/** Persist the channels to localStorage with timestamp and source. */
+function writeCache(channels: VersionChannels, source: "api" | "precache"): number {
   const fetchedAt = Date.now();
   try {
-    localStorage.setItem(CACHE_KEY, JSON.stringify({ version, fetchedAt, source }));
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ ...channels, fetchedAt, source }));
   } catch {
     /* Storage full or unavailable: silently continue without cache */
   }
@@ -77,50 +74,27 @@ function writeCache(version: string, source: "api" | "precache"): number {
 // Fetching helpers
 // ---------------------------------------------------------------------------
 
-/** Fetch latest TUIkit version from GitHub tags API. */
-async function fetchVersionFromAPI(): Promise<string> {
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-  };
-
-  const token = import.meta.env.PUBLIC_GITHUB_TOKEN;
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-
-  const response = await fetch("https://api.github.com/repos/phranck/TUIkit/tags", { headers });
-
-  if (!response.ok) {
-    throw new Error(`GitHub API ${response.status}: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  if (!Array.isArray(data) || data.length === 0) {
-    throw new Error("No tags found in repository");
-  }
-
-  const version = data[0].name?.replace(/^v/, "");
-  if (!version) {
-    throw new Error("Invalid tag format");
-  }
-
-  return version;
+/** Fetch the latest versions from the GitHub tags API (conditional requests via the shared client). */
+function fetchVersionsFromAPI(): Promise<VersionChannels> {
+  return fetchVersionChannels(browserGitHubClient());
 }
 
-/** Fetch version from pre-cached JSON file. */
-async function fetchVersionFromPreCache(): Promise<string | null> {
+/** Fetch the versions from the pre-cached JSON file. */
+async function fetchVersionsFromPreCache(): Promise<VersionChannels | null> {
   try {
-    const response = await fetch("/version-cache.json");
+    const response = await fetch(`/${VERSION_CACHE_FILE}`);
     if (!response.ok) return null;
-    const data = await response.json();
-    return data.version || null;
+    const data = (await response.json()) as Partial<VersionCache>;
+    return typeof data.stable === "string" ? { stable: data.stable, prerelease: data.prerelease ?? null } : null;
   } catch {
     return null;
   }
 }
 
 /**
- * Hook to fetch and cache the latest TUIkit version from GitHub releases.
+ * Hook to fetch and cache the latest TUIkit versions from the GitHub tags:
+ * the highest stable version and, if there is a newer one, the highest
+ * pre-release (compared as semantic versions, see src/lib/versions.ts).
  *
  * On mount checks localStorage for fresh cache (< 24h old). If valid cache exists
  * it's served immediately. Otherwise falls back to pre-cache JSON, then GitHub API.
@@ -129,9 +103,10 @@ async function fetchVersionFromPreCache(): Promise<string | null> {
  * All localStorage operations are wrapped in try/catch for Safari Private Mode compatibility.
  */
 export function useTUIkitVersion(): UseTUIkitVersionReturn {
-  const [version, setVersion] = useState<string>(
-    import.meta.env.PUBLIC_TUIKIT_VERSION || FALLBACK_VERSION
-  );
+  const [channels, setChannels] = useState<VersionChannels>({
+    stable: import.meta.env.PUBLIC_TUIKIT_VERSION || FALLBACK_VERSION,
+    prerelease: null,
+  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isFromCache, setIsFromCache] = useState(false);
@@ -146,9 +121,9 @@ export function useTUIkitVersion(): UseTUIkitVersionReturn {
   const doFetch = useCallback(async () => {
     setLoading(true);
     try {
-      const apiVersion = await fetchVersionFromAPI();
-      const timestamp = writeCache(apiVersion, "api");
-      setVersion(apiVersion);
+      const apiChannels = await fetchVersionsFromAPI();
+      const timestamp = writeCache(apiChannels, "api");
+      setChannels(apiChannels);
       setLastFetchedAt(timestamp);
       setIsFromCache(false);
       setError(null);
@@ -156,10 +131,10 @@ export function useTUIkitVersion(): UseTUIkitVersionReturn {
       console.warn("Failed to fetch version from GitHub API:", err);
 
       // Fallback to pre-cache
-      const preCacheVersion = await fetchVersionFromPreCache();
-      if (preCacheVersion) {
-        const timestamp = writeCache(preCacheVersion, "precache");
-        setVersion(preCacheVersion);
+      const preCacheChannels = await fetchVersionsFromPreCache();
+      if (preCacheChannels) {
+        const timestamp = writeCache(preCacheChannels, "precache");
+        setChannels(preCacheChannels);
         setLastFetchedAt(timestamp);
         setIsFromCache(false);
         setError(null);
@@ -185,7 +160,7 @@ export function useTUIkitVersion(): UseTUIkitVersionReturn {
 
     if (cached && now - cached.fetchedAt < CACHE_DURATION_MS) {
       // Cache is fresh: serve immediately, no API call
-      setVersion(cached.version);
+      setChannels({ stable: cached.stable, prerelease: cached.prerelease ?? null });
       setLastFetchedAt(cached.fetchedAt);
       setIsFromCache(true);
       setLoading(false);
@@ -207,7 +182,7 @@ export function useTUIkitVersion(): UseTUIkitVersionReturn {
   }, [canForceRefresh, doFetch]);
 
   return {
-    version,
+    ...channels,
     loading,
     error,
     isFromCache,
@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import type { TerminalConfig } from "../lib/terminal-parser";
+
+/** Screen size of the hero terminal in characters. */
+export interface TerminalGeometry {
+  cols: number;
+  rows: number;
+}
+
+/**
+ * Hook for the hero terminal's screen size at the current viewport width.
+ *
+ * Returns the compact `cols` x `rows` grid from terminal-script.md, or the
+ * wide grid (80x24 by default) once the viewport is at least `wideMinWidth`
+ * pixels wide. Follows resizes and rotation via `matchMedia`; renders the
+ * compact grid on the server.
+ */
+export function useTerminalGeometry(config: TerminalConfig): TerminalGeometry {
+  const query = `(min-width: ${config.wideMinWidth}px)`;
+
+  const subscribe = useCallback((onChange: () => void) => {
+    const list = window.matchMedia(query);
+    list.addEventListener("change", onChange);
+    return () => list.removeEventListener("change", onChange);
+  }, [query]);
+
+  const wide = useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(query).matches,
+    () => false,
+  );
+
+  return useMemo(
+    () => (wide ? { cols: config.wideCols, rows: config.wideRows } : { cols: config.cols, rows: config.rows }),
+    [wide, config],
+  );
+}
@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { TerminalScript } from "../lib/terminal-parser";
+import {
+  advancePlayback,
+  createPlayback,
+  enqueueProgram,
+  replaceLastLine,
+  scanTimeline,
+  type EngineProgram,
+  type Playback,
+  type PlaybackTimeline,
+  type ScreenLine,
+} from "../lib/terminal-engine";
+
+/** Options for the playback adapter. */
+export interface UseTerminalPlaybackOptions {
+  /** Whether the terminal is running. Turning it off discards the playback. */
+  active: boolean;
+  cols: number;
+  rows: number;
+  /** Fixed RNG seed (e.g., for debugging). A fresh random seed is used per power-on when omitted. */
+  seed?: number;
+}
+
+/** Return type of the playback adapter hook. */
+export interface UseTerminalPlaybackReturn {
+  /** Current screen buffer. */
+  lines: ScreenLine[];
+  /** Name of the scene currently playing, or null during the UNIX loop. */
+  scene: string | null;
+  /** Whether the session has handed off to the interactive shell. */
+  shell: boolean;
+  /** Whether all queued output has been played (e.g., shell awaiting input). */
+  idle: boolean;
+  /** Whether the virtual clock is paused. */
+  paused: boolean;
+  /** Playback speed multiplier (1 = as scripted). */
+  speed: number;
+  /** Virtual time (ms since power-on) of the last published state. */
+  time: number;
+  /** Scene starts and scripted duration of the current playback, null until `loadTimeline` was called. */
+  timeline: PlaybackTimeline | null;
+  /** Seed of the current playback, to reproduce a session with `seed`. */
+  seed: number | null;
+  pause: () => void;
+  resume: () => void;
+  setSpeed: (speed: number) => void;
+  /** Jumps to `ms` after power-on. Seeking backwards replays the session from its seed. */
+  seek: (ms: number) => void;
+  /** Jumps to the first start of a scene (`null`: the UNIX command loop). Returns false if it never plays. */
+  seekToScene: (scene: string | null) => boolean;
+  /** Replays the session from the beginning, with the same seed. */
+  restart: () => void;
+  /**
+   * Computes `timeline` for the current playback and every later one (a
+   * replay, a new grid size). The scan replays the whole session silently,
+   * so it only runs once the controls need it.
+   */
+  loadTimeline: () => void;
+  /** Queues a program (e.g., a shell response) to play from now on. */
+  run: (program: EngineProgram) => void;
+  /** Replaces the last screen line immediately (e.g., echoing typed input). */
+  setLastLine: (text: string) => void;
+}
+
+/** Snapshot of the playback state that React re-renders from. */
+interface PlaybackView {
+  lines: ScreenLine[];
+  scene: string | null;
+  shell: boolean;
+  idle: boolean;
+  time: number;
+  seed: number | null;
+}
+
+const EMPTY_VIEW: PlaybackView = { lines: [], scene: null, shell: false, idle: false, time: 0, seed: null };
+
+/**
+ * React adapter for the deterministic terminal engine.
+ *
+ * Maps the engine's virtual clock to `performance.now()` and schedules a
+ * single timeout for the moment the next operation is due, instead of
+ * chaining timers per character. Pausing freezes the virtual clock,
+ * seeking moves it (replaying from the seed when going backwards), and
+ * the speed multiplier scales how fast virtual time passes.
+ */
+export function useTerminalPlayback(
+  script: TerminalScript,
+  { active, cols, rows, seed }: UseTerminalPlaybackOptions,
+): UseTerminalPlaybackReturn {
+  const [view, setView] = useState<PlaybackView>(EMPTY_VIEW);
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeedState] = useState(1);
+  const [timeline, setTimeline] = useState<PlaybackTimeline | null>(null);
+
+  const playbackRef = useRef<Playback | null>(null);
+  /** Virtual clock anchor: virtual time `anchor.virtual` was reached at `performance.now()` = `anchor.real`. */
+  const anchorRef = useRef({ real: 0, virtual: 0 });
+  const speedRef = useRef(1);
+  /** Virtual time the clock stopped at, or null while running. */
+  const pausedAtRef = useRef<number | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Latest tick function, so callbacks can reschedule without re-creating the effect. */
+  const tickRef = useRef<() => void>(() => {});
+  /** Whether the timeline was ever requested, and whether it was scanned for the current playback. */
+  const timelineWantedRef = useRef(false);
+  const timelineScannedRef = useRef(false);
+
+  /** Current virtual time in ms. */
+  const now = useCallback(() => {
+    if (pausedAtRef.current !== null) return pausedAtRef.current;
+    const anchor = anchorRef.current;
+    return anchor.virtual + (performance.now() - anchor.real) * speedRef.current;
+  }, []);
+
+  /** Re-anchors the clock so virtual time `virtual` is now. */
+  const setClock = useCallback((virtual: number) => {
+    anchorRef.current = { real: performance.now(), virtual };
+    if (pausedAtRef.current !== null) pausedAtRef.current = virtual;
+  }, []);
+
+  /** Scans the current playback's timeline if it was requested and not scanned yet. */
+  const scanIfWanted = useCallback(() => {
+    const playback = playbackRef.current;
+    if (!playback || !timelineWantedRef.current || timelineScannedRef.current) return;
+    timelineScannedRef.current = true;
+    setTimeline(scanTimeline(script, playback.options));
+  }, [script]);
+
+  /** Publishes the engine state to React. */
+  const publish = useCallback((playback: Playback) => {
+    const { lines, scene, shell, idle, time } = playback.state;
+    setView({ lines, scene, shell, idle, time, seed: playback.options.seed });
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const playbackSeed = seed ?? Math.floor(Math.random() * 2 ** 32);
+    const playback = createPlayback(script, { cols, rows, seed: playbackSeed });
+    playbackRef.current = playback;
+    pausedAtRef.current = null;
+    setClock(0);
+    timelineScannedRef.current = false;
+
+    const tick = () => {
+      const current = playbackRef.current;
+      if (!current) return;
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+
+      const { revision, idle, scene } = current.state;
+      advancePlayback(current, now());
+      const { state } = current;
+      if (state.revision !== revision || state.idle !== idle || state.scene !== scene) publish(current);
+
+      // Timeline requested before this playback started (a deep link, or the controls before a re-flow)
+      scanIfWanted();
+
+      if (pausedAtRef.current === null && !current.state.idle) {
+        const delay = (current.state.resumeAt - now()) / speedRef.current;
+        timerRef.current = setTimeout(tick, Math.max(0, delay));
+      }
+    };
+    tickRef.current = tick;
+    // First tick on the next task, so no state is set synchronously in the effect
+    timerRef.current = setTimeout(tick, 0);
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+      playbackRef.current = null;
+      tickRef.current = () => {};
+      setView(EMPTY_VIEW);
+      setPaused(false);
+      setTimeline(null);
+      speedRef.current = 1;
+      setSpeedState(1);
+    };
+  }, [active, script, cols, rows, seed, now, setClock, publish, scanIfWanted]);
+
+  const pause = useCallback(() => {
+    if (pausedAtRef.current !== null) return;
+    pausedAtRef.current = now();
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    setPaused(true);
+  }, [now]);
+
+  const resume = useCallback(() => {
+    const pausedAt = pausedAtRef.current;
+    if (pausedAt === null) return;
+    pausedAtRef.current = null;
+    setClock(pausedAt);
+    setPaused(false);
+    tickRef.current();
+  }, [setClock]);
+
+  const setSpeed = useCallback((next: number) => {
+    if (next <= 0) return;
+    setClock(now());
+    speedRef.current = next;
+    setSpeedState(next);
+    tickRef.current();
+  }, [now, setClock]);
+
+  const seek = useCallback((ms: number) => {
+    const current = playbackRef.current;
+    if (!current) return;
+    const target = Math.max(0, ms);
+    if (target < current.state.time) {
+      // The engine only moves forward: replay the session from the same seed
+      playbackRef.current = createPlayback(script, current.options);
+    }
+    setClock(target);
+    const playback = playbackRef.current;
+    if (!playback) return;
+    advancePlayback(playback, target);
+    publish(playback);
+    tickRef.current();
+  }, [script, setClock, publish]);
+
+  const seekToScene = useCallback((scene: string | null) => {
+    const mark = timeline?.marks.find((candidate) => candidate.scene === scene);
+    if (!mark) return false;
+    seek(mark.time);
+    return true;
+  }, [timeline, seek]);
+
+  const restart = useCallback(() => seek(0), [seek]);
+
+  const loadTimeline = useCallback(() => {
+    timelineWantedRef.current = true;
+    scanIfWanted();
+  }, [scanIfWanted]);
+
+  const run = useCallback((program: EngineProgram) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    advancePlayback(playback, now());
+    enqueueProgram(playback, program);
+    tickRef.current();
+  }, [now]);
+
+  const setLastLine = useCallback((text: string) => {
+    const playback = playbackRef.current;
+    if (!playback) return;
+    replaceLastLine(playback, text);
+    publish(playback);
+  }, [publish]);
+
+  return {
+    ...view,
+    paused,
+    speed,
+    timeline,
+    pause,
+    resume,
+    setSpeed,
+    seek,
+    seekToScene,
+    restart,
+    loadTimeline,
+    run,
+    setLastLine,
+  };
+}
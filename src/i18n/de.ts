@@ -0,0 +1,409 @@
+import type { Messages } from "./en";
+
+/** German site copy. Product names, API names and shell commands stay in English. */
+const de: Messages = {
+  meta: {
+    title: "TUIkit: Terminal-UI-Framework für Swift",
+    description: "Ein deklaratives Framework im Stil von SwiftUI für Terminal-Oberflächen in Swift. Reines Swift, ohne ncurses oder C-Abhängigkeiten.",
+    socialDescription: "Terminal-Apps mit SwiftUI-ähnlicher Syntax bauen. Reines Swift, kein ncurses.",
+    dashboardTitle: "Dashboard | TUIkit",
+    dashboardDescription: "Live-Kennzahlen von GitHub für das Swift-Framework TUIkit",
+  },
+  skipToContent: "Zum Hauptinhalt springen",
+  nav: {
+    label: "Hauptnavigation",
+    logoAlt: "TUIkit-Logo",
+    dashboard: "Dashboard",
+    plans: "Pläne",
+    releases: "Releases",
+    docs: "Doku",
+    github: "GitHub",
+    openMenu: "Menü öffnen",
+    closeMenu: "Menü schließen",
+    language: "Sprache",
+  },
+  footer: {
+    madeIn: "Mit ❤️ gemacht in Bregenz",
+    lake: "am Bodensee",
+    country: "Österreich",
+  },
+  home: {
+    headline: "Terminal-UIs auf die Swift-Art",
+    intro: "Ein deklaratives Framework im Stil von SwiftUI für Terminal-Oberflächen. Reines Swift auf macOS und Linux, ohne ncurses oder C-Abhängigkeiten.",
+    readDocs: "Zur Dokumentation",
+    viewOnGitHub: "Auf GitHub ansehen",
+    getStarted: {
+      title: "In Sekunden startklar",
+      text: "Füge TUIkit als Abhängigkeit zu deinem Swift-Package hinzu. Kein ncurses, keine C-Bibliotheken, kein aufwendiges Setup. Einfach reines Swift, das auf macOS und Linux läuft.",
+      requirement: "Versionsanforderung",
+      channel: "Release-Kanal",
+      requirements: {
+        from: "Diese Version oder eine spätere bis zur nächsten Major-Version",
+        exact: "Genau diese Version",
+        branch: "Der neueste Commit auf dem main-Branch",
+      },
+    },
+    cli: {
+      title: "Projekt-Generator (CLI)",
+      text: 'Der Installer fügt deinem System den Befehl <code class="text-foreground">tuikit</code> hinzu. Er erkennt deine Plattform, installiert nach <code class="text-foreground">/usr/local/bin</code> oder <code class="text-foreground">~/.local/bin</code> und bietet unter Linux an, Swift bei Bedarf mitzuinstallieren.',
+      then: "Danach legst du Projekte mit optionalen Features an:",
+      basic: "Einfache App",
+      git: "Mit Git-Repository",
+      sqlite: "Mit SQLiteData",
+      testing: "Mit Swift Testing",
+      combine: 'Optionen lassen sich kombinieren: <code class="text-foreground">tuikit init git sqlite testing MyApp</code>',
+    },
+    features: {
+      title: "Alles, was du brauchst",
+      text: "Von Grund auf für das Terminal gebaut, mit APIs, die du schon aus SwiftUI kennst.",
+      declarative: {
+        title: "Deklarative Syntax",
+        description: "Baue Oberflächen mit VStack, HStack, Text, Button und mehr. Dieselben Muster, die du aus SwiftUI kennst.",
+      },
+      theming: {
+        title: "Theming-System",
+        description: "Mehrere eingebaute Phosphor-Themes mit voller RGB-Farbunterstützung. Zur Laufzeit wechseln oder eigene Paletten erstellen.",
+      },
+      keyboard: {
+        title: "Tastaturgesteuert",
+        description: "Fokus-Verwaltung, Key-Event-Handler und eine anpassbare Statusleiste mit Tastenkürzel-Anzeige.",
+      },
+      components: {
+        title: "Umfangreiche Komponenten",
+        description: "Panel, Card, Dialog, Alert, Menu, Button und ForEach. Container und interaktive Views direkt einsatzbereit.",
+      },
+      dependencies: {
+        title: "Keine Abhängigkeiten",
+        description: "Reines Swift. Kein ncurses, keine C-Bibliotheken. Swift-Package hinzufügen und loslegen.",
+      },
+      platforms: {
+        title: "Plattformübergreifend",
+        description: "Läuft auf macOS und Linux. Gleicher Code, gleiche API, gleiche Ergebnisse.",
+      },
+    },
+    architecture: {
+      title: "Sauber gebaut",
+      concurrency: {
+        title: "Swift 6.0 + Strict Concurrency",
+        text: "Vollständig Sendable-konform. Keine Data Races, keine unsicheren Globals. Modernes Swift von oben bis unten.",
+      },
+      borders: {
+        title: "5 Rahmen-Stile",
+        text: "Linie, abgerundet, doppelt, fett und Block. Umschalten mit einem einzigen Tastendruck.",
+      },
+      tests: {
+        title: "Umfassend getestet",
+        text: "Breite Testabdeckung über Views, Modifier, Rendering, State-Management, i18n-Konsistenz und Lokalisierung.",
+      },
+      docs: {
+        title: "13 DocC-Artikel",
+        text: "Architektur-Leitfäden, API-Referenzen, Theming, Fokus-System, Tastenkürzel und Paletten-Dokumentation.",
+      },
+    },
+    cta: {
+      title: "Bereit loszulegen?",
+      text: "Starte mit TUIkit in wenigen Minuten. Package hinzufügen, erste View schreiben, ausführen.",
+      guide: "Einstiegsanleitung",
+      browseDocs: "Dokumentation durchsuchen",
+    },
+    terminal: {
+      powerOn: "Einschalten",
+      powerOff: "Ausschalten",
+      powerOnLabel: "Terminal einschalten",
+      powerOffLabel: "Terminal ausschalten",
+      command: "Terminal-Befehl",
+      play: "Start",
+      pause: "Pause",
+      restart: "Neustart",
+      restartTitle: "Neu starten ab dem Einschalten",
+      skipTo: (scene: string) => `Springe zu ${scene}`,
+      speed: "Wiedergabetempo",
+      speedLabel: (speed: number, next: number) => `Wiedergabetempo ${speed}×, auf ${next}× wechseln`,
+      position: "Wiedergabeposition",
+      script: "Skript",
+      scriptTitle: "Geskriptete Sitzung",
+      playRecording: (title: string, width: number, height: number) => `Aufnahme abspielen: ${title} (${width}×${height})`,
+      fits: { scale: "skalieren", crop: "zuschneiden" },
+      fit: (fit: string) => `Anpassen: ${fit}`,
+      fitLabel: (fit: string, next: string) => `Aufnahme anpassen: ${fit}, auf ${next} wechseln`,
+      fitTitle: "Die ganze Aufnahme verkleinern oder auf den Bildschirm zuschneiden",
+    },
+  },
+  dashboard: {
+    title: "Projekt-Dashboard",
+    liveMetrics: "Live-Kennzahlen",
+    refreshing: "Daten werden aktualisiert",
+    error: "Fehler:",
+    willRetry: "Neuer Versuch folgt automatisch",
+    stars: "Sterne",
+    contributors: "Mitwirkende",
+    forks: "Forks",
+    releases: "Releases",
+    commits: "Commits",
+    openIssues: "Offene Issues",
+    openPRs: "Offene PRs",
+    mergedPRs: "Gemergte PRs",
+    stargazers: "Stargazer",
+    contributorsPanel: {
+      title: "Top-Mitwirkende",
+      computing: "GitHub berechnet die Zeilenstatistik noch; sie erscheint bei der nächsten Aktualisierung.",
+      rank: "#",
+      contributor: "Mitwirkende",
+      commits: "Commits",
+      lines: "Zeilen",
+      active: "Aktiv",
+      activity: (weeks: number) => `Letzte ${weeks} Wochen`,
+      weekOf: (date: string) => `Woche vom ${date}`,
+      span: (first: string, last: string) => (first === last ? first : `${first} – ${last}`),
+    },
+    updated: "Aktualisiert",
+    cached: "Cache",
+    nextIn: "Nächste in",
+    now: "jetzt",
+    justNow: "gerade eben",
+    secondsAgo: (seconds: number) => `vor ${seconds} s`,
+    minutesAgo: (minutes: number) => `vor ${minutes} min`,
+    minutesSecondsAgo: (minutes: number, seconds: number) => `vor ${minutes} min ${seconds} s`,
+    rateLimit: (remaining: number, limit: number) => `API-Rate-Limit: ${remaining}/${limit} übrig`,
+    rateLimitReset: (time: string) => `zurückgesetzt um ${time}`,
+    stale: {
+      rateLimited: (time: string | null) =>
+        time ? `GitHub-API-Rate-Limit erreicht. Aktualisierung ab ${time} Uhr.` : "GitHub-API-Rate-Limit erreicht.",
+      offline: "GitHub ist nicht erreichbar. Prüfe deine Verbindung.",
+      httpError: (status: number | null) =>
+        status ? `GitHub hat mit einem Fehler geantwortet (HTTP ${status}).` : "GitHub hat mit einem Fehler geantwortet.",
+      showingSaved: (ago: string) => `Angezeigt werden Daten von ${ago}.`,
+    },
+    activity: {
+      title: "Commit-Aktivität",
+      commits: (count: number) => (count === 1 ? "Commit" : "Commits"),
+      less: "Weniger",
+      more: "Mehr",
+    },
+    plans: {
+      title: "Entwicklungspläne",
+      loadError: "Fehler beim Laden der Pläne:",
+      noData: "Keine Daten",
+      open: "Offen",
+      done: "Kürzlich abgeschlossen",
+      viewAll: "Alle Pläne anzeigen",
+      showOtherLanguages: (count: number) => `${count} ${count === 1 ? "Plan" : "Pläne"} in anderen Sprachen anzeigen`,
+      englishOnly: "Nur englische Pläne anzeigen",
+    },
+    trend: {
+      week: "7 T.",
+      month: "30 T.",
+      deltaTitle: (days: number) => `Veränderung in den letzten ${days} Tagen`,
+      show: (label: string) => `Verlauf anzeigen: ${label}`,
+      title: (label: string) => `${label} im Verlauf`,
+      close: "Schließen",
+      empty: "Noch zu wenig Verlauf. Die Zahlen werden bei jeder Datenaktualisierung erfasst.",
+      backfilled: "Sternzahlen vor Beginn der Aufzeichnung sind aus den Zeitpunkten rekonstruiert, zu denen die heutigen Stargazer das Repository markiert haben.",
+    },
+    shipped: {
+      title: "Zuletzt ausgeliefert",
+      averageCycle: "Durchschnittliche Durchlaufzeit",
+      tookDays: (duration: string) => `Dauer: ${duration}`,
+      empty: "Noch keine abgeschlossenen Pläne mit bekanntem Abschlussdatum.",
+    },
+    languages: {
+      title: "Sprachen",
+      empty: "Keine Sprachdaten verfügbar.",
+    },
+    repo: {
+      title: "Repository",
+      created: "Erstellt",
+      license: "Lizenz",
+      noLicense: "Keine",
+      size: "Größe",
+      defaultBranch: "Standard-Branch",
+      lastPush: "Letzter Push",
+    },
+    commitList: {
+      title: "Was sich geändert hat",
+      loadingTitle: "Commits",
+      empty: "Keine Commits gefunden.",
+      emptyWeek: (days: number) => `Keine Commits in den letzten ${days} Tagen.`,
+      summary: (count: number, days: number) => `${count} ${count === 1 ? "Commit" : "Commits"} in den letzten ${days} Tagen`,
+      summaryPartial: (count: number, date: string) => `Die letzten ${count} ${count === 1 ? "Commit" : "Commits"}, seit ${date}`,
+      breakingCount: (count: number) => `${count} ${count === 1 ? "inkompatible Änderung" : "inkompatible Änderungen"}`,
+      filterLabel: "Nach Typ filtern",
+      all: "Alle",
+      types: {
+        feat: "Features",
+        fix: "Fehlerbehebungen",
+        perf: "Performance",
+        refactor: "Refactoring",
+        docs: "Doku",
+        test: "Tests",
+        build: "Build",
+        ci: "CI",
+        style: "Stil",
+        chore: "Wartung",
+        revert: "Rückgängig gemacht",
+        other: "Sonstiges",
+      },
+      breaking: "Breaking",
+      breakingTitle: "Inkompatible Änderung",
+      reference: (number: number) => `Issue oder Pull Request #${number}`,
+      expandDetails: "Commit-Details anzeigen",
+      collapseDetails: "Commit-Details ausblenden",
+      expandAll: "Alle ausklappen",
+      collapseAll: "Alle einklappen",
+      showAll: "Alle Commits anzeigen",
+      showFewer: "Weniger Commits anzeigen",
+      showLess: "Weniger anzeigen",
+      showMore: (count: number) => `${count} weitere anzeigen`,
+      viewLabel: "Ansicht",
+      summaryView: "Diese Woche",
+      historyView: "Verlauf",
+      history: {
+        search: "Commits durchsuchen",
+        searchPlaceholder: "Nachrichten, Autoren, SHAs durchsuchen",
+        author: "Autor",
+        authorPlaceholder: "GitHub-Login",
+        since: "Von",
+        until: "Bis",
+        clearFilters: "Filter zurücksetzen",
+        loaded: (count: number, complete: boolean) =>
+          complete ? `Alle ${count} ${count === 1 ? "Commit" : "Commits"}` : `${count} ${count === 1 ? "Commit" : "Commits"} geladen`,
+        matches: (shown: number, loaded: number) => `${shown} von ${loaded} geladenen Commits passen`,
+        empty: "Keine Commits passen zu diesen Filtern.",
+        noMatch: "Keiner der geladenen Commits passt zu deiner Suche.",
+        loading: "Commits werden geladen…",
+        loadMore: "Ältere Commits laden",
+        searchFurther: "Ältere Commits laden, um weiter zu suchen",
+        retry: "Erneut versuchen",
+        end: "Anfang des Verlaufs erreicht.",
+      },
+      detail: {
+        showChanges: "Geänderte Dateien anzeigen",
+        hideChanges: "Geänderte Dateien ausblenden",
+        loading: "Änderungen werden geladen…",
+        filesChanged: (count: number) => `${count} ${count === 1 ? "Datei" : "Dateien"} geändert`,
+        additions: (count: number) => `${count} ${count === 1 ? "hinzugefügte Zeile" : "hinzugefügte Zeilen"}`,
+        deletions: (count: number) => `${count} ${count === 1 ? "entfernte Zeile" : "entfernte Zeilen"}`,
+        pullsRateLimited: "Pull-Request-Suche übersprungen: Rate-Limit",
+        pullsFailed: "Pull Requests konnten nicht geladen werden",
+        pullStates: {
+          open: "Offen",
+          merged: "Gemergt",
+          closed: "Geschlossen",
+        },
+        statuses: {
+          added: "Hinzugefügt",
+          removed: "Gelöscht",
+          modified: "Geändert",
+          renamed: "Umbenannt",
+          copied: "Kopiert",
+          changed: "Geändert",
+          unchanged: "Unverändert",
+        },
+        showDiff: (filename: string) => `Diff von ${filename} anzeigen`,
+        hideDiff: (filename: string) => `Diff von ${filename} ausblenden`,
+        noPatch: "Kein Diff verfügbar (Binärdatei oder zu groß).",
+        truncated: (shown: number, total: number) => `${shown} von ${total} Diff-Zeilen angezeigt.`,
+        viewOnGitHub: "Ganzen Commit auf GitHub ansehen",
+      },
+    },
+    explorer: {
+      title: "Pull Requests & Issues",
+      kindLabel: "Anzeigen",
+      kinds: {
+        pullRequests: "Pull Requests",
+        issues: "Issues",
+      },
+      medianMerge: "Median bis zum Merge",
+      medianResponse: "Median bis zur ersten Antwort",
+      mergedSample: (count: number) => `über die letzten ${count} gemergten Pull Requests`,
+      respondedSample: (count: number) => `über ${count} aktuelle Issues und Pull Requests`,
+      noSample: "Noch nicht genug Daten",
+      label: "Label",
+      allLabels: "Alle Labels",
+      author: "Autor",
+      allAuthors: "Alle Autoren",
+      staleFilter: (days: number) => `Liegen geblieben (> ${days} Tage)`,
+      staleTitle: (days: number) => `Seit mehr als ${days} Tagen keine Aktivität`,
+      staleBadge: "Liegen geblieben",
+      count: (shown: number, total: number) => `${shown} von ${total}`,
+      resetFilters: "Filter zurücksetzen",
+      by: (login: string) => `von ${login}`,
+      age: (age: string) => `offen: ${age}`,
+      comments: (count: number) => `${count} ${count === 1 ? "Kommentar" : "Kommentare"}`,
+      assignees: "Zugewiesen",
+      reviewStates: {
+        approved: "Freigegeben",
+        "changes-requested": "Änderungen angefragt",
+        commented: "Kommentiert",
+        "review-required": "Review ausstehend",
+        none: "Kein Review",
+        draft: "Entwurf",
+        unknown: "Review-Status unbekannt",
+      },
+      empty: {
+        pullRequests: "Keine offenen Pull Requests.",
+        issues: "Keine offenen Issues.",
+      },
+      noMatch: "Nichts passt zu diesen Filtern.",
+    },
+  },
+  duration: (days: number, formatted: string) =>
+    days < 1 ? "weniger als ein Tag" : `${formatted} ${days === 1 ? "Tag" : "Tage"}`,
+  plans: {
+    metaTitle: "Entwicklungspläne | TUIkit",
+    metaDescription: "Offene und abgeschlossene Entwicklungspläne des Swift-Frameworks TUIkit",
+    planMetaTitle: (title: string) => `${title} | TUIkit-Pläne`,
+    title: "Entwicklungspläne",
+    intro: "Woran in TUIkit gearbeitet wird und was schon fertig ist, direkt aus den Plan-Dateien im Repository. Die Pläne selbst sind überwiegend auf Englisch.",
+    status: "Status",
+    all: "Alle",
+    open: "Offen",
+    done: "Erledigt",
+    month: "Monat",
+    allMonths: "Alle Monate",
+    language: "Sprache",
+    allLanguages: "Alle Sprachen",
+    writtenIn: (language: string) => `Verfasst auf ${language}`,
+    count: (shown: number, total: number) => `${shown} von ${total} Plänen`,
+    noMatch: "Keine Pläne passen zu diesen Filtern.",
+    resetFilters: "Filter zurücksetzen",
+    tasks: (done: number, total: number) => `${done}/${total} Aufgaben`,
+    progress: "Aufgabenfortschritt",
+    backToPlans: "Alle Pläne",
+    viewOnGitHub: "Auf GitHub ansehen",
+    contentMissing: "Der vollständige Plan ist noch nicht verfügbar. Angezeigt wird seine Einleitung.",
+    opened: "Eröffnet",
+    completed: "Abgeschlossen",
+    cycleTime: "Durchlaufzeit",
+    sections: "Fortschritt nach Abschnitt",
+    burndown: {
+      title: "Burndown",
+      remaining: "Offene Aufgaben",
+      scope: "Aufgaben gesamt",
+      noHistory: "Der Fortschritt wird bei jeder Datenaktualisierung festgehalten. Das Diagramm füllt sich in den nächsten Tagen.",
+      summary: (remaining: number, total: number) => `Burndown-Diagramm: ${remaining} von ${total} Aufgaben offen`,
+    },
+  },
+  releases: {
+    metaTitle: "Releases | TUIkit",
+    metaDescription: "Release Notes aller Versionen des Swift-Frameworks TUIkit",
+    releaseMetaTitle: (version: string) => `TUIkit ${version} | Release Notes`,
+    title: "Releases",
+    intro: "Jede TUIkit-Version mit ihren Release Notes, direkt von GitHub.",
+    empty: "Noch keine Releases verfügbar.",
+    latest: "Aktuell",
+    prerelease: "Vorabversion",
+    published: "Veröffentlicht",
+    readNotes: "Release Notes lesen",
+    noNotes: "Zu diesem Release gibt es keine Notes.",
+    backToReleases: "Alle Releases",
+    viewOnGitHub: "Auf GitHub ansehen",
+    newer: "Neuer",
+    older: "Älter",
+    subscribe: "Abonnieren:",
+    feedTitle: (format: string) => `TUIkit-Releases (${format})`,
+    viewNotes: (version: string) => `Release Notes zu TUIkit ${version}`,
+  },
+};
+
+export default de;
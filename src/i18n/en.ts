@@ -0,0 +1,416 @@
+/**
+ * English site copy. This is the reference dictionary: every other locale
+ * must provide the same keys (enforced through the `Messages` type).
+ *
+ * `home.cli.text` and `home.cli.combine` are rendered with `set:html` and
+ * may contain inline `<code>` tags.
+ */
+const en = {
+  meta: {
+    title: "TUIkit: Terminal UI Framework for Swift",
+    description: "A declarative, SwiftUI-like framework for building Terminal User Interfaces in Swift. Pure Swift with no ncurses or C dependencies.",
+    socialDescription: "Build terminal apps with SwiftUI-like syntax. Pure Swift, no ncurses.",
+    dashboardTitle: "Dashboard | TUIkit",
+    dashboardDescription: "Live GitHub metrics for the TUIkit Swift framework",
+  },
+  skipToContent: "Skip to main content",
+  nav: {
+    label: "Main navigation",
+    logoAlt: "TUIkit Logo",
+    dashboard: "Dashboard",
+    plans: "Plans",
+    releases: "Releases",
+    docs: "Docs",
+    github: "GitHub",
+    openMenu: "Open menu",
+    closeMenu: "Close menu",
+    language: "Language",
+  },
+  footer: {
+    madeIn: "Made with ❤️ in Bregenz",
+    lake: "at Lake Constance",
+    country: "Austria",
+  },
+  home: {
+    headline: "Terminal UIs, the Swift way",
+    intro: "A declarative, SwiftUI-like framework for building Terminal User Interfaces. Pure Swift on macOS and Linux, with no ncurses or C dependencies.",
+    readDocs: "Read the Docs",
+    viewOnGitHub: "View on GitHub",
+    getStarted: {
+      title: "Get started in seconds",
+      text: "Add TUIkit as a dependency to your Swift package. No ncurses, no C libraries, no complex setup. Just pure Swift that runs on macOS and Linux.",
+      requirement: "Version requirement",
+      channel: "Release channel",
+      requirements: {
+        from: "This version or any later one up to the next major version",
+        exact: "Exactly this version",
+        branch: "The latest commit on the main branch",
+      },
+    },
+    cli: {
+      title: "Project Creator CLI",
+      text: 'The installer adds the <code class="text-foreground">tuikit</code> command to your system. It detects your platform, installs to <code class="text-foreground">/usr/local/bin</code> or <code class="text-foreground">~/.local/bin</code>, and on Linux offers to install Swift if needed.',
+      then: "Then create projects with optional features:",
+      basic: "Basic app",
+      git: "With Git repository",
+      sqlite: "With SQLiteData",
+      testing: "With Swift Testing",
+      combine: 'Options can be combined: <code class="text-foreground">tuikit init git sqlite testing MyApp</code>',
+    },
+    features: {
+      title: "Everything you need",
+      text: "Built from the ground up for the terminal, with APIs you already know from SwiftUI.",
+      declarative: {
+        title: "Declarative Syntax",
+        description: "Build UIs with VStack, HStack, Text, Button, and more. The same patterns you know from SwiftUI.",
+      },
+      theming: {
+        title: "Theming System",
+        description: "Multiple built-in phosphor themes with full RGB color support. Cycle at runtime or create custom palettes.",
+      },
+      keyboard: {
+        title: "Keyboard-Driven",
+        description: "Focus management, key event handlers, customizable status bar with shortcut display.",
+      },
+      components: {
+        title: "Rich Components",
+        description: "Panel, Card, Dialog, Alert, Menu, Button, and ForEach. Container and interactive views out of the box.",
+      },
+      dependencies: {
+        title: "Zero Dependencies",
+        description: "Pure Swift. No ncurses, no C libraries. Just add the Swift package and go.",
+      },
+      platforms: {
+        title: "Cross-Platform",
+        description: "Runs on macOS and Linux. Same code, same API, same results.",
+      },
+    },
+    architecture: {
+      title: "Built right",
+      concurrency: {
+        title: "Swift 6.0 + Strict Concurrency",
+        text: "Full Sendable compliance. No data races, no unsafe globals. Modern Swift from top to bottom.",
+      },
+      borders: {
+        title: "5 Border Appearances",
+        text: "Line, rounded, double-line, heavy, and block style. Cycle with a single keystroke.",
+      },
+      tests: {
+        title: "Extensively Tested",
+        text: "Comprehensive test coverage across views, modifiers, rendering, state management, i18n consistency, and localization.",
+      },
+      docs: {
+        title: "13 DocC Articles",
+        text: "Architecture guides, API references, theming, focus system, keyboard shortcuts, and palette documentation.",
+      },
+    },
+    cta: {
+      title: "Ready to build?",
+      text: "Get started with TUIkit in minutes. Add the package, write your first view, run it.",
+      guide: "Getting Started Guide",
+      browseDocs: "Browse Documentation",
+    },
+    terminal: {
+      powerOn: "Power on",
+      powerOff: "Power off",
+      powerOnLabel: "Power on terminal",
+      powerOffLabel: "Power off terminal",
+      command: "Terminal command",
+      play: "Play",
+      pause: "Pause",
+      restart: "Restart",
+      restartTitle: "Restart from power-on",
+      skipTo: (scene: string): string => `Skip to ${scene}`,
+      speed: "Playback speed",
+      speedLabel: (speed: number, next: number): string => `Playback speed ${speed}×, switch to ${next}×`,
+      position: "Playback position",
+      script: "Script",
+      scriptTitle: "Scripted session",
+      playRecording: (title: string, width: number, height: number): string => `Play recording: ${title} (${width}×${height})`,
+      fits: { scale: "scale", crop: "crop" },
+      fit: (fit: string): string => `Fit: ${fit}`,
+      fitLabel: (fit: string, next: string): string => `Recording fit: ${fit}, switch to ${next}`,
+      fitTitle: "Scale the whole recording down or crop it to the screen",
+    },
+  },
+  dashboard: {
+    title: "Project Dashboard",
+    liveMetrics: "Live metrics",
+    refreshing: "Refreshing data",
+    error: "Error:",
+    willRetry: "Will retry automatically",
+    stars: "Stars",
+    contributors: "Contributors",
+    forks: "Forks",
+    releases: "Releases",
+    commits: "Commits",
+    openIssues: "Open Issues",
+    openPRs: "Open PRs",
+    mergedPRs: "Merged PRs",
+    stargazers: "Stargazers",
+    contributorsPanel: {
+      title: "Top Contributors",
+      computing: "GitHub is still computing the line statistics; they appear on the next refresh.",
+      rank: "#",
+      contributor: "Contributor",
+      commits: "Commits",
+      lines: "Lines",
+      active: "Active",
+      activity: (weeks: number): string => `Last ${weeks} weeks`,
+      weekOf: (date: string): string => `Week of ${date}`,
+      span: (first: string, last: string): string => (first === last ? first : `${first} – ${last}`),
+    },
+    updated: "Updated",
+    cached: "cached",
+    nextIn: "Next in",
+    now: "now",
+    justNow: "just now",
+    secondsAgo: (seconds: number) => `${seconds}s ago`,
+    minutesAgo: (minutes: number) => `${minutes} min ago`,
+    minutesSecondsAgo: (minutes: number, seconds: number) => `${minutes} min ${seconds}s ago`,
+    rateLimit: (remaining: number, limit: number) => `API rate limit: ${remaining}/${limit} remaining`,
+    rateLimitReset: (time: string) => `resets at ${time}`,
+    stale: {
+      rateLimited: (time: string | null): string =>
+        time ? `GitHub API rate limit reached. Updates resume at ${time}.` : "GitHub API rate limit reached.",
+      offline: "GitHub is not reachable. Check your connection.",
+      httpError: (status: number | null): string =>
+        status ? `GitHub answered with an error (HTTP ${status}).` : "GitHub answered with an error.",
+      showingSaved: (ago: string) => `Showing data from ${ago}.`,
+    },
+    activity: {
+      title: "Commit Activity",
+      commits: (count: number): string => (count === 1 ? "commit" : "commits"),
+      less: "Less",
+      more: "More",
+    },
+    plans: {
+      title: "Development Plans",
+      loadError: "Error loading plans:",
+      noData: "No data",
+      open: "Open",
+      done: "Recently Completed",
+      viewAll: "View all plans",
+      showOtherLanguages: (count: number): string => `Show ${count} ${count === 1 ? "plan" : "plans"} in other languages`,
+      englishOnly: "Show English plans only",
+    },
+    trend: {
+      week: "7d",
+      month: "30d",
+      deltaTitle: (days: number) => `Change over the last ${days} days`,
+      show: (label: string) => `Show ${label} over time`,
+      title: (label: string) => `${label} over time`,
+      close: "Close",
+      empty: "Not enough history yet. Counts are recorded with every data refresh.",
+      backfilled: "Star counts from before recording started are reconstructed from when each current stargazer starred the repository.",
+    },
+    shipped: {
+      title: "Recently Shipped",
+      averageCycle: "Average cycle time",
+      tookDays: (duration: string) => `took ${duration}`,
+      empty: "No completed plans with a known completion date yet.",
+    },
+    languages: {
+      title: "Languages",
+      empty: "No language data available.",
+    },
+    repo: {
+      title: "Repository",
+      created: "Created",
+      license: "License",
+      noLicense: "None",
+      size: "Size",
+      defaultBranch: "Default Branch",
+      lastPush: "Last Push",
+    },
+    commitList: {
+      title: "What Changed",
+      loadingTitle: "Commits",
+      empty: "No commits found.",
+      emptyWeek: (days: number) => `No commits in the last ${days} days.`,
+      summary: (count: number, days: number): string => `${count} ${count === 1 ? "commit" : "commits"} in the last ${days} days`,
+      summaryPartial: (count: number, date: string): string => `Latest ${count} ${count === 1 ? "commit" : "commits"}, since ${date}`,
+      breakingCount: (count: number): string => `${count} breaking ${count === 1 ? "change" : "changes"}`,
+      filterLabel: "Filter by type",
+      all: "All",
+      types: {
+        feat: "Features",
+        fix: "Fixes",
+        perf: "Performance",
+        refactor: "Refactoring",
+        docs: "Docs",
+        test: "Tests",
+        build: "Build",
+        ci: "CI",
+        style: "Style",
+        chore: "Chores",
+        revert: "Reverts",
+        other: "Other",
+      },
+      breaking: "Breaking",
+      breakingTitle: "Breaking change",
+      reference: (number: number) => `Issue or pull request #${number}`,
+      expandDetails: "Show commit details",
+      collapseDetails: "Hide commit details",
+      expandAll: "Expand all",
+      collapseAll: "Collapse all",
+      showAll: "Show all commits",
+      showFewer: "Show fewer commits",
+      showLess: "Show less",
+      showMore: (count: number) => `Show ${count} more`,
+      viewLabel: "View",
+      summaryView: "This week",
+      historyView: "History",
+      history: {
+        search: "Search commits",
+        searchPlaceholder: "Search messages, authors, SHAs",
+        author: "Author",
+        authorPlaceholder: "GitHub login",
+        since: "From",
+        until: "To",
+        clearFilters: "Clear filters",
+        loaded: (count: number, complete: boolean): string =>
+          complete ? `All ${count} ${count === 1 ? "commit" : "commits"}` : `${count} ${count === 1 ? "commit" : "commits"} loaded`,
+        matches: (shown: number, loaded: number): string => `${shown} of ${loaded} loaded commits match`,
+        empty: "No commits match these filters.",
+        noMatch: "None of the loaded commits match your search.",
+        loading: "Loading commits…",
+        loadMore: "Load older commits",
+        searchFurther: "Load older commits to search further",
+        retry: "Try again",
+        end: "Beginning of the history reached.",
+      },
+      detail: {
+        showChanges: "Show changed files",
+        hideChanges: "Hide changed files",
+        loading: "Loading changes…",
+        filesChanged: (count: number): string => `${count} ${count === 1 ? "file" : "files"} changed`,
+        additions: (count: number): string => `${count} ${count === 1 ? "addition" : "additions"}`,
+        deletions: (count: number): string => `${count} ${count === 1 ? "deletion" : "deletions"}`,
+        pullsRateLimited: "Pull request lookup skipped: rate limit",
+        pullsFailed: "Pull requests could not be loaded",
+        pullStates: {
+          open: "Open",
+          merged: "Merged",
+          closed: "Closed",
+        },
+        statuses: {
+          added: "Added",
+          removed: "Deleted",
+          modified: "Modified",
+          renamed: "Renamed",
+          copied: "Copied",
+          changed: "Changed",
+          unchanged: "Unchanged",
+        },
+        showDiff: (filename: string) => `Show diff of ${filename}`,
+        hideDiff: (filename: string) => `Hide diff of ${filename}`,
+        noPatch: "No diff available (binary file or too large).",
+        truncated: (shown: number, total: number) => `Showing ${shown} of ${total} diff lines.`,
+        viewOnGitHub: "View the full commit on GitHub",
+      },
+    },
+    explorer: {
+      title: "Pull Requests & Issues",
+      kindLabel: "Show",
+      kinds: {
+        pullRequests: "Pull requests",
+        issues: "Issues",
+      },
+      medianMerge: "Median time to merge",
+      medianResponse: "Median time to first response",
+      mergedSample: (count: number): string => `over the last ${count} merged pull ${count === 1 ? "request" : "requests"}`,
+      respondedSample: (count: number): string => `over ${count} recent ${count === 1 ? "issue or pull request" : "issues and pull requests"}`,
+      noSample: "Not enough data yet",
+      label: "Label",
+      allLabels: "All labels",
+      author: "Author",
+      allAuthors: "All authors",
+      staleFilter: (days: number) => `Stale (> ${days} days)`,
+      staleTitle: (days: number) => `No activity for more than ${days} days`,
+      staleBadge: "Stale",
+      count: (shown: number, total: number) => `${shown} of ${total}`,
+      resetFilters: "Reset filters",
+      by: (login: string) => `by ${login}`,
+      age: (age: string) => `open for ${age}`,
+      comments: (count: number): string => `${count} ${count === 1 ? "comment" : "comments"}`,
+      assignees: "Assignees",
+      reviewStates: {
+        approved: "Approved",
+        "changes-requested": "Changes requested",
+        commented: "Reviewed",
+        "review-required": "Review required",
+        none: "No review",
+        draft: "Draft",
+        unknown: "Review state unknown",
+      },
+      empty: {
+        pullRequests: "No open pull requests.",
+        issues: "No open issues.",
+      },
+      noMatch: "Nothing matches these filters.",
+    },
+  },
+  duration: (days: number, formatted: string): string =>
+    days < 1 ? "less than a day" : `${formatted} ${days === 1 ? "day" : "days"}`,
+  plans: {
+    metaTitle: "Development Plans | TUIkit",
+    metaDescription: "Open and completed development plans of the TUIkit Swift framework",
+    planMetaTitle: (title: string) => `${title} | TUIkit Plans`,
+    title: "Development Plans",
+    intro: "What is being built in TUIkit and what has shipped, straight from the plan files in the repository.",
+    status: "Status",
+    all: "All",
+    open: "Open",
+    done: "Done",
+    month: "Month",
+    allMonths: "All months",
+    language: "Language",
+    allLanguages: "All languages",
+    writtenIn: (language: string) => `Written in ${language}`,
+    count: (shown: number, total: number): string => `${shown} of ${total} plans`,
+    noMatch: "No plans match these filters.",
+    resetFilters: "Reset filters",
+    tasks: (done: number, total: number): string => `${done}/${total} tasks`,
+    progress: "Task progress",
+    backToPlans: "All plans",
+    viewOnGitHub: "View on GitHub",
+    contentMissing: "The full plan is not available yet. Showing its preface.",
+    opened: "Opened",
+    completed: "Completed",
+    cycleTime: "Cycle time",
+    sections: "Progress by section",
+    burndown: {
+      title: "Burndown",
+      remaining: "Remaining tasks",
+      scope: "Total tasks",
+      noHistory: "Progress is recorded with every data refresh. The chart fills in over the next days.",
+      summary: (remaining: number, total: number): string => `Burndown chart: ${remaining} of ${total} tasks remaining`,
+    },
+  },
+  releases: {
+    metaTitle: "Releases | TUIkit",
+    metaDescription: "Release notes of every version of the TUIkit Swift framework",
+    releaseMetaTitle: (version: string) => `TUIkit ${version} | Release Notes`,
+    title: "Releases",
+    intro: "Every TUIkit version with its release notes, straight from GitHub.",
+    empty: "No releases available yet.",
+    latest: "Latest",
+    prerelease: "Pre-release",
+    published: "Published",
+    readNotes: "Read the release notes",
+    noNotes: "This release has no notes.",
+    backToReleases: "All releases",
+    viewOnGitHub: "View on GitHub",
+    newer: "Newer",
+    older: "Older",
+    subscribe: "Subscribe:",
+    feedTitle: (format: string) => `TUIkit Releases (${format})`,
+    viewNotes: (version: string) => `Release notes of TUIkit ${version}`,
+  },
+};
+
+/** Shape of a locale dictionary. */
+export type Messages = typeof en;
+
+export default en;
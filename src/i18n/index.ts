@@ -0,0 +1,76 @@
+/**
+ * Locales of the site and helpers to pick the copy, URLs and date formats
+ * for one of them.
+ *
+ * English is served at the root (`/`, `/dashboard`), every other locale
+ * under its own prefix (`/de/`, `/de/dashboard`).
+ */
+
+import en, { type Messages } from "./en";
+import de from "./de";
+
+export type { Messages };
+
+/** All site locales; the first one is the default. */
+export const LOCALES = ["en", "de"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+/** Locale served without a URL prefix. */
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each locale's name in its own language, for the language switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  de: "Deutsch",
+};
+
+/** BCP 47 tags passed to `Intl` (keeps the original US date formats for English). */
+const INTL_TAGS: Record<Locale, string> = {
+  en: "en-US",
+  de: "de-DE",
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, de };
+
+/** Whether a value (e.g., a URL segment) is a supported locale. */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+/** Returns the site copy for a locale. */
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+/** Returns the `Intl` tag for a locale, e.g. for `Intl.DateTimeFormat`. */
+export function intlLocale(locale: Locale): string {
+  return INTL_TAGS[locale];
+}
+
+/** Formats a number of days, e.g. "3.5 days" or "less than a day", rounded to a tenth. */
+export function formatDays(locale: Locale, days: number): string {
+  const rounded = Math.round(days * 10) / 10;
+  const formatted = new Intl.NumberFormat(INTL_TAGS[locale], { maximumFractionDigits: 1 }).format(rounded);
+  return MESSAGES[locale].duration(rounded, formatted);
+}
+
+/**
+ * Returns the URL of a page in a locale: `localePath("de", "/dashboard")`
+ * is `/de/dashboard`, `localePath("de", "/")` is `/de/`.
+ */
+export function localePath(locale: Locale, path: string): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}/` : `/${locale}${path}`;
+}
+
+/**
+ * `getStaticPaths` result for pages under `src/pages/[...locale]/`: the
+ * default locale at the root, the others under their prefix.
+ */
+export function localeStaticPaths() {
+  return LOCALES.map((locale) => ({
+    params: { locale: locale === DEFAULT_LOCALE ? undefined : locale },
+    props: { locale },
+  }));
+}
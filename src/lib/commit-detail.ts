@@ -0,0 +1,162 @@
+/**
+ * A single commit of the TUIkit repository in detail, for the dashboard's
+ * commit drill-down: changed files with their additions/deletions and
+ * patches, and the pull requests the commit belongs to.
+ */
+
+import { failureError, isFailure, type GitHubClient, type GitHubFailure } from "./github-client";
+
+/** Repository the commits are fetched from. */
+const DETAIL_REPO = "phranck/TUIkit";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How a file was changed. */
+export type FileStatus = "added" | "removed" | "modified" | "renamed" | "copied" | "changed" | "unchanged";
+
+/** A file changed by a commit. */
+export interface CommitFile {
+  filename: string;
+  /** Path before a rename, or null. */
+  previousFilename: string | null;
+  status: FileStatus;
+  additions: number;
+  deletions: number;
+  /** Unified diff of the file, or null (binary files, very large diffs). */
+  patch: string | null;
+  /** The file at this commit on github.com. */
+  url: string;
+}
+
+/** A pull request that contains the commit. */
+export interface CommitPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  state: "open" | "closed" | "merged";
+}
+
+/** A commit with its changes. */
+export interface CommitDetail {
+  /** Full SHA. */
+  sha: string;
+  additions: number;
+  deletions: number;
+  files: CommitFile[];
+  pullRequests: CommitPullRequest[];
+  /** Why the pull request lookup failed (`pullRequests` is then empty), or null. */
+  pullRequestsFailure: GitHubFailure | null;
+}
+
+/** A line of a patch. */
+export interface DiffLine {
+  kind: "hunk" | "add" | "delete" | "context";
+  /** Line text without the leading `+`, `-` or space. */
+  text: string;
+  /** Line number in the old file (deleted and context lines), or null. */
+  oldLine: number | null;
+  /** Line number in the new file (added and context lines), or null. */
+  newLine: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+/** GitHub REST API response shape for a single commit. */
+interface GitHubCommitDetailResponse {
+  sha: string;
+  stats?: { additions: number; deletions: number };
+  files?: Array<{
+    filename: string;
+    previous_filename?: string;
+    status: FileStatus;
+    additions: number;
+    deletions: number;
+    patch?: string;
+    blob_url: string;
+  }>;
+}
+
+/** GitHub REST API response shape for a pull request of a commit. */
+interface GitHubCommitPullResponse {
+  number: number;
+  title: string;
+  html_url: string;
+  state: "open" | "closed";
+  merged_at: string | null;
+}
+
+/**
+ * Fetches a commit (full or abbreviated SHA) and the pull requests that
+ * contain it. Throws (failureError) only if the commit request fails; if the
+ * pull request lookup fails (e.g., rate-limited), the commit is returned
+ * without pull requests and with `pullRequestsFailure` saying why.
+ */
+export async function fetchCommitDetail(client: GitHubClient, sha: string, signal?: AbortSignal): Promise<CommitDetail> {
+  const commitResult = await client.request<GitHubCommitDetailResponse>(`/repos/${DETAIL_REPO}/commits/${sha}`, { signal });
+  if (isFailure(commitResult)) throw failureError(commitResult.error);
+  const commit = commitResult.data;
+
+  // The pulls endpoint needs the full SHA, which only the commit response has
+  const pullsResult = await client.request<GitHubCommitPullResponse[]>(`/repos/${DETAIL_REPO}/commits/${commit.sha}/pulls`, { signal });
+  const pulls = isFailure(pullsResult) ? [] : pullsResult.data;
+
+  const files = (commit.files ?? []).map((file) => ({
+    filename: file.filename,
+    previousFilename: file.previous_filename ?? null,
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+    patch: file.patch ?? null,
+    url: file.blob_url,
+  }));
+
+  return {
+    sha: commit.sha,
+    additions: commit.stats?.additions ?? files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: commit.stats?.deletions ?? files.reduce((sum, file) => sum + file.deletions, 0),
+    files,
+    pullRequests: pulls.map((pull) => ({
+      number: pull.number,
+      title: pull.title,
+      url: pull.html_url,
+      state: pull.merged_at ? "merged" : pull.state,
+    })),
+    pullRequestsFailure: isFailure(pullsResult) ? pullsResult.error : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Patches
+// ---------------------------------------------------------------------------
+
+/** `@@ -12,7 +12,9 @@ context` */
+const HUNK_REGEX = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/** Splits a unified diff into lines with their old/new line numbers. */
+export function parsePatch(patch: string): DiffLine[] {
+  let oldLine = 0;
+  let newLine = 0;
+
+  return patch.split("\n").flatMap((line): DiffLine[] => {
+    const hunk = line.match(HUNK_REGEX);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      return [{ kind: "hunk", text: line, oldLine: null, newLine: null }];
+    }
+    // "\ No newline at end of file"
+    if (line.startsWith("\\")) return [];
+    if (line.startsWith("+")) return [{ kind: "add", text: line.slice(1), oldLine: null, newLine: newLine++ }];
+    if (line.startsWith("-")) return [{ kind: "delete", text: line.slice(1), oldLine: oldLine++, newLine: null }];
+    return [{ kind: "context", text: line.slice(1), oldLine: oldLine++, newLine: newLine++ }];
+  });
+}
+
+/** Whether a file is Swift source (its diff gets syntax highlighting). */
+export function isSwiftFile(filename: string): boolean {
+  return filename.endsWith(".swift");
+}
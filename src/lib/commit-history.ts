@@ -0,0 +1,91 @@
+/**
+ * The full commit history of the TUIkit repository, page by page, for the
+ * dashboard's commit history view.
+ *
+ * Author and date range are filters of the commits API, so every filter
+ * combination pages through its own result. The full-text search runs over
+ * the commits loaded so far (the REST API has no message search, and the
+ * search API's rate limit is too small for typing).
+ */
+
+import { failureError, isFailure, type GitHubClient } from "./github-client";
+import { fromRestCommit, toCommitEntries, type CommitEntry, type GitHubCommitResponse } from "./github-stats";
+
+/** Commits per page of the commits API (its maximum). */
+export const COMMITS_PER_PAGE = 100;
+
+/** Server-side filters of the history. */
+export interface CommitHistoryQuery {
+  /** GitHub login or email of the author ("" for all authors). */
+  author: string;
+  /** First day (YYYY-MM-DD, inclusive), or "". */
+  since: string;
+  /** Last day (YYYY-MM-DD, inclusive), or "". */
+  until: string;
+}
+
+/** The unfiltered history. */
+export const EMPTY_HISTORY_QUERY: CommitHistoryQuery = { author: "", since: "", until: "" };
+
+/** One page of the history. */
+export interface CommitPage {
+  commits: CommitEntry[];
+  /** Whether there are older commits after this page. */
+  hasMore: boolean;
+}
+
+/** Identifies a query's result, e.g. as a cache key. */
+export function historyQueryKey(query: CommitHistoryQuery): string {
+  return `${query.author.trim().toLowerCase()}|${query.since}|${query.until}`;
+}
+
+/** API path of a page of the history. */
+function historyPath(query: CommitHistoryQuery, page: number): string {
+  const params = new URLSearchParams({ per_page: String(COMMITS_PER_PAGE), page: String(page) });
+  if (query.author.trim()) params.set("author", query.author.trim());
+  if (query.since) params.set("since", `${query.since}T00:00:00Z`);
+  if (query.until) params.set("until", `${query.until}T23:59:59Z`);
+  return `/repos/phranck/TUIkit/commits?${params}`;
+}
+
+/**
+ * Fetches one page (1-based) of the history, newest first. Data-refresh
+ * commits (`[skip ci]`) are left out, so a page can hold fewer than
+ * COMMITS_PER_PAGE commits. Throws (failureError) if the request fails.
+ */
+export async function fetchCommitPage(
+  client: GitHubClient,
+  query: CommitHistoryQuery,
+  page: number,
+  signal?: AbortSignal,
+): Promise<CommitPage> {
+  const result = await client.request<GitHubCommitResponse[]>(historyPath(query, page), { signal });
+  if (isFailure(result)) throw failureError(result.error);
+  return {
+    commits: toCommitEntries(result.data.map(fromRestCommit)),
+    hasMore: result.data.length === COMMITS_PER_PAGE,
+  };
+}
+
+/**
+ * Appends commits to a list, skipping those already in it. Pages shift when
+ * new commits are pushed between two requests, so a page can repeat
+ * commits of the previous one.
+ */
+export function mergeCommits(list: CommitEntry[], commits: CommitEntry[]): CommitEntry[] {
+  const known = new Set(list.map((commit) => commit.sha));
+  return [...list, ...commits.filter((commit) => !known.has(commit.sha))];
+}
+
+/**
+ * Commits whose title, body, author or SHA contain every word of the
+ * search text (case-insensitive). An empty search matches all commits.
+ */
+export function searchCommits<T extends CommitEntry>(commits: T[], text: string): T[] {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commits;
+  return commits.filter((commit) => {
+    const haystack = `${commit.title}\n${commit.body ?? ""}\n${commit.author}\n${commit.login ?? ""}\n${commit.sha}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
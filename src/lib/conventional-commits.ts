@@ -0,0 +1,144 @@
+/**
+ * Conventional Commits (https://www.conventionalcommits.org) parsing for
+ * the dashboard's commit summary: `type(scope)!: subject`, breaking changes
+ * and `#123` issue/PR references.
+ *
+ * TUIkit mostly follows the convention, but not always; titles without a
+ * known type are kept as they are, with the type "other".
+ */
+
+import type { CommitEntry } from "./github-stats";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Commit types in display order (the summary's categories), "other" last. */
+export const COMMIT_TYPES = [
+  "feat",
+  "fix",
+  "perf",
+  "refactor",
+  "docs",
+  "test",
+  "build",
+  "ci",
+  "style",
+  "chore",
+  "revert",
+  "other",
+] as const;
+
+export type CommitType = (typeof COMMIT_TYPES)[number];
+
+/** A commit with its parsed title. */
+export interface ParsedCommit extends CommitEntry {
+  type: CommitType;
+  /** Scope in parentheses (`fix(layout): ...`), or null. */
+  scope: string | null;
+  /** Marked with `!` or a `BREAKING CHANGE:` footer. */
+  breaking: boolean;
+  /** Title without the `type(scope)!:` prefix. */
+  subject: string;
+  /** Issue and pull request numbers referenced in the title or body (`#123`), in order. */
+  references: number[];
+}
+
+/** A piece of commit text: plain text or an issue/PR reference. */
+export type CommitTextPart = { text: string } | { reference: number };
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Repository the references point into. */
+const REFERENCE_REPO = "phranck/TUIkit";
+
+/** `type(scope)!: subject` */
+const HEADER_REGEX = /^([a-zA-Z]+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/;
+
+/** `#123`, not preceded by a word character or `&` (HTML entities) and not part of a longer word. */
+const REFERENCE_REGEX = /(?<![\w&])#(\d+)\b/g;
+
+/** Spellings of types that are not the conventional ones. */
+const TYPE_ALIASES: Record<string, CommitType> = {
+  feature: "feat",
+  bugfix: "fix",
+  hotfix: "fix",
+  doc: "docs",
+  tests: "test",
+  performance: "perf",
+};
+
+/** The commit type of a header's type word, or "other" if it is not a known type. */
+function commitTypeOf(word: string): CommitType {
+  const type = word.toLowerCase();
+  if (Object.hasOwn(TYPE_ALIASES, type)) return TYPE_ALIASES[type];
+  return (COMMIT_TYPES as readonly string[]).includes(type) ? (type as CommitType) : "other";
+}
+
+/** Issue/PR numbers referenced in a text, in order of first appearance. */
+function referencesIn(text: string): number[] {
+  return [...new Set([...text.matchAll(REFERENCE_REGEX)].map((match) => Number(match[1])))];
+}
+
+/** Parses a commit's title (and body, for breaking-change footers and references). */
+export function parseCommit(commit: CommitEntry): ParsedCommit {
+  const match = commit.title.match(HEADER_REGEX);
+  const type = match ? commitTypeOf(match[1]) : "other";
+  // An unknown type word is kept in the subject ("Merge: ..." is not a category)
+  const known = match !== null && type !== "other";
+  const body = commit.body ?? "";
+
+  return {
+    ...commit,
+    type,
+    scope: known && match[2] ? match[2].trim() : null,
+    breaking: (known && match[3] === "!") || /^BREAKING[ -]CHANGE:/m.test(body),
+    subject: known ? match[4].trim() : commit.title,
+    references: referencesIn(`${commit.title}\n${body}`),
+  };
+}
+
+/** Splits text into plain parts and `#123` references, for rendering the references as links. */
+export function splitReferences(text: string): CommitTextPart[] {
+  const parts: CommitTextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(REFERENCE_REGEX)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ text: text.slice(last, index) });
+    parts.push({ reference: Number(match[1]) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+}
+
+/** URL of an issue or pull request (GitHub redirects issue URLs of PRs to the PR). */
+export function referenceUrl(reference: number): string {
+  return `https://github.com/${REFERENCE_REPO}/issues/${reference}`;
+}
+
+// ---------------------------------------------------------------------------
+// Summary
+// ---------------------------------------------------------------------------
+
+/** Commits of one category, newest first. */
+export interface CommitGroup {
+  type: CommitType;
+  commits: ParsedCommit[];
+}
+
+/** Groups commits by type, in COMMIT_TYPES order; types without commits are left out. */
+export function groupCommitsByType(commits: ParsedCommit[]): CommitGroup[] {
+  return COMMIT_TYPES.flatMap((type) => {
+    const ofType = commits.filter((commit) => commit.type === type);
+    return ofType.length > 0 ? [{ type, commits: ofType }] : [];
+  });
+}
+
+/** Commits of the last `days` days (up to `now`). */
+export function commitsSince(commits: ParsedCommit[], days: number, now = Date.now()): ParsedCommit[] {
+  const since = now - days * 24 * 60 * 60 * 1000;
+  return commits.filter((commit) => Date.parse(commit.date) >= since);
+}
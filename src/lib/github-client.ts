@@ -0,0 +1,389 @@
+/**
+ * Shared GitHub client for the dashboard hooks and the data scripts.
+ *
+ * Every response with an `ETag` or `Last-Modified` header is kept in a
+ * response store; the next request for the same URL is conditional
+ * (`If-None-Match` / `If-Modified-Since`), and a `304 Not Modified`, which
+ * does not count against the rate limit, is answered from the store.
+ *
+ * When GitHub reports an exhausted rate limit, the client stops sending
+ * requests for that rate-limit resource (core, search, ...) until
+ * `X-RateLimit-Reset` and answers them with a "rate-limited" failure instead.
+ *
+ * The store is pluggable: localStorage in the browser (createStorageStore),
+ * a JSON file in the scripts (github-script-client.ts).
+ *
+ * GraphQL queries (`graphql()`) share the backoff but are never conditional:
+ * they are POST requests, which GitHub does not revalidate.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Base URL of the GitHub REST API. */
+export const GITHUB_API = "https://api.github.com";
+
+/** A stored response with the validators to revalidate it. */
+export interface StoredResponse {
+  etag: string | null;
+  lastModified: string | null;
+  /** `Link` header, for pagination counts. */
+  link: string | null;
+  body: unknown;
+  /** Unix timestamp (ms) when the body was last fetched or revalidated. */
+  storedAt: number;
+}
+
+/** Where the client keeps responses between requests (and page loads or runs). */
+export interface ResponseStore {
+  get(url: string): StoredResponse | undefined;
+  set(url: string, entry: StoredResponse): void;
+}
+
+/** Rate-limit state from the last response of a resource. */
+export interface RateLimit {
+  remaining: number;
+  limit: number;
+  /** Unix timestamp (ms) when the limit resets. */
+  resetAt: number;
+}
+
+/**
+ * Why a request produced no fresh data:
+ * - `rate-limited`: the rate limit is exhausted until `retryAt`
+ * - `offline`: the request did not reach GitHub (network error)
+ * - `http-error`: GitHub answered with an error status
+ */
+export type FailureReason = "rate-limited" | "offline" | "http-error";
+
+/** A failed request, with enough detail to tell the user why data is stale. */
+export interface GitHubFailure {
+  reason: FailureReason;
+  /** HTTP status, or null if there was no response. */
+  status: number | null;
+  /** Unix timestamp (ms) after which a retry can succeed, if known. */
+  retryAt: number | null;
+  message: string;
+}
+
+/** A successful request. */
+export interface GitHubResponse<T> {
+  data: T;
+  status: number;
+  link: string | null;
+  /** Whether GitHub answered 304 and `data` came from the store. */
+  notModified: boolean;
+}
+
+export type GitHubResult<T> = GitHubResponse<T> | { error: GitHubFailure };
+
+/** Options for a single request. */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Parse the body as JSON (default) or return it as text (e.g. raw file downloads). */
+  as?: "json" | "text";
+  /** JSON body: sends a POST request instead of GET (not conditional, not stored). */
+  body?: unknown;
+  /** Media type replacing the default `Accept` header (e.g. `application/vnd.github.star+json`). */
+  accept?: string;
+}
+
+/** Rate-limit resource of the GitHub API; each has its own limit. */
+export type RateLimitResource = "core" | "search" | "graphql";
+
+export interface GitHubClient {
+  /** Requests an API path (e.g. "/repos/o/r") or an absolute URL. */
+  request<T>(pathOrUrl: string, options?: RequestOptions): Promise<GitHubResult<T>>;
+  /** Runs a GraphQL query; GraphQL errors are returned as "http-error" failures. */
+  graphql<T>(query: string, variables?: Record<string, unknown>, options?: Pick<RequestOptions, "signal">): Promise<GitHubResult<T>>;
+  /** Whether requests are sent with a token (GraphQL requires one). */
+  authenticated: boolean;
+  /** Rate-limit state of a resource (default core) from the last response, or null before the first one. */
+  rateLimit(resource?: RateLimitResource): RateLimit | null;
+  /** Unix timestamp (ms) until which core API requests are held back, or null. */
+  blockedUntil(): number | null;
+}
+
+export interface GitHubClientOptions {
+  /** Headers sent with every request (Accept, Authorization, User-Agent). */
+  headers: Record<string, string>;
+  /** Response store for conditional requests; without one every request is unconditional. */
+  store?: ResponseStore;
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/** Fallback wait when GitHub signals a secondary rate limit without a reset time. */
+const DEFAULT_BACKOFF_MS = 60 * 1000;
+
+/** Endpoint of the GitHub GraphQL API. */
+const GRAPHQL_URL = `${GITHUB_API}/graphql`;
+
+/** Rate-limit resource of a URL. */
+function resourceOf(url: string): RateLimitResource {
+  if (url === GRAPHQL_URL) return "graphql";
+  return url.startsWith(`${GITHUB_API}/search/`) ? "search" : "core";
+}
+
+/** Reads the rate-limit headers of a response, or null if there are none. */
+function readRateLimit(response: Response): RateLimit | null {
+  const remaining = response.headers.get("x-ratelimit-remaining");
+  const limit = response.headers.get("x-ratelimit-limit");
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (remaining === null || limit === null) return null;
+  return {
+    remaining: Number(remaining),
+    limit: Number(limit),
+    resetAt: reset !== null ? Number(reset) * 1000 : Date.now() + DEFAULT_BACKOFF_MS,
+  };
+}
+
+/** Builds a failure result. */
+function failure(reason: FailureReason, status: number | null, message: string, retryAt: number | null = null): { error: GitHubFailure } {
+  return { error: { reason, status, retryAt, message } };
+}
+
+/** Creates a GitHub client with its own rate-limit state. */
+export function createGitHubClient({ headers, store }: GitHubClientOptions): GitHubClient {
+  const rateLimits = new Map<RateLimitResource, RateLimit>();
+  const blocked = new Map<RateLimitResource, number>();
+
+  async function request<T>(pathOrUrl: string, options: RequestOptions = {}): Promise<GitHubResult<T>> {
+    const url = pathOrUrl.startsWith("https://") ? pathOrUrl : `${GITHUB_API}${pathOrUrl}`;
+    const resource = resourceOf(url);
+    const isPost = options.body !== undefined;
+    // Another media type is another representation: store it separately
+    const storeKey = options.accept ? `${url} ${options.accept}` : url;
+    const stored = isPost ? undefined : store?.get(storeKey);
+
+    // Back off until the rate limit resets
+    const blockedUntil = blocked.get(resource);
+    if (blockedUntil !== undefined) {
+      if (Date.now() < blockedUntil) {
+        return failure("rate-limited", null, `GitHub rate limit exceeded (${resource})`, blockedUntil);
+      }
+      blocked.delete(resource);
+    }
+
+    const requestHeaders = { ...headers };
+    if (options.accept) requestHeaders.Accept = options.accept;
+    if (stored?.etag) requestHeaders["If-None-Match"] = stored.etag;
+    else if (stored?.lastModified) requestHeaders["If-Modified-Since"] = stored.lastModified;
+    if (isPost) requestHeaders["Content-Type"] = "application/json";
+
+    let response: Response;
+    try {
+      response = await fetch(
+        url,
+        isPost
+          ? { method: "POST", headers: requestHeaders, body: JSON.stringify(options.body), signal: options.signal }
+          : { headers: requestHeaders, signal: options.signal },
+      );
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      return failure("offline", null, err instanceof Error ? err.message : "Network error");
+    }
+
+    const rateLimit = url.startsWith(GITHUB_API) ? readRateLimit(response) : null;
+    if (rateLimit) rateLimits.set(resource, rateLimit);
+
+    if (response.status === 304 && stored) {
+      store?.set(storeKey, { ...stored, storedAt: Date.now() });
+      return { data: stored.body as T, status: 304, link: stored.link, notModified: true };
+    }
+
+    // Primary limit (remaining 0) or secondary limit (Retry-After)
+    const retryAfter = response.headers.get("retry-after");
+    if ((response.status === 403 || response.status === 429) && (rateLimit?.remaining === 0 || retryAfter !== null)) {
+      const until = retryAfter !== null ? Date.now() + Number(retryAfter) * 1000 : (rateLimit?.resetAt ?? Date.now() + DEFAULT_BACKOFF_MS);
+      blocked.set(resource, until);
+      return failure("rate-limited", response.status, `GitHub rate limit exceeded (${resource})`, until);
+    }
+
+    if (!response.ok) {
+      return failure("http-error", response.status, `GitHub API ${response.status}: ${response.statusText}`);
+    }
+
+    const body = options.as === "text" ? await response.text() : await response.json();
+    const etag = response.headers.get("etag");
+    const lastModified = response.headers.get("last-modified");
+    const link = response.headers.get("link");
+
+    // 202 means GitHub is still computing (stats endpoints): nothing worth keeping
+    if (store && !isPost && response.status === 200 && (etag || lastModified)) {
+      store.set(storeKey, { etag, lastModified, link, body, storedAt: Date.now() });
+    }
+
+    return { data: body as T, status: response.status, link, notModified: false };
+  }
+
+  async function graphql<T>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    options: Pick<RequestOptions, "signal"> = {},
+  ): Promise<GitHubResult<T>> {
+    const result = await request<{ data?: T; errors?: { message: string }[] }>(GRAPHQL_URL, {
+      body: { query, variables },
+      signal: options.signal,
+    });
+    if (isFailure(result)) return result;
+
+    const { data, errors } = result.data;
+    if (errors?.length || !data) {
+      return failure("http-error", result.status, `GitHub GraphQL: ${errors?.map((error) => error.message).join("; ") ?? "no data"}`);
+    }
+    return { ...result, data };
+  }
+
+  return {
+    request,
+    graphql,
+    authenticated: "Authorization" in headers,
+    rateLimit: (resource = "core") => rateLimits.get(resource) ?? null,
+    blockedUntil: () => {
+      const until = blocked.get("core");
+      return until !== undefined && Date.now() < until ? until : null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Whether a result is a failure. */
+export function isFailure<T>(result: GitHubResult<T>): result is { error: GitHubFailure } {
+  return "error" in result;
+}
+
+/** Extracts the last page number from a `Link` header (for counts via `per_page=1`). */
+export function lastPageOf(link: string | null): number {
+  if (!link) return 0;
+  const match = link.match(/[?&]page=(\d+)>; rel="last"/);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Wraps a failure in an Error for code paths that throw (e.g. inside
+ * `Promise.all`). failureOf() recovers it.
+ */
+export function failureError(failure: GitHubFailure): Error {
+  return Object.assign(new Error(failure.message), { failure });
+}
+
+/** Recovers the failure from a thrown error; other errors count as HTTP errors without a status. */
+export function failureOf(err: unknown): GitHubFailure {
+  if (err instanceof Error && "failure" in err) return (err as Error & { failure: GitHubFailure }).failure;
+  return { reason: "http-error", status: null, retryAt: null, message: err instanceof Error ? err.message : "Unknown error" };
+}
+
+// ---------------------------------------------------------------------------
+// Browser store
+// ---------------------------------------------------------------------------
+
+/** Most responses kept in memory; the oldest are dropped first. */
+const MAX_STORED_RESPONSES = 50;
+
+/**
+ * Most characters of serialized responses written to localStorage, well below
+ * the ~5 MB origin quota the dashboard caches share. The oldest are left out first.
+ */
+const MAX_PERSISTED_CHARS = 1_000_000;
+
+/** Responses larger than this (serialized) are kept in memory only. */
+const MAX_PERSISTED_ENTRY_CHARS = 200_000;
+
+/** Delay before changes are written to localStorage, so a burst of responses is written once (ms). */
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Response store backed by localStorage, so revalidation works across page
+ * loads. Only the newest responses up to MAX_PERSISTED_CHARS are written,
+ * in one batch shortly after the last change (and when the page is hidden).
+ * Storage errors (Safari Private Mode, full storage) are ignored and the
+ * store keeps working in memory.
+ */
+export function createStorageStore(key: string): ResponseStore {
+  let entries: Record<string, StoredResponse> = {};
+  try {
+    entries = JSON.parse(localStorage.getItem(key) ?? "{}");
+  } catch {
+    /* Corrupt or unavailable: start empty */
+  }
+
+  // Each entry is serialized once when it changes; a write joins the strings
+  const serialized = new Map(Object.entries(entries).map(([url, entry]) => [url, JSON.stringify(entry)]));
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function persist() {
+    if (persistTimer !== null) clearTimeout(persistTimer);
+    persistTimer = null;
+
+    const parts: string[] = [];
+    let size = 0;
+    const newestFirst = Object.keys(entries).sort((a, b) => entries[b].storedAt - entries[a].storedAt);
+    for (const url of newestFirst) {
+      const json = serialized.get(url);
+      if (json === undefined || json.length > MAX_PERSISTED_ENTRY_CHARS) continue;
+      const part = `${JSON.stringify(url)}:${json}`;
+      if (size + part.length > MAX_PERSISTED_CHARS) break;
+      parts.push(part);
+      size += part.length;
+    }
+    try {
+      localStorage.setItem(key, `{${parts.join(",")}}`);
+    } catch {
+      /* Storage full or unavailable: keep the entries in memory only */
+    }
+  }
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", () => {
+      if (persistTimer !== null) persist();
+    });
+  }
+
+  return {
+    get: (url) => entries[url],
+    set: (url, entry) => {
+      entries[url] = entry;
+      serialized.set(url, JSON.stringify(entry));
+      const urls = Object.keys(entries);
+      if (urls.length > MAX_STORED_RESPONSES) {
+        urls
+          .sort((a, b) => entries[a].storedAt - entries[b].storedAt)
+          .slice(0, urls.length - MAX_STORED_RESPONSES)
+          .forEach((oldUrl) => {
+            delete entries[oldUrl];
+            serialized.delete(oldUrl);
+          });
+      }
+      if (persistTimer === null) persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+    },
+  };
+}
+
+/** localStorage key of the browser response store. */
+const BROWSER_STORE_KEY = "tuikit-github-responses";
+
+let sharedBrowserClient: GitHubClient | null = null;
+
+/**
+ * The client used by the dashboard hooks: one per page, so all hooks share
+ * the rate-limit backoff. Sends `PUBLIC_GITHUB_TOKEN` if set (5,000 instead
+ * of 60 requests per hour).
+ */
+export function browserGitHubClient(): GitHubClient {
+  if (!sharedBrowserClient) {
+    const headers: Record<string, string> = { Accept: "application/vnd.github+json" };
+    const token = import.meta.env.PUBLIC_GITHUB_TOKEN;
+    if (token && token.length > 0) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    sharedBrowserClient = createGitHubClient({ headers, store: createStorageStore(BROWSER_STORE_KEY) });
+  }
+  return sharedBrowserClient;
+}
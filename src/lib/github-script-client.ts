@@ -0,0 +1,58 @@
+/**
+ * GitHub client for the data scripts: the shared client from
+ * github-client.ts with its response store in a JSON file, so a scheduled
+ * run revalidates what the previous run fetched instead of downloading it
+ * again. The workflow keeps the file between runs with actions/cache.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createGitHubClient, type GitHubClient, type ResponseStore, type StoredResponse } from "./github-client";
+
+/** Response store file, relative to the project root (gitignored). */
+export const GITHUB_CACHE_FILE = ".cache/github-responses.json";
+
+/** Responses not revalidated for this long are dropped when the file is saved. */
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Response store backed by GITHUB_CACHE_FILE. Call `save()` once the script is done. */
+function createFileStore(): ResponseStore & { save(): void } {
+  const file = path.join(process.cwd(), GITHUB_CACHE_FILE);
+  let entries: Record<string, StoredResponse> = {};
+  try {
+    if (fs.existsSync(file)) entries = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err) {
+    console.warn("Failed to read GitHub response cache:", err);
+  }
+
+  return {
+    get: (url) => entries[url],
+    set: (url, entry) => {
+      entries[url] = entry;
+    },
+    save: () => {
+      const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+      const kept = Object.fromEntries(Object.entries(entries).filter(([, entry]) => entry.storedAt >= cutoff));
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(kept));
+    },
+  };
+}
+
+/**
+ * Creates the client for a script. Authenticates with `GITHUB_TOKEN` (or
+ * `PUBLIC_GITHUB_TOKEN`) when set. `save()` writes the response store back.
+ */
+export function createScriptClient(userAgent: string): GitHubClient & { save(): void } {
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+    "User-Agent": userAgent,
+  };
+  const token = process.env.GITHUB_TOKEN || process.env.PUBLIC_GITHUB_TOKEN;
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const store = createFileStore();
+  return { ...createGitHubClient({ headers, store }), save: store.save };
+}
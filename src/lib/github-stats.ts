@@ -0,0 +1,678 @@
+/**
+ * Fetching the dashboard's GitHub stats, shared by the live dashboard
+ * (useGitHubStats) and the snapshot script (update-github-stats.ts).
+ *
+ * With a token, one GraphQL query returns the counts, recent commits,
+ * languages and stargazers; without one (or if the query fails), ~13 REST
+ * requests do. Both produce the same `GitHubStats`. Commit activity and
+ * the contributor statistics always come from REST (the activity with the
+ * pre-generated weekly-activity-cache.json as fallback), and stargazers and
+ * contributors are merged with social-cache.json.
+ */
+
+import {
+  failureError,
+  failureOf,
+  isFailure,
+  lastPageOf,
+  type GitHubClient,
+  type GitHubFailure,
+  type GitHubResponse,
+  type RateLimit,
+  type RateLimitResource,
+} from "./github-client";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const OWNER = "phranck";
+const REPO = "TUIkit";
+const API = `/repos/${OWNER}/${REPO}`;
+
+/** Single commit entry from the GitHub API. */
+export interface CommitEntry {
+  sha: string;
+  /** First line of the commit message (title). */
+  title: string;
+  /** Lines after the first blank line (body), or null if single-line commit. */
+  body: string | null;
+  author: string;
+  /** GitHub login of the author, or null if the commit is not linked to an account (missing in data cached before it was read). */
+  login?: string | null;
+  date: string;
+  url: string;
+}
+
+/** Language breakdown (bytes per language). */
+export interface LanguageBreakdown {
+  [language: string]: number;
+}
+
+/** A user who starred the repository. */
+export interface Stargazer {
+  login: string;
+  avatarUrl: string;
+  profileUrl: string;
+  mastodon?: {
+    handle: string;
+    url: string;
+  };
+  twitter?: {
+    handle: string;
+    url: string;
+  };
+  bluesky?: {
+    handle: string;
+    url: string;
+  };
+}
+
+/** Commits of a contributor in one week. */
+export interface ContributorWeek {
+  /** Start of the week (Unix timestamp, seconds). */
+  week: number;
+  commits: number;
+}
+
+/** A contributor with their share of the history (and social accounts, like a stargazer). */
+export interface Contributor extends Stargazer {
+  commits: number;
+  /** Lines added over all commits, or null while GitHub computes the statistics. */
+  additions: number | null;
+  /** Lines deleted over all commits, or null (see additions). */
+  deletions: number | null;
+  /** Week (Unix timestamp, seconds) of the first commit, or null (see additions). */
+  firstWeek: number | null;
+  /** Week (Unix timestamp, seconds) of the latest commit, or null (see additions). */
+  lastWeek: number | null;
+  /** Commits per week over the last CONTRIBUTOR_WEEKS weeks, oldest first (empty, see additions). */
+  recentWeeks: ContributorWeek[];
+}
+
+/** Social account cache entry from the pre-generated JSON. */
+interface SocialCacheEntry {
+  login: string;
+  mastodon?: {
+    handle: string;
+    url: string;
+    source: string;
+    verified: boolean;
+  };
+  twitter?: {
+    handle: string;
+    url: string;
+    source: string;
+    verified: boolean;
+  };
+  bluesky?: {
+    handle: string;
+    url: string;
+    source: string;
+    verified: boolean;
+  };
+  updatedAt: string;
+}
+
+/** Structure of the social-cache.json file. */
+interface SocialCache {
+  generatedAt: string | null;
+  entries: Record<string, SocialCacheEntry>;
+}
+
+/** Weekly commit activity (52 weeks). */
+export interface WeeklyActivity {
+  week: number; // Unix timestamp
+  total: number;
+  days: number[]; // Sun–Sat
+}
+
+/** All GitHub stats shown on the dashboard (fetched live or from the snapshot). */
+export interface GitHubStats {
+  // Repo overview
+  stars: number;
+  forks: number;
+  watchers: number;
+  openIssues: number;
+  size: number; // KB
+  defaultBranch: string;
+  license: string | null;
+  createdAt: string;
+  updatedAt: string;
+  pushedAt: string;
+
+  // Counts
+  totalCommits: number;
+  openPRs: number;
+  closedPRs: number;
+  mergedPRs: number;
+  closedIssues: number;
+  releases: number;
+  contributors: number;
+  branches: number;
+  tags: number;
+
+  // Details
+  recentCommits: CommitEntry[];
+  languages: LanguageBreakdown;
+  weeklyActivity: WeeklyActivity[];
+  stargazers: Stargazer[];
+  /** Contributors with the most commits, most first. */
+  topContributors: Contributor[];
+
+  // Meta
+  loading: boolean;
+  /** Why the last fetch failed (rate limit, offline, HTTP error), or null. */
+  error: GitHubFailure | null;
+  rateLimit: RateLimit | null;
+}
+
+
+/** Snapshot of the stats, written by the scheduled data refresh: `GitHubStats` plus when it was taken. */
+export type GitHubStatsSnapshot = GitHubStats & {
+  /** ISO timestamp of the fetch. */
+  generatedAt: string;
+};
+
+/** Snapshot file, relative to `public/` (served at `/data/github-stats.json`). */
+export const STATS_SNAPSHOT_FILE = "data/github-stats.json";
+
+/**
+ * Reads one of the pre-generated JSON files in `public/` (e.g.
+ * "social-cache.json"), or null if it is not available: via fetch in the
+ * browser, from disk in the scripts.
+ */
+export type PublicJsonReader = <T>(file: string, signal: AbortSignal) => Promise<T | null>;
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch JSON from the repository API through the shared GitHub client
+ * (conditional requests, rate-limit backoff). Throws on failure; the error
+ * carries the GitHubFailure (see failureOf()).
+ */
+async function ghFetch<T>(client: GitHubClient, path: string, signal: AbortSignal): Promise<GitHubResponse<T>> {
+  const result = await client.request<T>(`${API}${path}`, { signal });
+  if (isFailure(result)) throw failureError(result.error);
+  return result;
+}
+
+/**
+ * Count total items via GET request + Link header pagination.
+ *
+ * Counts that fail with an HTTP error are 0, but a rate limit fails the
+ * whole fetch so the previous data is kept instead of being replaced by zeros.
+ */
+async function ghCount(client: GitHubClient, path: string, signal: AbortSignal): Promise<number> {
+  const result = await client.request<unknown>(`${API}${path}?per_page=1`, { signal });
+
+  if (isFailure(result)) {
+    if (result.error.reason === "rate-limited") throw failureError(result.error);
+    return 0;
+  }
+
+  const lastPage = lastPageOf(result.link);
+  if (lastPage > 0) return lastPage;
+
+  // If no Link header, count the items in the response
+  return Array.isArray(result.data) ? result.data.length : 0;
+}
+
+/**
+ * Splits a full commit message into title and optional body.
+ *
+ * Git convention: first line is title, blank line separator, then body.
+ */
+function splitCommitMessage(fullMessage: string): { title: string; body: string | null } {
+  const firstNewline = fullMessage.indexOf("\n");
+  if (firstNewline === -1) return { title: fullMessage, body: null };
+
+  const title = fullMessage.slice(0, firstNewline);
+  const rest = fullMessage.slice(firstNewline + 1).replace(/^\n+/, "");
+  return { title, body: rest.length > 0 ? rest : null };
+}
+
+/** Raw repository data from the GitHub REST API. */
+interface GitHubRepoResponse {
+  stargazers_count: number;
+  forks_count: number;
+  subscribers_count: number;
+  open_issues_count: number;
+  size: number;
+  default_branch: string;
+  license: { spdx_id: string } | null;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string;
+}
+
+/** Raw commit entry from the GitHub REST API. */
+export interface GitHubCommitResponse {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; date: string };
+  };
+  /** GitHub account of the author, null if the author's email is not linked to one. */
+  author: { login: string } | null;
+  html_url: string;
+}
+
+/** Raw stargazer entry from the GitHub REST API. */
+interface GitHubStargazerResponse {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+}
+
+/** Raw contributor entry from the GitHub REST API. */
+interface GitHubContributorResponse {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  contributions: number;
+  type: string;
+}
+
+/** Raw entry of the contributor statistics (all weeks since the first commit). */
+interface GitHubContributorStatsResponse {
+  total: number;
+  author: { login: string } | null;
+  weeks: Array<{ w: number; a: number; d: number; c: number }>;
+}
+
+/**
+ * Repository stats as fetched from GitHub (REST or GraphQL), before the
+ * commit activity, contributors and social accounts are added.
+ */
+type RepoStats = Omit<GitHubStats, "weeklyActivity" | "stargazers" | "topContributors" | "loading" | "error" | "rateLimit"> & {
+  stargazers: GitHubStargazerResponse[];
+};
+
+/**
+ * Number of recent commits requested (skip-ci commits are filtered out
+ * afterwards): one page, enough for the commit list's weekly summary.
+ */
+const RECENT_COMMITS = 100;
+
+/** Number of stargazers requested (first page, oldest first). */
+const STARGAZERS = 100;
+
+/** Number of contributors requested (first page, most commits first). */
+const CONTRIBUTORS = 100;
+
+/** Weeks of each contributor's activity kept for their mini heatmap. */
+export const CONTRIBUTOR_WEEKS = 26;
+
+/** A commit as returned by either API, before its message is split. */
+interface RawCommit {
+  sha: string;
+  message: string;
+  author: string;
+  login: string | null;
+  date: string;
+  url: string;
+}
+
+/** Converts commits to entries, dropping the data-refresh commits (`[skip ci]`). */
+export function toCommitEntries(commits: RawCommit[]): CommitEntry[] {
+  return commits
+    .filter((commit) => !commit.message.includes("[skip ci]"))
+    .map((commit) => {
+      const { title, body } = splitCommitMessage(commit.message);
+      return {
+        sha: commit.sha.slice(0, 7),
+        title,
+        body,
+        author: commit.author,
+        login: commit.login,
+        date: commit.date,
+        url: commit.url,
+      };
+    });
+}
+
+/** Reads a commit of the REST commits API. */
+export function fromRestCommit(commit: GitHubCommitResponse): RawCommit {
+  return {
+    sha: commit.sha,
+    message: commit.commit.message,
+    author: commit.commit.author.name,
+    login: commit.author?.login ?? null,
+    date: commit.commit.author.date,
+    url: commit.html_url,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// REST: one request per value, counts via Link header (works without a token)
+// ---------------------------------------------------------------------------
+
+/** Fetches the repository stats with ~12 REST requests. */
+async function fetchRestStats(client: GitHubClient, signal: AbortSignal): Promise<RepoStats> {
+  const [
+    repoResult,
+    commitsResult,
+    languagesResult,
+    openPRs,
+    closedPRs,
+    closedIssues,
+    releases,
+    contributors,
+    branches,
+    tags,
+    stargazersResult,
+    commitCountResult,
+  ] = await Promise.all([
+    ghFetch<GitHubRepoResponse>(client, "", signal),
+    ghFetch<GitHubCommitResponse[]>(client, `/commits?per_page=${RECENT_COMMITS}`, signal),
+    ghFetch<LanguageBreakdown>(client, "/languages", signal),
+    ghCount(client, "/pulls?state=open", signal),
+    ghCount(client, "/pulls?state=closed", signal),
+    ghCount(client, "/issues?state=closed", signal),
+    ghCount(client, "/releases", signal),
+    ghCount(client, "/contributors", signal),
+    ghCount(client, "/branches", signal),
+    ghCount(client, "/tags", signal),
+    ghFetch<GitHubStargazerResponse[]>(client, `/stargazers?per_page=${STARGAZERS}`, signal).catch(() => ({
+      data: [] as GitHubStargazerResponse[],
+    })),
+    // Count total commits via Link header
+    ghFetch<unknown>(client, "/commits?per_page=1", signal),
+  ]);
+
+  // Count merged PRs (GitHub search API, rate-limited separately: a failure only loses this count)
+  let mergedPRs = 0;
+  const searchResult = await client.request<{ total_count?: number }>(
+    `/search/issues?q=repo:${OWNER}/${REPO}+is:pr+is:merged&per_page=1`,
+    { signal },
+  );
+  if (!isFailure(searchResult)) {
+    mergedPRs = searchResult.data.total_count ?? 0;
+  }
+
+  const repo = repoResult.data;
+  return {
+    stars: repo.stargazers_count,
+    forks: repo.forks_count,
+    watchers: repo.subscribers_count,
+    openIssues: repo.open_issues_count,
+    size: repo.size,
+    defaultBranch: repo.default_branch,
+    license: repo.license?.spdx_id ?? null,
+    createdAt: repo.created_at,
+    updatedAt: repo.updated_at,
+    pushedAt: repo.pushed_at,
+    totalCommits: lastPageOf(commitCountResult.link),
+    openPRs,
+    closedPRs,
+    mergedPRs,
+    closedIssues,
+    releases,
+    contributors,
+    branches,
+    tags,
+    recentCommits: toCommitEntries(commitsResult.data.map(fromRestCommit)),
+    languages: languagesResult.data,
+    stargazers: stargazersResult.data,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GraphQL: all counts, commits, languages and stargazers in one query (token only)
+// ---------------------------------------------------------------------------
+
+/**
+ * The dashboard query. Counts mirror the REST values: GitHub's REST issue
+ * counts include pull requests, so `openIssues` and `closedIssues` add them
+ * in, and `closedPRs` (REST `state=closed`) includes merged ones.
+ */
+const STATS_QUERY = `
+  query DashboardStats($owner: String!, $name: String!, $commits: Int!, $stargazers: Int!) {
+    repository(owner: $owner, name: $name) {
+      stargazerCount
+      forkCount
+      watchers { totalCount }
+      diskUsage
+      licenseInfo { spdxId }
+      createdAt
+      updatedAt
+      pushedAt
+      openIssues: issues(states: OPEN) { totalCount }
+      closedIssues: issues(states: CLOSED) { totalCount }
+      openPRs: pullRequests(states: OPEN) { totalCount }
+      closedPRs: pullRequests(states: [CLOSED, MERGED]) { totalCount }
+      mergedPRs: pullRequests(states: MERGED) { totalCount }
+      releases { totalCount }
+      branches: refs(refPrefix: "refs/heads/") { totalCount }
+      tags: refs(refPrefix: "refs/tags/") { totalCount }
+      languages(first: 100) { edges { size node { name } } }
+      stargazers(first: $stargazers) { nodes { login avatarUrl url } }
+      defaultBranchRef {
+        name
+        target {
+          ... on Commit {
+            history(first: $commits) {
+              totalCount
+              nodes { oid message url author { name date user { login } } }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/** Shape of the STATS_QUERY result. */
+interface StatsQueryResult {
+  repository: {
+    stargazerCount: number;
+    forkCount: number;
+    watchers: { totalCount: number };
+    diskUsage: number | null;
+    licenseInfo: { spdxId: string | null } | null;
+    createdAt: string;
+    updatedAt: string;
+    pushedAt: string;
+    openIssues: { totalCount: number };
+    closedIssues: { totalCount: number };
+    openPRs: { totalCount: number };
+    closedPRs: { totalCount: number };
+    mergedPRs: { totalCount: number };
+    releases: { totalCount: number };
+    branches: { totalCount: number };
+    tags: { totalCount: number };
+    languages: { edges: Array<{ size: number; node: { name: string } }> };
+    stargazers: { nodes: Array<{ login: string; avatarUrl: string; url: string }> };
+    defaultBranchRef: {
+      name: string;
+      target: {
+        history?: {
+          totalCount: number;
+          nodes: Array<{ oid: string; message: string; url: string; author: { name: string | null; date: string | null; user: { login: string } | null } | null }>;
+        };
+      } | null;
+    } | null;
+  };
+}
+
+/**
+ * Fetches the repository stats with one GraphQL query. The contributor
+ * count has no GraphQL equivalent and comes from REST alongside it.
+ */
+async function fetchGraphQLStats(client: GitHubClient, signal: AbortSignal): Promise<RepoStats> {
+  const [result, contributors] = await Promise.all([
+    client.graphql<StatsQueryResult>(
+      STATS_QUERY,
+      { owner: OWNER, name: REPO, commits: RECENT_COMMITS, stargazers: STARGAZERS },
+      { signal },
+    ),
+    ghCount(client, "/contributors", signal),
+  ]);
+  if (isFailure(result)) throw failureError(result.error);
+
+  const repo = result.data.repository;
+  const history = repo.defaultBranchRef?.target?.history;
+  return {
+    stars: repo.stargazerCount,
+    forks: repo.forkCount,
+    watchers: repo.watchers.totalCount,
+    openIssues: repo.openIssues.totalCount + repo.openPRs.totalCount,
+    size: repo.diskUsage ?? 0,
+    defaultBranch: repo.defaultBranchRef?.name ?? "",
+    license: repo.licenseInfo?.spdxId ?? null,
+    createdAt: repo.createdAt,
+    updatedAt: repo.updatedAt,
+    pushedAt: repo.pushedAt,
+    totalCommits: history?.totalCount ?? 0,
+    openPRs: repo.openPRs.totalCount,
+    closedPRs: repo.closedPRs.totalCount,
+    mergedPRs: repo.mergedPRs.totalCount,
+    closedIssues: repo.closedIssues.totalCount + repo.closedPRs.totalCount,
+    releases: repo.releases.totalCount,
+    contributors,
+    branches: repo.branches.totalCount,
+    tags: repo.tags.totalCount,
+    recentCommits: toCommitEntries(
+      (history?.nodes ?? []).map((commit) => ({
+        sha: commit.oid,
+        message: commit.message,
+        author: commit.author?.name ?? "",
+        login: commit.author?.user?.login ?? null,
+        date: commit.author?.date ?? "",
+        url: commit.url,
+      })),
+    ),
+    languages: Object.fromEntries(repo.languages.edges.map((edge) => [edge.node.name, edge.size])),
+    stargazers: repo.stargazers.nodes.map((user) => ({ login: user.login, avatar_url: user.avatarUrl, html_url: user.url })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Shared by both paths
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetches the weekly commit activity (REST only, no GraphQL equivalent).
+ * On failure or an empty response (the stats endpoint answers 202 while
+ * computing), falls back to the pre-generated cache.
+ */
+async function fetchWeeklyActivity(
+  client: GitHubClient,
+  readPublicJson: PublicJsonReader,
+  signal: AbortSignal,
+): Promise<WeeklyActivity[]> {
+  try {
+    const res = await ghFetch<WeeklyActivity[]>(client, "/stats/commit_activity", signal);
+    if (Array.isArray(res.data) && res.data.length > 0) return res.data;
+  } catch (err) {
+    if (signal.aborted) throw err;
+  }
+  return (await readPublicJson<WeeklyActivity[]>("weekly-activity-cache.json", signal)) ?? [];
+}
+
+/** Reads the social account cache to merge with the stargazers (empty if not available). */
+async function readSocialCache(readPublicJson: PublicJsonReader, signal: AbortSignal): Promise<SocialCache> {
+  return (await readPublicJson<SocialCache>("social-cache.json", signal)) ?? { generatedAt: null, entries: {} };
+}
+
+/**
+ * Fetches the contributors with their commits, additions/deletions and
+ * weekly activity. The statistics endpoint answers 202 while GitHub computes
+ * them; until then, contributors have their commit count only. Other HTTP
+ * errors leave the list empty, but a rate limit fails the whole fetch so the
+ * previous data is kept.
+ */
+async function fetchContributors(client: GitHubClient, socialCache: SocialCache, signal: AbortSignal): Promise<Contributor[]> {
+  const [listResult, statsResult] = await Promise.all([
+    client.request<GitHubContributorResponse[]>(`${API}/contributors?per_page=${CONTRIBUTORS}`, { signal }),
+    client.request<GitHubContributorStatsResponse[]>(`${API}/stats/contributors`, { signal }),
+  ]);
+  if (isFailure(listResult) && listResult.error.reason === "rate-limited") throw failureError(listResult.error);
+  if (isFailure(statsResult) && statsResult.error.reason === "rate-limited") throw failureError(statsResult.error);
+  if (isFailure(listResult)) return [];
+
+  const stats = !isFailure(statsResult) && Array.isArray(statsResult.data) ? statsResult.data : [];
+  const statsByLogin = new Map(stats.flatMap((entry) => (entry.author ? [[entry.author.login, entry] as const] : [])));
+
+  return listResult.data
+    .filter((user) => user.type !== "Bot")
+    .map((user) => {
+      const entry = statsByLogin.get(user.login);
+      const activeWeeks = entry?.weeks.filter((week) => week.c > 0) ?? [];
+      return {
+        ...toStargazer(user, socialCache),
+        commits: entry?.total ?? user.contributions,
+        additions: entry ? entry.weeks.reduce((sum, week) => sum + week.a, 0) : null,
+        deletions: entry ? entry.weeks.reduce((sum, week) => sum + week.d, 0) : null,
+        firstWeek: activeWeeks.length > 0 ? activeWeeks[0].w : null,
+        lastWeek: activeWeeks.length > 0 ? activeWeeks[activeWeeks.length - 1].w : null,
+        recentWeeks: (entry?.weeks ?? []).slice(-CONTRIBUTOR_WEEKS).map((week) => ({ week: week.w, commits: week.c })),
+      };
+    })
+    .sort((a, b) => b.commits - a.commits);
+}
+
+/** Adds the cached social accounts to a GitHub user (stargazer or contributor). */
+function toStargazer(user: GitHubStargazerResponse, socialCache: SocialCache): Stargazer {
+  const cacheEntry = socialCache.entries[user.login];
+  return {
+    login: user.login,
+    avatarUrl: user.avatar_url,
+    profileUrl: user.html_url,
+    mastodon: cacheEntry?.mastodon ? { handle: cacheEntry.mastodon.handle, url: cacheEntry.mastodon.url } : undefined,
+    twitter: cacheEntry?.twitter ? { handle: cacheEntry.twitter.handle, url: cacheEntry.twitter.url } : undefined,
+    bluesky: cacheEntry?.bluesky ? { handle: cacheEntry.bluesky.handle, url: cacheEntry.bluesky.url } : undefined,
+  };
+}
+
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetches all dashboard stats: GraphQL when the client has a token (REST if
+ * the query fails), REST otherwise. Throws on failure; failureOf() recovers
+ * the GitHubFailure.
+ */
+export async function fetchGitHubStats(
+  client: GitHubClient,
+  readPublicJson: PublicJsonReader,
+  signal: AbortSignal,
+): Promise<GitHubStats> {
+  let rateLimitResource: RateLimitResource = "core";
+  const repoStatsPromise = client.authenticated
+    ? fetchGraphQLStats(client, signal).then(
+        (repoStats) => {
+          rateLimitResource = "graphql";
+          return repoStats;
+        },
+        (err) => {
+          if (signal.aborted) throw err;
+          console.warn("Failed to fetch stats via GraphQL, using REST:", failureOf(err).message);
+          return fetchRestStats(client, signal);
+        },
+      )
+    : fetchRestStats(client, signal);
+
+  const socialCachePromise = readSocialCache(readPublicJson, signal);
+  const [repoStats, weeklyActivity, socialCache, topContributors] = await Promise.all([
+    repoStatsPromise,
+    fetchWeeklyActivity(client, readPublicJson, signal),
+    socialCachePromise,
+    socialCachePromise.then((cache) => fetchContributors(client, cache, signal)),
+  ]);
+
+  return {
+    ...repoStats,
+    weeklyActivity,
+    stargazers: repoStats.stargazers.map((user) => toStargazer(user, socialCache)),
+    topContributors,
+    loading: false,
+    error: null,
+    rateLimit: client.rateLimit(rateLimitResource),
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * Open pull requests and issues of the TUIkit repository for the dashboard's
+ * explorer panel: labels, assignees, age and review state, plus response
+ * metrics computed from the recent history (median time to merge, median
+ * time to first response).
+ *
+ * Everything comes from REST list endpoints (one request each, revalidated
+ * with conditional requests by the GitHub client). The review state needs a
+ * request per open pull request, so it is looked up separately
+ * (fetchReviewStates), as far as the caller's rate limit allows.
+ */
+
+import { failureError, isFailure, type GitHubClient } from "./github-client";
+
+/** Repository the explorer lists. */
+const EXPLORER_REPO = "phranck/TUIkit";
+
+/** Items per list request (the API's maximum). */
+const PER_PAGE = 100;
+
+/** Most open pull requests whose reviews are looked up (one request each). */
+export const MAX_REVIEW_LOOKUPS = 20;
+
+/** Days without activity after which an open item counts as stale. */
+export const STALE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Review state of an open pull request:
+ * - `approved` / `changes-requested`: the latest review of a reviewer says so
+ * - `commented`: reviewed with comments only
+ * - `review-required`: reviewers are requested, nobody has reviewed yet
+ * - `none`: no reviewers and no reviews
+ * - `draft`: still a draft
+ * - `unknown`: not looked up (not enough rate limit, or beyond MAX_REVIEW_LOOKUPS)
+ */
+export type ReviewState = "approved" | "changes-requested" | "commented" | "review-required" | "none" | "draft" | "unknown";
+
+/** A GitHub user as shown in the panel. */
+export interface ExplorerUser {
+  login: string;
+  avatarUrl: string;
+}
+
+/** A label with its color (hex without `#`). */
+export interface ExplorerLabel {
+  name: string;
+  color: string;
+}
+
+/** An open pull request or issue. */
+export interface ExplorerItem {
+  number: number;
+  title: string;
+  url: string;
+  author: ExplorerUser | null;
+  labels: ExplorerLabel[];
+  assignees: ExplorerUser[];
+  createdAt: string;
+  /** Last activity (comments, pushes, label changes). */
+  updatedAt: string;
+  /** Conversation comments; 0 for a pull request beyond the first page of open issues. */
+  comments: number;
+  /** Pull requests only; null for issues. */
+  reviewState: ReviewState | null;
+  /** Pull requests only: whether reviewers are requested. */
+  reviewRequested?: boolean;
+}
+
+/** Medians over the recent history, in days (null without any sample). */
+export interface ExplorerMetrics {
+  medianDaysToMerge: number | null;
+  /** Merged pull requests the median is based on. */
+  mergedCount: number;
+  medianDaysToFirstResponse: number | null;
+  /** Issues and pull requests with a response the median is based on. */
+  respondedCount: number;
+}
+
+/** Data of the explorer panel. */
+export interface ExplorerData {
+  pullRequests: ExplorerItem[];
+  issues: ExplorerItem[];
+  metrics: ExplorerMetrics;
+}
+
+// ---------------------------------------------------------------------------
+// GitHub response shapes
+// ---------------------------------------------------------------------------
+
+interface GitHubUserResponse {
+  login: string;
+  avatar_url: string;
+  type?: string;
+}
+
+interface GitHubIssueResponse {
+  number: number;
+  title: string;
+  html_url: string;
+  user: GitHubUserResponse | null;
+  labels: Array<{ name: string; color: string }>;
+  assignees: GitHubUserResponse[] | null;
+  created_at: string;
+  updated_at: string;
+  comments: number;
+  /** Present when the issue is a pull request. */
+  pull_request?: unknown;
+}
+
+interface GitHubPullResponse {
+  number: number;
+  title: string;
+  html_url: string;
+  user: GitHubUserResponse | null;
+  labels: Array<{ name: string; color: string }>;
+  assignees: GitHubUserResponse[] | null;
+  requested_reviewers: GitHubUserResponse[] | null;
+  draft?: boolean;
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+}
+
+interface GitHubReviewResponse {
+  user: GitHubUserResponse | null;
+  state: "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "DISMISSED" | "PENDING";
+}
+
+interface GitHubCommentResponse {
+  user: GitHubUserResponse | null;
+  created_at: string;
+  /** Issue comments: the issue (or pull request) URL. */
+  issue_url?: string;
+  /** Review comments: the pull request URL. */
+  pull_request_url?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+/** Median of a list of numbers, or null if it is empty. */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/** Days between two ISO dates. */
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / DAY_MS;
+}
+
+/** Days since an ISO date. */
+export function ageInDays(isoDate: string, now = Date.now()): number {
+  return (now - Date.parse(isoDate)) / DAY_MS;
+}
+
+/** Whether an open item has had no activity for more than STALE_DAYS. */
+export function isStale(item: ExplorerItem, now = Date.now()): boolean {
+  return ageInDays(item.updatedAt, now) > STALE_DAYS;
+}
+
+/** Issue/PR number at the end of an API URL (`.../issues/42`, `.../pulls/42`). */
+function numberOfUrl(url: string | undefined): number | null {
+  const match = url?.match(/\/(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/** Whether a user is a bot (GitHub Actions, Dependabot, ...): bots do not count as a response. */
+function isBot(user: GitHubUserResponse | null): boolean {
+  return !user || user.type === "Bot" || user.login.endsWith("[bot]");
+}
+
+/**
+ * Oldest date from which a list of the latest comments is complete: the
+ * oldest comment of a full page (older ones did not fit), or "" if the page
+ * holds all comments.
+ */
+function commentsCompleteSince(comments: GitHubCommentResponse[]): string {
+  if (comments.length < PER_PAGE) return "";
+  return comments.reduce((oldest, comment) => (comment.created_at < oldest ? comment.created_at : oldest), comments[0].created_at);
+}
+
+/**
+ * Days from opening to the first comment by someone other than the author
+ * (bots left out), for each item that has one among the given comments.
+ * Items opened before `completeSince` are left out: their first response
+ * may be older than the comments at hand.
+ */
+function firstResponseDays(items: GitHubIssueResponse[], comments: GitHubCommentResponse[], completeSince: string): number[] {
+  const covered = items.filter((item) => item.created_at >= completeSince);
+  const firstResponse = new Map<number, string>();
+  const authors = new Map(covered.map((item) => [item.number, item.user?.login ?? null]));
+
+  for (const comment of comments) {
+    const number = numberOfUrl(comment.issue_url ?? comment.pull_request_url);
+    if (number === null || !authors.has(number)) continue;
+    if (isBot(comment.user) || comment.user?.login === authors.get(number)) continue;
+    const known = firstResponse.get(number);
+    if (!known || comment.created_at < known) firstResponse.set(number, comment.created_at);
+  }
+
+  return covered.flatMap((item) => {
+    const respondedAt = firstResponse.get(item.number);
+    return respondedAt ? [Math.max(0, daysBetween(item.created_at, respondedAt))] : [];
+  });
+}
+
+/** Medians of the merged pull requests and first responses among the given history. */
+function explorerMetrics(
+  closedPulls: GitHubPullResponse[],
+  recentItems: GitHubIssueResponse[],
+  commentLists: GitHubCommentResponse[][],
+): ExplorerMetrics {
+  const mergeDays = closedPulls.flatMap((pull) => (pull.merged_at ? [daysBetween(pull.created_at, pull.merged_at)] : []));
+  // Every list must reach back to an item's opening for its first response to be known
+  const completeSince = commentLists.map(commentsCompleteSince).reduce((latest, since) => (since > latest ? since : latest), "");
+  const responseDays = firstResponseDays(recentItems, commentLists.flat(), completeSince);
+  return {
+    medianDaysToMerge: median(mergeDays),
+    mergedCount: mergeDays.length,
+    medianDaysToFirstResponse: median(responseDays),
+    respondedCount: responseDays.length,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+/** Review state from the reviews of a pull request (the latest review of each reviewer counts). */
+function reviewStateOf(pull: ExplorerItem, reviews: GitHubReviewResponse[]): ReviewState {
+  const latest = new Map<string, GitHubReviewResponse["state"]>();
+  for (const review of reviews) {
+    if (!review.user || review.state === "PENDING") continue;
+    // A later comment-only review does not undo an approval or change request
+    if (review.state === "COMMENTED" && latest.has(review.user.login)) continue;
+    latest.set(review.user.login, review.state);
+  }
+  const states = [...latest.values()];
+  if (states.includes("CHANGES_REQUESTED")) return "changes-requested";
+  if (states.includes("APPROVED")) return "approved";
+  if (states.includes("COMMENTED")) return "commented";
+  return pull.reviewRequested ? "review-required" : "none";
+}
+
+function toUser(user: GitHubUserResponse): ExplorerUser {
+  return { login: user.login, avatarUrl: user.avatar_url };
+}
+
+function toItem(item: GitHubIssueResponse | GitHubPullResponse, reviewState: ReviewState | null, comments: number): ExplorerItem {
+  const pullFields = "requested_reviewers" in item ? { reviewRequested: (item.requested_reviewers ?? []).length > 0 } : {};
+  return {
+    number: item.number,
+    title: item.title,
+    url: item.html_url,
+    author: item.user ? toUser(item.user) : null,
+    labels: item.labels.map((label) => ({ name: label.name, color: label.color })),
+    assignees: (item.assignees ?? []).map(toUser),
+    createdAt: item.created_at,
+    updatedAt: item.updated_at,
+    comments,
+    reviewState,
+    ...pullFields,
+  };
+}
+
+/** Fetches a list endpoint of the repository. Throws (failureError) if the request fails. */
+async function fetchList<T>(client: GitHubClient, path: string, signal?: AbortSignal): Promise<T[]> {
+  const separator = path.includes("?") ? "&" : "?";
+  const result = await client.request<T[]>(`/repos/${EXPLORER_REPO}${path}${separator}per_page=${PER_PAGE}`, { signal });
+  if (isFailure(result)) throw failureError(result.error);
+  return result.data;
+}
+
+/**
+ * Fetches the open pull requests and issues (newest first) and the metrics
+ * over the latest 100 closed pull requests and the latest 100 opened
+ * issues/pull requests, in six requests. Review states are left `unknown`
+ * (drafts excepted) for fetchReviewStates. Throws (failureError) if a
+ * request fails.
+ */
+export async function fetchExplorerData(client: GitHubClient, signal?: AbortSignal): Promise<ExplorerData> {
+  const [openPulls, openIssues, closedPulls, recentItems, issueComments, reviewComments] = await Promise.all([
+    fetchList<GitHubPullResponse>(client, "/pulls?state=open", signal),
+    fetchList<GitHubIssueResponse>(client, "/issues?state=open", signal),
+    fetchList<GitHubPullResponse>(client, "/pulls?state=closed&sort=updated&direction=desc", signal),
+    fetchList<GitHubIssueResponse>(client, "/issues?state=all&sort=created&direction=desc", signal),
+    fetchList<GitHubCommentResponse>(client, "/issues/comments?sort=created&direction=desc", signal),
+    fetchList<GitHubCommentResponse>(client, "/pulls/comments?sort=created&direction=desc", signal),
+  ]);
+
+  // The pulls endpoint has no comment counts, but the issues endpoint lists pull requests too
+  const commentCounts = new Map(openIssues.map((issue) => [issue.number, issue.comments]));
+
+  return {
+    pullRequests: openPulls.map((pull) => toItem(pull, pull.draft ? "draft" : "unknown", commentCounts.get(pull.number) ?? 0)),
+    issues: openIssues.filter((issue) => issue.pull_request === undefined).map((issue) => toItem(issue, null, issue.comments)),
+    metrics: explorerMetrics(closedPulls, recentItems, [issueComments, reviewComments]),
+  };
+}
+
+/**
+ * Looks up the review state of the newest open pull requests, at most
+ * `maxLookups` of them (one request each, capped at MAX_REVIEW_LOOKUPS).
+ * Pull requests without activity since `previous` keep their state from it
+ * without a request. Best effort: a failed lookup leaves the state `unknown`.
+ */
+export async function fetchReviewStates(
+  client: GitHubClient,
+  data: ExplorerData,
+  maxLookups: number,
+  previous: ExplorerData | null = null,
+  signal?: AbortSignal,
+): Promise<ExplorerData> {
+  const states = new Map<number, ReviewState>();
+  for (const pull of previous?.pullRequests ?? []) {
+    const current = data.pullRequests.find((item) => item.number === pull.number);
+    if (pull.reviewState && pull.reviewState !== "unknown" && current?.updatedAt === pull.updatedAt) states.set(pull.number, pull.reviewState);
+  }
+
+  const pending = data.pullRequests
+    .filter((pull) => pull.reviewState === "unknown" && !states.has(pull.number))
+    .slice(0, Math.min(maxLookups, MAX_REVIEW_LOOKUPS));
+  await Promise.all(
+    pending.map(async (pull) => {
+      const result = await client.request<GitHubReviewResponse[]>(`/repos/${EXPLORER_REPO}/pulls/${pull.number}/reviews?per_page=${PER_PAGE}`, { signal });
+      if (!isFailure(result)) states.set(pull.number, reviewStateOf(pull, result.data));
+    }),
+  );
+
+  return {
+    ...data,
+    pullRequests: data.pullRequests.map((pull) => {
+      const reviewState = states.get(pull.number);
+      return reviewState ? { ...pull, reviewState } : pull;
+    }),
+  };
+}
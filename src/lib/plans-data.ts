@@ -0,0 +1,86 @@
+/**
+ * Build-time access to the plans downloaded by scripts/update-plans-data.ts:
+ * the list in public/data/plans.json, the full markdown of every plan in
+ * public/data/plans/<slug>.md and the checklist history in
+ * public/data/plans-history.json. Used by the static /plans pages and the
+ * data script itself.
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  countTaskSections,
+  detectPlanLocale,
+  planLocale,
+  primaryLanguageFirst,
+  stripTitle,
+  sumTasks,
+  type PlanEntry,
+  type PlanStatus,
+  type PlansData,
+  type PlansHistory,
+  type PlanSummary,
+} from "./plans";
+
+/** A plan with everything its page needs. */
+export interface PlanDocument extends PlanEntry {
+  /** Full markdown without the title line, or null if it hasn't been downloaded yet. */
+  content: string | null;
+}
+
+/** Plan list, relative to the project root. */
+export const PLANS_FILE = "public/data/plans.json";
+
+/** Directory with the full markdown of each plan, relative to the project root. */
+export const PLAN_CONTENT_DIR = "public/data/plans";
+
+/** Checklist progress history, relative to the project root. */
+export const PLANS_HISTORY_FILE = "public/data/plans-history.json";
+
+/** Reads the full markdown of a plan, or null if it isn't there. */
+function readPlanContent(slug: string): string | null {
+  const file = path.join(process.cwd(), PLAN_CONTENT_DIR, `${slug}.md`);
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : null;
+}
+
+/**
+ * Loads all plans, open ones first, each group with the English plans first
+ * and newest first within a language. A slug that appears in both groups (a
+ * plan moved between runs) is listed once, as open.
+ */
+export function loadPlans(): PlanDocument[] {
+  const data: PlansData = JSON.parse(fs.readFileSync(path.join(process.cwd(), PLANS_FILE), "utf-8"));
+  const plans: PlanDocument[] = [];
+  const seen = new Set<string>();
+
+  const add = (summaries: PlanSummary[], status: PlanStatus) => {
+    for (const summary of summaries) {
+      if (seen.has(summary.slug)) continue;
+      seen.add(summary.slug);
+      const raw = readPlanContent(summary.slug);
+      const content = raw === null ? null : stripTitle(raw);
+      // Count from the document when it is there, else use the counts from plans.json
+      const sections = content !== null ? countTaskSections(content) : (summary.sections ?? []);
+      const tasks = content !== null ? sumTasks(sections) : (summary.tasks ?? { done: 0, total: 0 });
+      const locale = summary.locale ?? (content !== null ? detectPlanLocale(content) : planLocale(summary));
+      plans.push({ ...summary, status, locale, content, tasks, sections });
+    }
+  };
+  add(primaryLanguageFirst(data.open), "open");
+  add(primaryLanguageFirst(data.done), "done");
+
+  return plans;
+}
+
+/** Loads the plan history, or an empty one if it hasn't been recorded yet. */
+export function loadPlansHistory(): PlansHistory {
+  const file = path.join(process.cwd(), PLANS_HISTORY_FILE);
+  if (!fs.existsSync(file)) return { updated: "", plans: {}, lifecycle: {} };
+  const history: Partial<PlansHistory> = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return { updated: history.updated ?? "", plans: history.plans ?? {}, lifecycle: history.lifecycle ?? {} };
+}
+
+/** Strips the plan documents down to what the /plans list needs. */
+export function toPlanEntries(plans: PlanDocument[]): PlanEntry[] {
+  return plans.map(({ content: _content, ...entry }) => entry);
+}
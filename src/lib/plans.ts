@@ -0,0 +1,292 @@
+/**
+ * Development plans of the TUIkit repository (`.claude/plans/open` and
+ * `.claude/plans/done`), as collected by scripts/update-plans-data.ts.
+ *
+ * Pure helpers shared by the dashboard, the /plans pages and the data
+ * script. Reading the plan files from disk lives in plans-data.ts.
+ */
+
+import { DEFAULT_LOCALE, type Locale } from "../i18n";
+
+/** Whether a plan is still being worked on or has been completed. */
+export type PlanStatus = "open" | "done";
+
+/** A plan as listed in public/data/plans.json. */
+export interface PlanSummary {
+  /** ISO date from the file name (YYYY-MM-DD). */
+  date: string;
+  /** File name without date prefix and `.md`, used in `/plans/<slug>` URLs. */
+  slug: string;
+  title: string;
+  /** Markdown of the plan's `## Preface` section (see normalizePreface). */
+  preface: string;
+  /** Language the plan is written in (missing in data written before it was detected). */
+  locale?: Locale;
+  /** Checklist progress (missing in data written before it was tracked). */
+  tasks?: TaskProgress;
+  /** Checklist progress per heading, e.g. per priority level. */
+  sections?: TaskSection[];
+  /** ISO timestamp of the first commit of the plan file (see PlanLifecycle). */
+  opened?: string;
+  /** ISO timestamp of the move to `done/`, for completed plans. */
+  completed?: string;
+}
+
+/** Contents of public/data/plans.json. */
+export interface PlansData {
+  generated: string;
+  open: PlanSummary[];
+  done: PlanSummary[];
+}
+
+/** Checklist items of a plan (`- [ ]` and `- [x]`). */
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+/** Checklist items under one heading of a plan. */
+export interface TaskSection extends TaskProgress {
+  /** Text of the nearest `##`/`###` heading above the items ("" before the first heading). */
+  heading: string;
+}
+
+/** A plan with its status, language and checklist progress, as listed on the /plans page. */
+export interface PlanEntry extends PlanSummary {
+  status: PlanStatus;
+  locale: Locale;
+  tasks: TaskProgress;
+  sections: TaskSection[];
+}
+
+/** Checklist progress of a plan on one day. */
+export interface PlanHistoryPoint extends TaskProgress {
+  /** ISO date (YYYY-MM-DD) of the data refresh. */
+  date: string;
+}
+
+/**
+ * When a plan was opened and completed, from the commit dates of its file in
+ * `open/` and `done/`. Kept across runs, since plans.json only knows a
+ * plan's current directory.
+ */
+export interface PlanLifecycle {
+  /** ISO timestamp of the first commit of the plan file. */
+  opened: string;
+  /** ISO timestamp of the first commit in `done/`, or null while the plan is open. */
+  completed: string | null;
+}
+
+/**
+ * Contents of public/data/plans-history.json: checklist progress over time
+ * and the lifecycle of each plan, by slug.
+ */
+export interface PlansHistory {
+  updated: string;
+  plans: Record<string, PlanHistoryPoint[]>;
+  lifecycle: Record<string, PlanLifecycle>;
+}
+
+/** Repository the plans live in. */
+export const PLANS_REPO = "phranck/TUIkit";
+
+/** Directory of a plan file in the repository, by status. */
+export function planDirectory(status: PlanStatus): string {
+  return `.claude/plans/${status}`;
+}
+
+/** URL of a plan file on GitHub. */
+export function planGitHubUrl(plan: PlanEntry): string {
+  return `https://github.com/${PLANS_REPO}/blob/main/${planDirectory(plan.status)}/${plan.date}-${plan.slug}.md`;
+}
+
+/**
+ * Resolves a link or image source of a plan document. Relative paths point
+ * into the repository (images to the raw file), anchors and absolute URLs
+ * are kept.
+ */
+export function resolvePlanUrl(url: string, status: PlanStatus, kind: "link" | "image" = "link"): string {
+  if (url.startsWith("#")) return url;
+  const base =
+    kind === "image"
+      ? `https://raw.githubusercontent.com/${PLANS_REPO}/main/${planDirectory(status)}/`
+      : `https://github.com/${PLANS_REPO}/blob/main/${planDirectory(status)}/`;
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return url;
+  }
+}
+
+/** Matches a markdown task list item: "- [x] Done", "* [ ] Todo", "1. [X] Done". */
+const TASK_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s/;
+
+/** Matches the headings checklist items are grouped by ("## Priority 1: Critical"). */
+const SECTION_HEADING_REGEX = /^#{2,3}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Counts the checklist items of a plan per `##`/`###` heading, in document
+ * order. Headings without items are left out. Items inside fenced code
+ * blocks (e.g., markdown examples) are ignored.
+ */
+export function countTaskSections(markdown: string): TaskSection[] {
+  const sections: TaskSection[] = [];
+  let heading = "";
+  let current: TaskSection | null = null;
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const headingMatch = line.match(SECTION_HEADING_REGEX);
+    if (headingMatch) {
+      heading = headingMatch[1];
+      current = null;
+      continue;
+    }
+
+    const match = line.match(TASK_ITEM_REGEX);
+    if (!match) continue;
+    if (!current) {
+      current = { heading, done: 0, total: 0 };
+      sections.push(current);
+    }
+    current.total++;
+    if (match[1] !== " ") current.done++;
+  }
+
+  return sections;
+}
+
+/** Counts all checklist items of a plan. */
+export function countTasks(markdown: string): TaskProgress {
+  return sumTasks(countTaskSections(markdown));
+}
+
+/** Adds up the checklist progress of several sections. */
+export function sumTasks(sections: TaskProgress[]): TaskProgress {
+  return sections.reduce(
+    (sum, section) => ({ done: sum.done + section.done, total: sum.total + section.total }),
+    { done: 0, total: 0 },
+  );
+}
+
+/** Completed share of the checklist (0–1), or null for plans without one. */
+export function taskRatio(progress: TaskProgress): number | null {
+  return progress.total > 0 ? progress.done / progress.total : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days from opening to completion, or null if either date is unknown. */
+export function cycleDays(plan: Pick<PlanSummary, "opened" | "completed">): number | null {
+  if (!plan.opened || !plan.completed) return null;
+  return Math.max(0, Date.parse(plan.completed) - Date.parse(plan.opened)) / DAY_MS;
+}
+
+/** Mean cycle time in days of the plans with a known one, or null if there are none. */
+export function averageCycleDays(plans: PlanSummary[]): number | null {
+  const days = plans.map(cycleDays).filter((value): value is number => value !== null);
+  return days.length > 0 ? days.reduce((sum, value) => sum + value, 0) / days.length : null;
+}
+
+/** Completed plans with a known completion date, most recently completed first. */
+export function recentlyShipped(plans: PlanSummary[], count: number): PlanSummary[] {
+  return plans
+    .filter((plan) => plan.completed)
+    .sort((a, b) => Date.parse(b.completed ?? "") - Date.parse(a.completed ?? ""))
+    .slice(0, count);
+}
+
+/**
+ * Frequent short words per locale. Plans are written in English or German,
+ * often without umlauts ("oeffentlichen"), so common words are a more
+ * reliable signal than the alphabet.
+ */
+const STOPWORDS: Record<Locale, Set<string>> = {
+  en: new Set("the and is are was of to in for with this that on by from be as an it not will all into now".split(" ")),
+  de: new Set("der die das und ist sind nicht mit für fuer auf aus den dem des ein eine einer zu von im wird werden sich auch als bei nach oder über ueber wie alle zwei".split(" ")),
+};
+
+/**
+ * Detects the language of a plan from its markdown. Code (fenced blocks and
+ * inline spans) is ignored; ties fall back to English.
+ */
+export function detectPlanLocale(markdown: string): Locale {
+  const prose = markdown.replace(/```[\s\S]*?```|~~~[\s\S]*?~~~/g, " ").replace(/`[^`\n]*`/g, " ");
+  const words = prose.toLowerCase().match(/[a-zäöüß]+/g) ?? [];
+
+  let best: Locale = DEFAULT_LOCALE;
+  let bestScore = 0;
+  for (const [locale, stopwords] of Object.entries(STOPWORDS) as [Locale, Set<string>][]) {
+    const score = words.filter((word) => stopwords.has(word)).length;
+    if (score > bestScore) {
+      best = locale;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Language of a plan: the detected one from plans.json, or detected from title and preface. */
+export function planLocale(plan: PlanSummary): Locale {
+  return plan.locale ?? detectPlanLocale(`${plan.title}\n${plan.preface}`);
+}
+
+/** Language the plan lists lead with: plans in other languages follow, or show on request. */
+export const PRIMARY_PLAN_LOCALE: Locale = "en";
+
+/** Plans in the primary language first, each group keeping its order. */
+export function primaryLanguageFirst<T extends PlanSummary>(plans: T[]): T[] {
+  const isPrimary = (plan: T) => planLocale(plan) === PRIMARY_PLAN_LOCALE;
+  return [...plans.filter(isPrimary), ...plans.filter((plan) => !isPrimary(plan))];
+}
+
+/** Matches a list item line ("- item", "1. item"). */
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Cleans up a preface for display as a short summary: drops HTML comments,
+ * horizontal rules (`---`) and headings, joins hard-wrapped lines into
+ * paragraphs and list items, and collapses blank lines. Inline markdown
+ * (bold, code, links) and lists are kept.
+ */
+export function normalizePreface(markdown: string): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(paragraph.join("\n"));
+    paragraph = [];
+  };
+
+  const lines = markdown.replace(/<!--[\s\S]*?-->/g, "").split("\n");
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || /^([-*_])(\s*\1){2,}$/.test(line) || /^#{1,6}\s/.test(line)) {
+      flush();
+      continue;
+    }
+    const isListItem = LIST_ITEM_REGEX.test(rawLine);
+    // A list starts its own block, separated from the text before it
+    if (isListItem && paragraph.length > 0 && !LIST_ITEM_REGEX.test(paragraph[0])) flush();
+    if (isListItem || paragraph.length === 0) {
+      paragraph.push(line);
+    } else {
+      // Continuation of the previous line (hard wrap)
+      paragraph[paragraph.length - 1] += ` ${line}`;
+    }
+  }
+  flush();
+
+  return blocks.join("\n\n");
+}
+
+/** Returns the markdown without its leading `# Title` line (shown separately). */
+export function stripTitle(markdown: string): string {
+  return markdown.replace(/^\s*#\s+.+\n?/, "");
+}
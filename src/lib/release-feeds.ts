@@ -0,0 +1,132 @@
+/**
+ * RSS 2.0 and Atom feeds of the TUIkit releases, served at
+ * /releases/rss.xml and /releases/atom.xml (src/pages/releases/). Each
+ * entry carries the full release notes as HTML and links to the release's
+ * page on the site.
+ *
+ * Built at build time from public/data/releases.json; feed readers pick up
+ * a new release with the next deploy after the scheduled data refresh.
+ */
+
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+  ATOM_FEED_PATH,
+  RSS_FEED_PATH,
+  releasePath,
+  releaseSummary,
+  resolveReleaseUrl,
+  type Release,
+} from "./releases";
+
+/** Most recent releases listed in the feeds. */
+const FEED_SIZE = 20;
+
+/** Feed copy (the feeds are not localized: release notes are written in English). */
+const FEED_TITLE = "TUIkit Releases";
+const FEED_DESCRIPTION = "Release notes of the TUIkit Swift framework";
+
+/** Escapes text for XML element content and attribute values. */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Release notes as HTML, with relative links resolved into the repository. */
+function notesHtml(release: Release): string {
+  if (!release.body) return "";
+  return renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      remarkPlugins: [remarkGfm],
+      urlTransform: (url: string, key: string) => defaultUrlTransform(resolveReleaseUrl(url, key === "src" ? "image" : "link")),
+      // Lazy images: React would otherwise hoist a `<link rel="preload">` for each into the markup
+      components: { img: ({ src, alt }) => createElement("img", { src, alt: alt ?? "", loading: "lazy" }) },
+      children: release.body,
+    }),
+  );
+}
+
+/** Absolute URL of a release's page. */
+function releaseUrl(release: Release, site: URL): string {
+  return new URL(releasePath(release.version), site).toString();
+}
+
+/** RSS 2.0 feed of the latest releases. */
+export function rssFeed(releases: Release[], site: URL): string {
+  const items = releases.slice(0, FEED_SIZE).map((release) => {
+    const url = releaseUrl(release, site);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(release.name)}</title>`,
+      `      <link>${escapeXml(url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+      `      <pubDate>${new Date(release.publishedAt).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(notesHtml(release) || releaseSummary(release.body))}</description>`,
+      "    </item>",
+    ].join("\n");
+  });
+
+  const selfUrl = new URL(RSS_FEED_PATH, site).toString();
+  const lastBuild = releases[0] ? new Date(releases[0].publishedAt) : new Date();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    "  <channel>",
+    `    <title>${FEED_TITLE}</title>`,
+    `    <link>${escapeXml(new URL("/releases", site).toString())}</link>`,
+    `    <description>${FEED_DESCRIPTION}</description>`,
+    "    <language>en</language>",
+    `    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/** Atom feed of the latest releases. */
+export function atomFeed(releases: Release[], site: URL): string {
+  const entries = releases.slice(0, FEED_SIZE).map((release) => {
+    const url = releaseUrl(release, site);
+    const html = notesHtml(release);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(release.name)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(url)}" />`,
+      `    <id>${escapeXml(url)}</id>`,
+      `    <published>${release.publishedAt}</published>`,
+      `    <updated>${release.publishedAt}</updated>`,
+      `    <summary>${escapeXml(releaseSummary(release.body))}</summary>`,
+      ...(html ? [`    <content type="html">${escapeXml(html)}</content>`] : []),
+      "  </entry>",
+    ].join("\n");
+  });
+
+  const selfUrl = new URL(ATOM_FEED_PATH, site).toString();
+  const updated = releases[0]?.publishedAt ?? new Date().toISOString();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <title>${FEED_TITLE}</title>`,
+    `  <subtitle>${FEED_DESCRIPTION}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(new URL("/releases", site).toString())}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}" />`,
+    `  <id>${escapeXml(selfUrl)}</id>`,
+    `  <updated>${updated}</updated>`,
+    "  <author>",
+    "    <name>TUIkit</name>",
+    "  </author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,23 @@
+/**
+ * Build-time access to the releases downloaded by
+ * scripts/update-releases-data.ts (public/data/releases.json). Used by the
+ * static /releases pages, the release feeds and the data script itself.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { Release, ReleasesData } from "./releases";
+
+/** Release list, relative to the project root. */
+export const RELEASES_FILE = "public/data/releases.json";
+
+/**
+ * Loads all releases, newest first, or none if the file hasn't been
+ * generated yet (the release pages are then simply not built).
+ */
+export function loadReleases(): Release[] {
+  const file = path.join(process.cwd(), RELEASES_FILE);
+  if (!fs.existsSync(file)) return [];
+  const data: Partial<ReleasesData> = JSON.parse(fs.readFileSync(file, "utf-8"));
+  return data.releases ?? [];
+}
@@ -0,0 +1,89 @@
+/**
+ * Releases of the TUIkit framework, as collected by
+ * scripts/update-releases-data.ts.
+ *
+ * Pure helpers shared by the /releases pages, the release feeds and the
+ * package badge. Reading the release file from disk lives in
+ * releases-data.ts.
+ */
+
+/** Repository the releases are published in. */
+export const RELEASES_REPO = "phranck/TUIkit";
+
+/** Paths of the release feeds (src/pages/releases/), relative to the site root. */
+export const RSS_FEED_PATH = "/releases/rss.xml";
+export const ATOM_FEED_PATH = "/releases/atom.xml";
+
+/** A release as stored in public/data/releases.json. */
+export interface Release {
+  /** Version without the tag's `v` prefix (e.g. "0.3.0"), used in `/releases/<version>` URLs. */
+  version: string;
+  /** Git tag of the release (e.g. "v0.3.0"). */
+  tag: string;
+  /** Title of the release; the tag if it has none. */
+  name: string;
+  /** Release notes (GitHub Flavored Markdown, may be empty). */
+  body: string;
+  /** ISO timestamp of publication. */
+  publishedAt: string;
+  prerelease: boolean;
+  /** Release page on GitHub. */
+  url: string;
+}
+
+/** Contents of public/data/releases.json, newest release first. */
+export interface ReleasesData {
+  generated: string;
+  releases: Release[];
+}
+
+/** Version of a tag: "v0.3.0" is "0.3.0". */
+export function versionOfTag(tag: string): string {
+  return tag.replace(/^v/, "");
+}
+
+/** Locale-independent path of a release's page. */
+export function releasePath(version: string): string {
+  return `/releases/${version}`;
+}
+
+/**
+ * Resolves a link or image source of release notes. Relative paths point
+ * into the repository (images to the raw file), anchors and absolute URLs
+ * are kept.
+ */
+export function resolveReleaseUrl(url: string, kind: "link" | "image" = "link"): string {
+  if (url.startsWith("#")) return url;
+  const base =
+    kind === "image"
+      ? `https://raw.githubusercontent.com/${RELEASES_REPO}/main/`
+      : `https://github.com/${RELEASES_REPO}/blob/main/`;
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Plain-text summary of release notes: the first paragraph that is not a
+ * heading, list or code, without markdown syntax, shortened to `maxLength`
+ * characters. Empty if the notes have no such paragraph.
+ */
+export function releaseSummary(body: string, maxLength = 200): string {
+  const paragraph =
+    body
+      .replace(/```[\s\S]*?```/g, "")
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .find((block) => block && !/^(#|[-*+]\s|\d+[.)]\s|>|\||<!--)/.test(block)) ?? "";
+
+  const text = paragraph
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
@@ -0,0 +1,206 @@
+/**
+ * Daily time series of the dashboard counts (stars, forks, issues, PRs, ...).
+ *
+ * The scheduled data refresh (scripts/update-github-stats.ts) records the
+ * counts of the day in public/data/stats-history.json; the star history
+ * before recording started is backfilled once from the stargazers'
+ * `starred_at` timestamps. The dashboard reads the file for the sparklines,
+ * 7/30-day deltas and trend charts of its stat cards.
+ *
+ * The file is column-based to stay compact: one `dates` array and one value
+ * array per metric. Days without changes are not stored; a value holds
+ * until the next recorded day.
+ */
+
+import type { GitHubStats } from "./github-stats";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Counts recorded per day, in column order. */
+export const STAT_METRICS = [
+  "stars",
+  "forks",
+  "contributors",
+  "releases",
+  "commits",
+  "openIssues",
+  "closedIssues",
+  "openPRs",
+  "mergedPRs",
+] as const;
+
+export type StatMetric = (typeof STAT_METRICS)[number];
+
+/** History file, relative to `public/` (served at `/data/stats-history.json`). */
+export const STATS_HISTORY_FILE = "data/stats-history.json";
+
+export interface StatsHistory {
+  /** ISO timestamp of the last update. */
+  updated: string;
+  /** Recorded days (YYYY-MM-DD), oldest first. */
+  dates: string[];
+  /** One column per metric, aligned with `dates`; null where the metric was not recorded (backfilled days only have stars). */
+  series: Record<StatMetric, Array<number | null>>;
+  /** Whether stars before the first recorded day were backfilled from stargazer timestamps. */
+  starsBackfilled: boolean;
+}
+
+/** A metric's values over the last days, for a sparkline and deltas. */
+export interface StatTrend {
+  /** One value per day (oldest first, ending today); days before the first recorded value are left out. */
+  values: number[];
+  /** Change over the last 7 days, or null if the history does not reach back that far. */
+  week: number | null;
+  /** Change over the last 30 days, or null if the history does not reach back that far. */
+  month: number | null;
+}
+
+/** One point of a metric's full history. */
+export interface StatPoint {
+  date: string;
+  value: number;
+}
+
+// ---------------------------------------------------------------------------
+// Dates
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The day (YYYY-MM-DD, UTC) of a timestamp. */
+export function dayKey(timestamp: number | string | Date): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/** Adds days to a YYYY-MM-DD date. */
+function addDays(date: string, days: number): string {
+  return dayKey(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/** A history without any recorded days. */
+export function emptyStatsHistory(): StatsHistory {
+  return {
+    updated: "",
+    dates: [],
+    series: Object.fromEntries(STAT_METRICS.map((metric) => [metric, [] as Array<number | null>])) as StatsHistory["series"],
+    starsBackfilled: false,
+  };
+}
+
+/** The recorded values of a stats fetch. */
+export function statValuesOf(stats: GitHubStats): Record<StatMetric, number> {
+  return {
+    stars: stats.stars,
+    forks: stats.forks,
+    contributors: stats.contributors,
+    releases: stats.releases,
+    commits: stats.totalCommits,
+    openIssues: stats.openIssues,
+    closedIssues: stats.closedIssues,
+    openPRs: stats.openPRs,
+    mergedPRs: stats.mergedPRs,
+  };
+}
+
+/**
+ * Records the values of a day. A later run on the same day replaces that
+ * day's values; a day with the same values as the previous one is not stored.
+ */
+export function recordStatsDay(history: StatsHistory, date: string, values: Record<StatMetric, number>): StatsHistory {
+  const dates = [...history.dates];
+  const series = Object.fromEntries(STAT_METRICS.map((metric) => [metric, [...(history.series[metric] ?? [])]])) as StatsHistory["series"];
+
+  // Replace today's values, or append a new day
+  if (dates[dates.length - 1] === date) {
+    dates.pop();
+    STAT_METRICS.forEach((metric) => series[metric].pop());
+  }
+  const unchanged =
+    dates.length > 0 && STAT_METRICS.every((metric) => series[metric][series[metric].length - 1] === values[metric]);
+  if (!unchanged) {
+    dates.push(date);
+    STAT_METRICS.forEach((metric) => series[metric].push(values[metric]));
+  }
+
+  return { ...history, dates, series };
+}
+
+/**
+ * Adds the star count of every day before the first recorded day on which
+ * someone starred the repository, from the current stargazers' `starred_at`
+ * timestamps. (Users who unstarred since are not in the list, so early
+ * counts can be slightly low.)
+ */
+export function backfillStars(history: StatsHistory, starredAt: string[]): StatsHistory {
+  const firstRecorded = history.dates[0] ?? addDays(dayKey(Date.now()), 1);
+  const starsPerDay = new Map<string, number>();
+  for (const timestamp of starredAt) {
+    const day = timestamp.slice(0, 10);
+    if (day < firstRecorded) starsPerDay.set(day, (starsPerDay.get(day) ?? 0) + 1);
+  }
+
+  const backfilledDates = [...starsPerDay.keys()].sort();
+  let total = 0;
+  const backfilledStars = backfilledDates.map((day) => (total += starsPerDay.get(day) ?? 0));
+
+  const series = Object.fromEntries(
+    STAT_METRICS.map((metric) => [
+      metric,
+      [...(metric === "stars" ? backfilledStars : backfilledDates.map(() => null)), ...(history.series[metric] ?? [])],
+    ]),
+  ) as StatsHistory["series"];
+
+  return { ...history, dates: [...backfilledDates, ...history.dates], series, starsBackfilled: true };
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/** A metric's recorded values, oldest first (days where it was not recorded are left out). */
+export function statPoints(history: StatsHistory, metric: StatMetric): StatPoint[] {
+  const column = history.series[metric] ?? [];
+  return history.dates.flatMap((date, index) => {
+    const value = column[index];
+    return value === null || value === undefined ? [] : [{ date, value }];
+  });
+}
+
+/** A metric's value on a day: the last recorded value up to it, or null if there is none. */
+function valueOn(points: StatPoint[], date: string): number | null {
+  let value: number | null = null;
+  for (const point of points) {
+    if (point.date > date) break;
+    value = point.value;
+  }
+  return value;
+}
+
+/**
+ * A metric's daily values over the last `days` days, ending today with the
+ * current (live) value, and its change over 7 and 30 days.
+ */
+export function statTrend(history: StatsHistory, metric: StatMetric, current: number, now = Date.now(), days = 30): StatTrend {
+  const points = statPoints(history, metric);
+  const today = dayKey(now);
+
+  const values: number[] = [];
+  for (let offset = days - 1; offset > 0; offset--) {
+    const value = valueOn(points, addDays(today, -offset));
+    if (value !== null) values.push(value);
+  }
+  values.push(current);
+
+  const deltaSince = (daysAgo: number) => {
+    const past = valueOn(points, addDays(today, -daysAgo));
+    return past === null ? null : current - past;
+  };
+
+  return { values, week: deltaSince(7), month: deltaSince(30) };
+}
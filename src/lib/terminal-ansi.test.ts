@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { paletteColor, renderTerminal, type CellStyle, type RenderedTerminal, type StyledRun } from "./terminal-ansi";
+
+/** Screen size used unless a test needs another. */
+const COLS = 10;
+const ROWS = 4;
+
+/** Escape sequence introducer. */
+const ESC = "\x1B";
+
+/** Text of every rendered row. */
+function rowText(rendered: RenderedTerminal): string[] {
+  return rendered.rows.map((runs) => runs.map((run) => run.text).join(""));
+}
+
+/** Renders `lines` on the default screen and returns the rows' text. */
+function textOf(lines: string[], cols = COLS, rows = ROWS): string[] {
+  return rowText(renderTerminal(lines, cols, rows));
+}
+
+/** Style of the run that contains `text` on the first row. */
+function styleOf(lines: string[], text: string): CellStyle {
+  const run = renderTerminal(lines, COLS, ROWS).rows[0].find((candidate) => candidate.text.includes(text));
+  expect(run).toBeDefined();
+  return (run as StyledRun).style;
+}
+
+describe("SGR", () => {
+  it("sets the 16 standard foreground and background colors", () => {
+    expect(styleOf([`${ESC}[31mred`], "red").fg).toEqual(paletteColor(1));
+    expect(styleOf([`${ESC}[44mblue`], "blue").bg).toEqual(paletteColor(4));
+    expect(styleOf([`${ESC}[92mhi`], "hi").fg).toEqual(paletteColor(10));
+    expect(styleOf([`${ESC}[103mhi`], "hi").bg).toEqual(paletteColor(11));
+  });
+
+  it("sets 256-color and truecolor values", () => {
+    expect(styleOf([`${ESC}[38;5;196mx`], "x").fg).toEqual([255, 0, 0]);
+    expect(styleOf([`${ESC}[48;5;244mx`], "x").bg).toEqual([128, 128, 128]);
+    expect(styleOf([`${ESC}[38;2;10;20;30mx`], "x").fg).toEqual([10, 20, 30]);
+  });
+
+  it("combines attributes in one sequence", () => {
+    const style = styleOf([`${ESC}[1;4;7mx`], "x");
+    expect(style).toMatchObject({ bold: true, underline: true, inverse: true, italic: false });
+  });
+
+  it("resets every attribute with 0 and with an empty parameter list", () => {
+    for (const reset of ["0m", "m"]) {
+      const style = styleOf([`${ESC}[1;31;42mA${ESC}[${reset}B`], "B");
+      expect(style).toEqual({ fg: null, bg: null, bold: false, dim: false, italic: false, underline: false, strike: false, inverse: false, blink: false });
+    }
+  });
+
+  it("resets single attributes and colors", () => {
+    const style = styleOf([`${ESC}[1;3;31;42mA${ESC}[22;39mB`], "B");
+    expect(style).toMatchObject({ bold: false, italic: true, fg: null, bg: paletteColor(2) });
+  });
+
+  it("splits a row into runs where the style changes", () => {
+    const runs = renderTerminal([`ab${ESC}[31mcd${ESC}[0mef`], COLS, ROWS).rows[0];
+    expect(runs.map((run) => run.text)).toEqual(["ab", "cd", "ef"]);
+  });
+
+  it("keeps the markdown parser's format tags working next to SGR", () => {
+    expect(styleOf(["<b>bold</b>"], "bold").bold).toBe(true);
+    expect(styleOf(["<b>a</b>plain"], "plain").bold).toBe(false);
+  });
+});
+
+describe("cursor movement", () => {
+  it("moves to an absolute position with CUP", () => {
+    expect(textOf([`${ESC}[2;3HX`])).toEqual(["", "  X"]);
+  });
+
+  it("treats missing CUP parameters as 1", () => {
+    expect(textOf(["abc", `${ESC}[HX`])).toEqual(["Xbc"]);
+  });
+
+  it("moves up with CUU and forward with CUF", () => {
+    expect(textOf(["one", "two", `${ESC}[2A${ESC}[4CX`])).toEqual(["one X", "two"]);
+  });
+
+  it("stops at the screen edges", () => {
+    expect(textOf([`${ESC}[9A${ESC}[99CX`])).toEqual(["         X"]);
+    expect(renderTerminal([`${ESC}[99B`], COLS, ROWS).cursor).toEqual({ row: ROWS - 1, col: 0 });
+  });
+
+  it("reports the final cursor position", () => {
+    expect(renderTerminal(["ab", "cde"], COLS, ROWS).cursor).toEqual({ row: 1, col: 3 });
+  });
+});
+
+describe("erase", () => {
+  // Erased cells stay part of the row and render as blanks
+  it("clears the screen with ED 2", () => {
+    expect(textOf(["one", "two", `${ESC}[2J${ESC}[HX`])).toEqual(["X"]);
+  });
+
+  it("clears from the cursor to the end of the screen with ED 0", () => {
+    expect(textOf(["one", "two", "six", `${ESC}[2;2H${ESC}[J`])).toEqual(["one", "t  "]);
+  });
+
+  it("clears to the end of the line with EL 0 and the whole line with EL 2", () => {
+    expect(textOf([`abcdef${ESC}[4G${ESC}[K`])).toEqual(["abc   "]);
+    expect(textOf([`abcdef${ESC}[2K`])).toEqual(["      "]);
+  });
+
+  it("clears to the start of the line with EL 1", () => {
+    expect(textOf([`abcdef${ESC}[3G${ESC}[1K`])).toEqual(["   def"]);
+  });
+});
+
+describe("auto-wrap", () => {
+  it("continues a long line on the next row", () => {
+    expect(textOf(["abcdefghijKLM"])).toEqual(["abcdefghij", "KLM"]);
+  });
+
+  it("wraps only when another character follows the last column", () => {
+    expect(textOf(["abcdefghij", "next"])).toEqual(["abcdefghij", "next"]);
+  });
+
+  it("clips instead of wrapping when DECAWM is off", () => {
+    expect(textOf([`${ESC}[?7labcdefghijKLM`])).toEqual(["abcdefghij"]);
+  });
+});
+
+describe("scrolling", () => {
+  it("keeps the last rows visible when the lines overflow the screen", () => {
+    expect(textOf(["1", "2", "3", "4", "5", "6"])).toEqual(["3", "4", "5", "6"]);
+  });
+
+  it("scrolls when a wrapped line runs past the bottom", () => {
+    expect(textOf(["1", "2", "3", "abcdefghijKL"])).toEqual(["2", "3", "abcdefghij", "KL"]);
+  });
+
+  it("addresses CUP relative to the visible screen after scrolling", () => {
+    expect(textOf(["1", "2", "3", "4", "5", `${ESC}[1;1HX`])).toEqual(["X", "4", "5"]);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * ANSI/VT100 rendering for the hero terminal.
+ *
+ * Screen lines may contain real escape sequences (e.g., captured TUIkit app
+ * output) next to the `<b>/<u>/<s>/<i>` tags produced by the markdown parser.
+ * `renderTerminal` feeds the visible lines through a small VT100 emulator and
+ * returns styled runs per row: SGR attributes (16/256/truecolor foreground
+ * and background, bold, dim, italic, underline, strikethrough, inverse,
+ * blink) and cursor movement (CUU/CUD/CUF/CUB, CNL/CPL, CHA, CUP, ED, EL,
+ * save/restore). Lines longer than the screen wrap onto the next row, as
+ * with a real terminal's autowrap (`ESC [ ? 7 l` turns it off, clipping instead).
+ */
+
+/** An RGB color triple (0-255 per channel). */
+export type Rgb = [number, number, number];
+
+/** Display attributes of a cell. `null` colors mean the terminal default. */
+export interface CellStyle {
+  fg: Rgb | null;
+  bg: Rgb | null;
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  inverse: boolean;
+  blink: boolean;
+}
+
+/** Consecutive characters of a row that share one style. */
+export interface StyledRun {
+  text: string;
+  style: CellStyle;
+}
+
+/** Result of rendering the screen. */
+export interface RenderedTerminal {
+  /** One entry per screen row, top to bottom. */
+  rows: StyledRun[][];
+  /** Final cursor position (0-based), where the blinking cursor is drawn. */
+  cursor: { row: number; col: number };
+}
+
+/** How colors are turned into CSS. */
+export interface ColorScheme {
+  /** Map every color onto shades of `foreground` (monochrome phosphor CRT). */
+  phosphor: boolean;
+  /** CSS color for default text, e.g. "var(--foreground)". */
+  foreground: string;
+  /** CSS color for the default background, e.g. "var(--background)". */
+  background: string;
+}
+
+/** CSS properties for a run, usable as a React style object or SVG attributes. */
+export interface RunCss {
+  color?: string;
+  backgroundColor?: string;
+  fontWeight?: string;
+  fontStyle?: string;
+  textDecoration?: string;
+  opacity?: number;
+  animation?: string;
+}
+
+/**
+ * Matches one escape sequence: CSI (`ESC [ … final`), OSC (`ESC ] … BEL/ST`),
+ * a charset designation (`ESC ( B`) or a two-byte `ESC x`.
+ */
+const ESCAPE_SEQUENCE_REGEX = /^\x1B(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1B]*(?:\x07|\x1B\\)|[()*+#%][ -~]|[@-Z\\-_7-8=>])/;
+
+/** Matches a formatting tag produced by the markdown parser. */
+const FORMAT_TAG_REGEX = /^<(\/?)([busi])>/;
+
+/** Width of a tab stop, as on a VT100. */
+const TAB_WIDTH = 8;
+
+/** The 16 standard colors (xterm defaults): 0-7 normal, 8-15 bright. */
+const BASE_PALETTE: Rgb[] = [
+  [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+  [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+  [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+  [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255],
+];
+
+/** Blink uses the same step animation as the headline cursor (global.css). */
+const BLINK_ANIMATION = "cursor-blink 1s step-end infinite";
+
+/** Returns the style with every attribute off. */
+function defaultStyle(): CellStyle {
+  return { fg: null, bg: null, bold: false, dim: false, italic: false, underline: false, strike: false, inverse: false, blink: false };
+}
+
+/** Resolves an xterm 256-color palette index to RGB. */
+export function paletteColor(index: number): Rgb {
+  if (index < 16) return BASE_PALETTE[index];
+  if (index < 232) {
+    const cube = index - 16;
+    const level = (value: number) => (value === 0 ? 0 : 55 + value * 40);
+    return [level(Math.floor(cube / 36)), level(Math.floor(cube / 6) % 6), level(cube % 6)];
+  }
+  const gray = 8 + (index - 232) * 10;
+  return [gray, gray, gray];
+}
+
+/**
+ * Splits text into atomic tokens: an escape sequence, a formatting tag, or
+ * a single character. Typing animations advance one visible token at a time,
+ * so sequences never appear half-typed.
+ */
+export function tokenizeTerminalText(text: string): string[] {
+  const tokens: string[] = [];
+  let index = 0;
+  while (index < text.length) {
+    const rest = text.slice(index);
+    const match = rest.match(ESCAPE_SEQUENCE_REGEX) ?? rest.match(FORMAT_TAG_REGEX);
+    const token = match ? match[0] : text[index];
+    tokens.push(token);
+    index += token.length;
+  }
+  return tokens;
+}
+
+/** Whether a token takes up a cell on screen (as opposed to an escape sequence or tag). */
+export function isVisibleToken(token: string): boolean {
+  return token.length === 1 && token !== "\x1B";
+}
+
+/** Applies the parameters of an SGR (`ESC [ … m`) sequence to a style. */
+function applySgr(style: CellStyle, params: number[]): CellStyle {
+  const next = { ...style };
+  const codes = params.length === 0 ? [0] : params;
+
+  for (let index = 0; index < codes.length; index++) {
+    const code = codes[index];
+    if (code === 38 || code === 48) {
+      // Extended color: 38;5;n (256 colors) or 38;2;r;g;b (truecolor)
+      let color: Rgb | null = null;
+      if (codes[index + 1] === 5 && codes[index + 2] !== undefined) {
+        color = paletteColor(Math.min(255, codes[index + 2]));
+        index += 2;
+      } else if (codes[index + 1] === 2 && codes[index + 4] !== undefined) {
+        color = [codes[index + 2], codes[index + 3], codes[index + 4]].map((value) => Math.min(255, value)) as Rgb;
+        index += 4;
+      }
+      if (color) {
+        if (code === 38) next.fg = color;
+        else next.bg = color;
+      }
+      continue;
+    }
+
+    if (code === 0) Object.assign(next, defaultStyle());
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 5 || code === 6) next.blink = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 9) next.strike = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 25) next.blink = false;
+    else if (code === 27) next.inverse = false;
+    else if (code === 29) next.strike = false;
+    else if (code >= 30 && code <= 37) next.fg = paletteColor(code - 30);
+    else if (code === 39) next.fg = null;
+    else if (code >= 40 && code <= 47) next.bg = paletteColor(code - 40);
+    else if (code === 49) next.bg = null;
+    else if (code >= 90 && code <= 97) next.fg = paletteColor(code - 90 + 8);
+    else if (code >= 100 && code <= 107) next.bg = paletteColor(code - 100 + 8);
+  }
+
+  return next;
+}
+
+/** Whether two styles render identically. */
+function sameStyle(a: CellStyle, b: CellStyle): boolean {
+  return a.bold === b.bold && a.dim === b.dim && a.italic === b.italic && a.underline === b.underline
+    && a.strike === b.strike && a.inverse === b.inverse && a.blink === b.blink
+    && a.fg?.join() === b.fg?.join() && a.bg?.join() === b.bg?.join();
+}
+
+/** A cell on screen: one character and its style. */
+interface Cell {
+  char: string;
+  style: CellStyle;
+}
+
+/** State of the VT100 emulator: screen grid, pen and cursor. */
+export interface VirtualTerminal {
+  cols: number;
+  rows: number;
+  /** Rows of cells; missing cells are blank. */
+  grid: (Cell | undefined)[][];
+  style: CellStyle;
+  row: number;
+  col: number;
+  saved: { row: number; col: number };
+  /** Wrap onto the next row at the right margin (DECAWM), otherwise clip. */
+  autowrap: boolean;
+}
+
+/** Creates an empty terminal with the cursor at the top left. */
+export function createTerminal(cols: number, rows: number): VirtualTerminal {
+  return { cols, rows, grid: [], style: defaultStyle(), row: 0, col: 0, saved: { row: 0, col: 0 }, autowrap: true };
+}
+
+/** Moves the cursor down one row, scrolling the screen at the bottom. */
+function lineFeed(terminal: VirtualTerminal) {
+  terminal.row++;
+  if (terminal.row >= terminal.rows) {
+    terminal.grid.shift();
+    terminal.row = terminal.rows - 1;
+  }
+}
+
+/** Blanks the cells `from` (inclusive) to `to` (exclusive) of a row. */
+function eraseCells(terminal: VirtualTerminal, row: number, from: number, to: number) {
+  const cells = terminal.grid[row] ?? [];
+  for (let cell = from; cell < Math.min(to, cells.length); cell++) cells[cell] = undefined;
+}
+
+/** Executes a CSI (`ESC [ … final`) sequence. */
+function handleCsi(terminal: VirtualTerminal, sequence: string) {
+  const final = sequence[sequence.length - 1];
+  const body = sequence.slice(2, -1);
+  if (body.startsWith("?")) {
+    // Private modes: only autowrap affects the picture (cursor visibility etc. don't)
+    if (body === "?7" && (final === "h" || final === "l")) terminal.autowrap = final === "h";
+    return;
+  }
+  const params = body === "" ? [] : body.split(";").map((part) => (part === "" ? 0 : parseInt(part, 10) || 0));
+  const count = Math.max(1, params[0] ?? 1);
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+  const lastRow = terminal.rows - 1;
+  const lastCol = terminal.cols - 1;
+
+  switch (final) {
+    case "m": terminal.style = applySgr(terminal.style, params); break;
+    case "A": terminal.row = clamp(terminal.row - count, lastRow); break;
+    case "B": terminal.row = clamp(terminal.row + count, lastRow); break;
+    case "C": terminal.col = clamp(terminal.col + count, lastCol); break;
+    case "D": terminal.col = clamp(terminal.col - count, lastCol); break;
+    case "E": terminal.row = clamp(terminal.row + count, lastRow); terminal.col = 0; break;
+    case "F": terminal.row = clamp(terminal.row - count, lastRow); terminal.col = 0; break;
+    case "G": terminal.col = clamp(count - 1, lastCol); break;
+    case "H":
+    case "f":
+      terminal.row = clamp((params[0] || 1) - 1, lastRow);
+      terminal.col = clamp((params[1] || 1) - 1, lastCol);
+      break;
+    case "J": {
+      const mode = params[0] ?? 0;
+      if (mode === 2 || mode === 3) {
+        terminal.grid.length = 0;
+      } else if (mode === 0) {
+        eraseCells(terminal, terminal.row, terminal.col, terminal.cols);
+        terminal.grid.length = Math.min(terminal.grid.length, terminal.row + 1);
+      } else if (mode === 1) {
+        for (let index = 0; index < terminal.row; index++) terminal.grid[index] = [];
+        eraseCells(terminal, terminal.row, 0, terminal.col + 1);
+      }
+      break;
+    }
+    case "K": {
+      const mode = params[0] ?? 0;
+      if (mode === 0) eraseCells(terminal, terminal.row, terminal.col, terminal.cols);
+      else if (mode === 1) eraseCells(terminal, terminal.row, 0, terminal.col + 1);
+      else if (mode === 2) eraseCells(terminal, terminal.row, 0, terminal.cols);
+      break;
+    }
+    case "s": terminal.saved = { row: terminal.row, col: terminal.col }; break;
+    case "u": ({ row: terminal.row, col: terminal.col } = terminal.saved); break;
+  }
+}
+
+/**
+ * Feeds text into the terminal. Escape sequences must not be split across
+ * calls; a trailing partial sequence is printed as plain text.
+ */
+export function writeTerminal(terminal: VirtualTerminal, text: string) {
+  for (const token of tokenizeTerminalText(text)) {
+    const tag = token.match(FORMAT_TAG_REGEX);
+    if (tag) {
+      const attribute = ({ b: "bold", u: "underline", s: "strike", i: "italic" } as const)[tag[2] as "b" | "u" | "s" | "i"];
+      terminal.style = { ...terminal.style, [attribute]: tag[1] === "" };
+    } else if (token.startsWith("\x1B[")) {
+      handleCsi(terminal, token);
+    } else if (token === "\x1B7") {
+      terminal.saved = { row: terminal.row, col: terminal.col };
+    } else if (token === "\x1B8") {
+      ({ row: terminal.row, col: terminal.col } = terminal.saved);
+    } else if (token.startsWith("\x1B")) {
+      // Other escape sequences (OSC titles, charset selection) are ignored
+    } else if (token === "\r") {
+      terminal.col = 0;
+    } else if (token === "\n") {
+      lineFeed(terminal);
+    } else if (token === "\b") {
+      terminal.col = Math.max(0, terminal.col - 1);
+    } else if (token === "\t") {
+      terminal.col = Math.min(terminal.cols, (Math.floor(terminal.col / TAB_WIDTH) + 1) * TAB_WIDTH);
+    } else if (token >= " ") {
+      if (terminal.col >= terminal.cols && terminal.autowrap) {
+        // Deferred wrap: the cursor rests after the last column until the next character
+        terminal.col = 0;
+        lineFeed(terminal);
+      }
+      if (terminal.col < terminal.cols) (terminal.grid[terminal.row] ??= [])[terminal.col] = { char: token, style: terminal.style };
+      terminal.col++;
+    }
+  }
+}
+
+/**
+ * Groups the terminal's cells into styled runs, for `rowCount` rows (default:
+ * every row written to, up to the cursor). Gaps left by cursor movement
+ * become default-styled spaces.
+ */
+export function snapshotTerminal(terminal: VirtualTerminal, rowCount = Math.max(terminal.grid.length, terminal.row + 1)): RenderedTerminal {
+  const rendered: StyledRun[][] = [];
+  for (let index = 0; index < rowCount; index++) {
+    const runs: StyledRun[] = [];
+    for (const cell of terminal.grid[index] ?? []) {
+      const char = cell?.char ?? " ";
+      const cellStyle = cell?.style ?? defaultStyle();
+      const last = runs[runs.length - 1];
+      if (last && sameStyle(last.style, cellStyle)) last.text += char;
+      else runs.push({ text: char, style: cellStyle });
+    }
+    rendered.push(runs);
+  }
+  return { rows: rendered, cursor: { row: terminal.row, col: Math.min(terminal.col, terminal.cols) } };
+}
+
+/** Cuts a row to its first `cols` cells. */
+export function clipRuns(runs: StyledRun[], cols: number): StyledRun[] {
+  const clipped: StyledRun[] = [];
+  let remaining = cols;
+  for (const run of runs) {
+    if (remaining <= 0) break;
+    clipped.push(run.text.length > remaining ? { ...run, text: run.text.slice(0, remaining) } : run);
+    remaining -= run.text.length;
+  }
+  return clipped;
+}
+
+/**
+ * Renders screen lines through a VT100 emulator.
+ *
+ * Lines are joined as if printed with CR LF, so cursor movement can reach
+ * back into earlier lines. Long lines wrap, and the screen scrolls so the
+ * last `rows` rows stay visible. Row 1 of `ESC [ row ; col H` is the top
+ * visible row.
+ */
+export function renderTerminal(lines: string[], cols: number, rows: number): RenderedTerminal {
+  const terminal = createTerminal(cols, rows);
+  writeTerminal(terminal, lines.join("\r\n"));
+  return lines.length === 0 ? snapshotTerminal(terminal, 0) : snapshotTerminal(terminal);
+}
+
+/** Relative luminance of a color (0-1). */
+function luminance([red, green, blue]: Rgb): number {
+  return (0.2126 * red + 0.7152 * green + 0.0722 * blue) / 255;
+}
+
+/** Turns a color into CSS, either as-is or as a shade of the phosphor color. */
+function colorCss(color: Rgb, scheme: ColorScheme, minShare: number): string {
+  if (!scheme.phosphor) return `rgb(${color.join(" ")})`;
+  const share = Math.round(minShare + (100 - minShare) * luminance(color));
+  return `color-mix(in srgb, ${scheme.foreground} ${share}%, ${scheme.background})`;
+}
+
+/**
+ * CSS for a styled run. In phosphor mode, colors become brighter or darker
+ * shades of the theme color, the way a monochrome CRT would show them.
+ */
+export function runCss(style: CellStyle, scheme: ColorScheme): RunCss {
+  const css: RunCss = {};
+  let fg = style.fg ? colorCss(style.fg, scheme, 40) : undefined;
+  let bg = style.bg ? colorCss(style.bg, scheme, 10) : undefined;
+  if (style.inverse) {
+    [fg, bg] = [bg ?? scheme.background, fg ?? scheme.foreground];
+  }
+  if (fg) css.color = fg;
+  if (bg) css.backgroundColor = bg;
+  if (style.bold) css.fontWeight = "bold";
+  if (style.italic) css.fontStyle = "italic";
+  const decorations = [style.underline && "underline", style.strike && "line-through"].filter(Boolean);
+  if (decorations.length > 0) css.textDecoration = decorations.join(" ");
+  if (style.dim) css.opacity = 0.55;
+  if (style.blink) css.animation = BLINK_ANIMATION;
+  return css;
+}
+
+/** Converts a rendered row back to plain SGR output (for asciicast export). */
+export function runsToAnsi(runs: StyledRun[]): string {
+  return runs.map(({ text, style }) => {
+    const codes: (number | string)[] = [];
+    if (style.bold) codes.push(1);
+    if (style.dim) codes.push(2);
+    if (style.italic) codes.push(3);
+    if (style.underline) codes.push(4);
+    if (style.blink) codes.push(5);
+    if (style.inverse) codes.push(7);
+    if (style.strike) codes.push(9);
+    if (style.fg) codes.push(`38;2;${style.fg.join(";")}`);
+    if (style.bg) codes.push(`48;2;${style.bg.join(";")}`);
+    return codes.length > 0 ? `\x1B[${codes.join(";")}m${text}\x1B[0m` : text;
+  }).join("");
+}
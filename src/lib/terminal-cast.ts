@@ -0,0 +1,217 @@
+/**
+ * Importer for asciicast v2 recordings (asciinema, or `script` output
+ * converted with asciinema), so a real TUIkit app session can play on the
+ * CRT instead of hand-written output.
+ *
+ * The recording is replayed through the VT100 emulator at its own size and
+ * turned into timed `frame` steps: one complete screen per burst of output.
+ * The result is a one-scene `TerminalScript`, so the regular playback engine,
+ * scrubber and controls work unchanged.
+ */
+
+import type { SceneStep, TerminalConfig, TerminalScript } from "./terminal-parser";
+import { clipRuns, createTerminal, runsToAnsi, snapshotTerminal, tokenizeTerminalText, writeTerminal } from "./terminal-ansi";
+
+/** One chunk of terminal output and when it was written (ms since the start). */
+export interface CastEvent {
+  time: number;
+  data: string;
+}
+
+/** A parsed asciicast v2 recording. */
+export interface Asciicast {
+  width: number;
+  height: number;
+  title?: string;
+  events: CastEvent[];
+}
+
+/** Summary of a recording in public/recordings/, generated at build time. */
+export interface CastInfo {
+  /** File name without `.cast`, used in `?cast=` links. */
+  name: string;
+  title: string;
+  width: number;
+  height: number;
+  /** Playback length after idle compression (ms). */
+  duration: number;
+}
+
+/**
+ * How a recording larger than the CRT is shown:
+ * - `scale`: the whole screen, with a smaller font
+ * - `crop`: CRT-sized window at the top left, scrolled down to keep the cursor visible
+ */
+export type CastFit = "scale" | "crop";
+
+/** Options for `importAsciicast`. */
+export interface CastImportOptions {
+  /** Scene name for the scrubber and skip buttons. */
+  name: string;
+  /** CRT screen size. */
+  cols: number;
+  rows: number;
+  fit: CastFit;
+  /** Timing configuration of the main script (the power-on delay is skipped). */
+  config: TerminalConfig;
+}
+
+/** A recording prepared for playback: a one-scene script and the screen size it needs. */
+export interface ImportedCast {
+  script: TerminalScript;
+  cols: number;
+  rows: number;
+}
+
+/** Longest pause kept between two events (ms), like asciinema's `idle_time_limit`. */
+const MAX_IDLE_MS = 2000;
+
+/** Output closer together than this is merged into one frame (ms, ~30 fps). */
+const FRAME_INTERVAL_MS = 33;
+
+/** Directory (under public/) that recordings are served from. */
+export const RECORDINGS_PATH = "/recordings";
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Whether a value is a positive integer (terminal sizes). */
+function isSize(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Parses an asciicast v2 file: a JSON header line followed by one
+ * `[time, type, data]` event per line. Only output (`"o"`) events are kept;
+ * input, markers and resizes don't change the picture.
+ */
+export function parseAsciicast(text: string): { cast: Asciicast } | { error: string } {
+  const lines = text.split("\n");
+  let header: { version?: unknown; width?: unknown; height?: unknown; title?: unknown };
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    return { error: "Line 1: header is not valid JSON" };
+  }
+  if (header.version !== 2) {
+    return { error: `Line 1: unsupported asciicast version ${JSON.stringify(header.version)} (expected 2)` };
+  }
+  if (!isSize(header.width) || !isSize(header.height)) {
+    return { error: "Line 1: header needs positive integer \"width\" and \"height\"" };
+  }
+
+  const events: CastEvent[] = [];
+  for (let index = 1; index < lines.length; index++) {
+    if (lines[index].trim() === "") continue;
+    let event: unknown;
+    try {
+      event = JSON.parse(lines[index]);
+    } catch {
+      return { error: `Line ${index + 1}: event is not valid JSON` };
+    }
+    if (!Array.isArray(event) || typeof event[0] !== "number" || typeof event[1] !== "string" || typeof event[2] !== "string") {
+      return { error: `Line ${index + 1}: expected [time, type, data]` };
+    }
+    const time = Math.round(event[0] * 1000);
+    if (events.length > 0 && time < events[events.length - 1].time) {
+      return { error: `Line ${index + 1}: event time goes backwards` };
+    }
+    if (event[1] === "o") events.push({ time, data: event[2] });
+  }
+
+  return {
+    cast: {
+      width: header.width,
+      height: header.height,
+      title: typeof header.title === "string" ? header.title : undefined,
+      events,
+    },
+  };
+}
+
+/** Playback length of a recording with long pauses compressed (ms). */
+export function castDuration(cast: Asciicast): number {
+  let duration = 0;
+  cast.events.forEach((event, index) => {
+    if (index > 0) duration += Math.min(event.time - cast.events[index - 1].time, MAX_IDLE_MS);
+  });
+  return duration;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits output into the part that can be written now and a trailing,
+ * incomplete escape sequence (recorders cut output at arbitrary bytes).
+ */
+function splitIncompleteEscape(data: string): [string, string] {
+  const escapeIndex = data.lastIndexOf("\x1B");
+  if (escapeIndex === -1) return [data, ""];
+  const [first] = tokenizeTerminalText(data.slice(escapeIndex));
+  return first === "\x1B" ? [data.slice(0, escapeIndex), data.slice(escapeIndex)] : [data, ""];
+}
+
+/**
+ * Turns a recording into a one-scene script of `frame` steps that fits the
+ * CRT: `scale` keeps the recording's size (the screen shrinks its font),
+ * `crop` cuts a CRT-sized window. The cursor position is kept by ending the
+ * last line of each frame with a cursor-position sequence.
+ *
+ * Like the scripted story, the scene hands off to the shell when it ends,
+ * as the prompt returns after the recorded app exits.
+ */
+export function importAsciicast(cast: Asciicast, { name, cols, rows, fit, config }: CastImportOptions): ImportedCast {
+  const screenCols = fit === "scale" ? Math.max(cols, cast.width) : cols;
+  const screenRows = fit === "scale" ? Math.max(rows, cast.height) : rows;
+  const terminal = createTerminal(cast.width, cast.height);
+  const frames: { time: number; lines: string[] }[] = [];
+  let clock = 0;
+  let carry = "";
+  let previousKey = "";
+
+  cast.events.forEach((event, index) => {
+    if (index > 0) clock += Math.min(event.time - cast.events[index - 1].time, MAX_IDLE_MS);
+    const [complete, rest] = splitIncompleteEscape(carry + event.data);
+    writeTerminal(terminal, complete);
+    carry = rest;
+
+    // Only snapshot at the end of a burst of output
+    const next = cast.events[index + 1];
+    if (next && next.time - event.time < FRAME_INTERVAL_MS) return;
+
+    const { rows: screen, cursor } = snapshotTerminal(terminal, cast.height);
+    const top = fit === "crop" ? Math.max(0, Math.min(cursor.row - rows + 1, cast.height - rows)) : 0;
+    // Rows are cut to the screen width, so they don't wrap on the CRT
+    const lines = screen.slice(top, top + screenRows).map((runs) => runsToAnsi(clipRuns(runs, screenCols)));
+    // Trailing blank rows carry no content, but the cursor may sit in one of them
+    while (lines.length > cursor.row - top + 1 && lines[lines.length - 1] === "") lines.pop();
+    lines[lines.length - 1] += `\x1B[${cursor.row - top + 1};${cursor.col + 1}H`;
+
+    const key = lines.join("\n");
+    if (key === previousKey) return;
+    previousKey = key;
+    frames.push({ time: clock, lines });
+  });
+
+  const steps: SceneStep[] = frames.map((frame, index) => ({
+    type: "frame",
+    lines: frame.lines,
+    delayAfter: index < frames.length - 1 ? frames[index + 1].time - frame.time : config.pauseAfterOutput,
+  }));
+  if (frames.length > 0 && frames[0].time > 0) {
+    steps.unshift({ type: "pause", delayAfter: frames[0].time });
+  }
+
+  return {
+    script: {
+      config: { ...config, initialCursorDelay: 0 },
+      scenes: [{ name, trigger: { start: true }, then: "shell", steps }],
+      unixCommands: [],
+    },
+    cols: screenCols,
+    rows: screenRows,
+  };
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { advancePlayback, createPlayback, screenAt, type PlaybackOptions } from "./terminal-engine";
+import type { SceneStep, TerminalScript } from "./terminal-parser";
+
+/** Screen size and seed used unless a test needs another. */
+const OPTIONS: PlaybackOptions = { cols: 37, rows: 9, seed: 42 };
+
+/** Time the first scene starts: the power-on cursor shows this long (ms). */
+const START = 1500;
+
+/** A script whose only scene plays `steps` at power-on, then hands off to the shell. */
+function sceneScript(steps: SceneStep[]): TerminalScript {
+  return {
+    config: {
+      initialCursorDelay: START,
+      typeMin: 40,
+      typeMax: 80,
+      pauseBeforeOutput: 400,
+      pauseAfterOutput: 1200,
+      phosphorColors: 1,
+      cols: OPTIONS.cols,
+      rows: OPTIONS.rows,
+      wideCols: 80,
+      wideRows: 24,
+      wideMinWidth: 1280,
+    },
+    scenes: [{ name: "test", trigger: { start: true }, then: "shell", steps }],
+    unixCommands: [],
+  };
+}
+
+/** Visible text of the screen at `time`. */
+function textAt(script: TerminalScript, time: number, options = OPTIONS): string[] {
+  return screenAt(script, options, time).map((line) => line.text);
+}
+
+/** Screen text after advancing one playback to `time` in `tick`-ms steps, like the React adapter does. */
+function tickedTextAt(script: TerminalScript, time: number, tick: number, options = OPTIONS): string[] {
+  const playback = createPlayback(script, options);
+  for (let now = 0; now < time; now += tick) advancePlayback(playback, now);
+  advancePlayback(playback, time);
+  return playback.state.lines.map((line) => line.text);
+}
+
+/** Asserts that seeking straight to every `step`-ms point matches playing up to it. */
+function expectSeekMatchesPlayback(script: TerminalScript, until: number, step: number): void {
+  for (let time = 0; time <= until; time += step) {
+    expect(textAt(script, time)).toEqual(tickedTextAt(script, time, 16));
+  }
+}
+
+describe("screenAt", () => {
+  const script = sceneScript([
+    { type: "instant", text: "READY", delayAfter: 100 },
+    { type: "instant", text: "LOGON:", delayAfter: 100 },
+    { type: "type", text: "JOSHUA", delayAfter: 1000 },
+  ]);
+
+  it("returns a fixed buffer for a fixed seed and time", () => {
+    expect(screenAt(script, OPTIONS, 0)).toEqual([{ key: 0, text: "> " }]);
+    expect(screenAt(script, OPTIONS, START - 1)).toEqual([{ key: 0, text: "> " }]);
+    expect(screenAt(script, OPTIONS, START)).toEqual([{ key: 1, text: "READY" }]);
+    expect(screenAt(script, OPTIONS, START + 100)).toEqual([
+      { key: 1, text: "READY" },
+      { key: 2, text: "LOGON:" },
+    ]);
+    // Typing takes 40–70 ms per character, so six characters are done within 420 ms
+    expect(screenAt(script, OPTIONS, START + 200 + 420)).toEqual([
+      { key: 1, text: "READY" },
+      { key: 2, text: "LOGON:" },
+      { key: 3, text: "JOSHUA" },
+    ]);
+  });
+
+  it("replays identically for equal seeds", () => {
+    for (let time = 0; time <= START + 1000; time += 25) {
+      expect(screenAt(script, OPTIONS, time)).toEqual(screenAt(script, OPTIONS, time));
+    }
+  });
+
+  it("types with different timing for another seed", () => {
+    const times = Array.from({ length: 40 }, (_, idx) => START + 200 + idx * 10);
+    const other = { ...OPTIONS, seed: 7 };
+    expect(times.map((time) => textAt(script, time))).not.toEqual(times.map((time) => textAt(script, time, other)));
+  });
+
+  it("does not depend on how often the playback is advanced", () => {
+    expectSeekMatchesPlayback(script, START + 1000, 7);
+  });
+});
+
+describe("CLEAR", () => {
+  const script = sceneScript([
+    { type: "instant", text: "A" },
+    { type: "instant", text: "B", delayAfter: 100 },
+    { type: "clear" },
+    { type: "instant", text: "C", delayAfter: 100 },
+  ]);
+
+  it("empties the screen before the next line", () => {
+    expect(textAt(script, START)).toEqual(["A", "B"]);
+    expect(textAt(script, START + 99)).toEqual(["A", "B"]);
+    expect(textAt(script, START + 100)).toEqual(["C"]);
+  });
+
+  it("clears the power-on cursor before the first scene", () => {
+    expect(textAt(script, START - 1)).toEqual(["> "]);
+    expect(textAt(script, START)).not.toContain("> ");
+  });
+});
+
+describe("COUNTER", () => {
+  const script = sceneScript([
+    { type: "counter", prefix: "MEMORY TEST: ", target: 180, suffix: " KB", delayAfter: 1000 },
+  ]);
+  /** The counter's value on screen at `time`. */
+  const valueAt = (time: number): number => {
+    const lines = textAt(script, time);
+    expect(lines).toHaveLength(1);
+    const match = lines[0].match(/^MEMORY TEST: (\d+) KB$/);
+    expect(match).not.toBeNull();
+    return Number(match?.[1]);
+  };
+
+  it("counts up in place on a single line", () => {
+    // The first of 18 steps shows right away; each takes 50–80 ms
+    expect(valueAt(START)).toBe(10);
+    expect(valueAt(START + 18 * 80)).toBe(180);
+  });
+
+  it("shows an intermediate value when seeking into the count", () => {
+    // After 500 ms, between 6 and 10 steps have finished
+    const value = valueAt(START + 500);
+    expect(value).toBeGreaterThanOrEqual(70);
+    expect(value).toBeLessThanOrEqual(110);
+    expect(value % 10).toBe(0);
+  });
+
+  it("never counts down", () => {
+    let previous = 0;
+    for (let time = START; time <= START + 18 * 80; time += 10) {
+      const value = valueAt(time);
+      expect(value).toBeGreaterThanOrEqual(previous);
+      previous = value;
+    }
+  });
+
+  it("seeks to the same value as playing up to it", () => {
+    expectSeekMatchesPlayback(script, START + 18 * 80, 13);
+  });
+});
+
+describe("DOTS", () => {
+  const script = sceneScript([
+    { type: "dots", text: "DIALING", dotCount: 3, delayAfter: 500 },
+    { type: "instant", text: "CONNECTED", delayAfter: 1000 },
+  ]);
+
+  it("appends the dots one at a time", () => {
+    // Each dot follows 300–500 ms after the previous one
+    expect(textAt(script, START)).toEqual(["DIALING"]);
+    expect(textAt(script, START + 299)).toEqual(["DIALING"]);
+    expect(textAt(script, START + 500)).toEqual(["DIALING."]);
+    expect(textAt(script, START + 1500)).toEqual(["DIALING..."]);
+  });
+
+  it("continues on a new line after the delay", () => {
+    expect(textAt(script, START + 1500 + 500)).toEqual(["DIALING...", "CONNECTED"]);
+  });
+
+  it("seeks to the same dots as playing up to them", () => {
+    expectSeekMatchesPlayback(script, START + 2000, 11);
+  });
+});
+
+describe("BARRAGE", () => {
+  const script = sceneScript([
+    { type: "barrage" },
+    { type: "instant", text: "CONNECTED", delayAfter: 1000 },
+  ]);
+  /** Rows of random data, as the barrage draws them. */
+  const DATA_LINE = /^[0-9A-F.:/<>[\]{}#@!$%&*]{8,}$/;
+
+  it("fills the screen with random data", () => {
+    const lines = textAt(script, START);
+    expect(lines.length).toBeGreaterThanOrEqual(OPTIONS.rows - 2);
+    expect(lines.length).toBeLessThanOrEqual(OPTIONS.rows);
+    for (const line of lines) expect(line).toMatch(DATA_LINE);
+  });
+
+  it("redraws the whole screen on every frame", () => {
+    // 30 frames of 60–100 ms: one second in, the flood is still running
+    const first = textAt(script, START);
+    const later = textAt(script, START + 1000);
+    expect(later).not.toEqual(first);
+    expect(later.length).toBeLessThanOrEqual(OPTIONS.rows);
+    for (const line of later) expect(line).toMatch(DATA_LINE);
+  });
+
+  it("ends with the last frame and the next step below it", () => {
+    const lines = textAt(script, START + 30 * 100);
+    expect(lines[lines.length - 1]).toBe("CONNECTED");
+    expect(lines.length).toBeLessThanOrEqual(OPTIONS.rows);
+    for (const line of lines.slice(0, -1)) expect(line).toMatch(DATA_LINE);
+  });
+
+  it("seeks to the same frame as playing up to it", () => {
+    expectSeekMatchesPlayback(script, START + 30 * 100, 17);
+  });
+});
@@ -0,0 +1,552 @@
+/**
+ * Deterministic playback engine for the hero terminal.
+ *
+ * The whole session (start scenes, UNIX command loop, triggered scenes,
+ * shell greeting) is expressed as generator "programs" that yield screen
+ * operations and waits. A playback state machine consumes them against a
+ * virtual clock, so the screen buffer is a pure function of the script,
+ * the RNG seed and a timestamp: `screenAt(script, options, 42_000)` always
+ * returns the same lines. TerminalScreen drives it through the
+ * `useTerminalPlayback` hook, which maps the virtual clock to real time.
+ */
+
+import type { SceneStep, TerminalEntry, TerminalScene, TerminalScript } from "./terminal-parser";
+import { drawRandomScene, dueScene, startScenes } from "./terminal-scenes";
+import { SHELL_GREETING, SHELL_PROMPT, type ShellResult } from "./terminal-shell";
+import { isVisibleToken, tokenizeTerminalText } from "./terminal-ansi";
+
+/** One line of the screen buffer, before the VT100 emulator wraps it into rows. `key` is stable for the line's lifetime. */
+export interface ScreenLine {
+  key: number;
+  text: string;
+}
+
+/** A single instruction yielded by a playback program. */
+export type EngineOp =
+  | { type: "push"; text: string }
+  | { type: "update"; text: string }
+  | { type: "clear" }
+  | { type: "wait"; ms: number }
+  /** Marks the start of a scene, or (null) the return to the UNIX loop. */
+  | { type: "scene"; name: string | null }
+  /** The scripted session is over and the interactive shell takes over. */
+  | { type: "shell" };
+
+/** A playback program: a lazy sequence of operations. */
+export type EngineProgram = Iterator<EngineOp, void, void>;
+
+/** Screen geometry and randomness for a playback. */
+export interface PlaybackOptions {
+  cols: number;
+  rows: number;
+  /** Seed for every random delay and pick; equal seeds replay identically. */
+  seed: number;
+}
+
+/** Mutable state of a running playback. */
+export interface PlaybackState {
+  /** Virtual time (ms since power-on) the playback has been advanced to. */
+  time: number;
+  /** Visible rows, oldest first, at most `rows` long. */
+  lines: ScreenLine[];
+  /** Virtual time at which the current wait ends and the next op runs. */
+  resumeAt: number;
+  /** Name of the scene currently playing, or null during the UNIX loop. */
+  scene: string | null;
+  /** Whether the session has handed off to the interactive shell. */
+  shell: boolean;
+  /** Whether every queued program has finished (e.g., shell awaiting input). */
+  idle: boolean;
+  /** Incremented on every screen change, to cheaply detect re-renders. */
+  revision: number;
+}
+
+/** A playback: its state plus the programs still to run. */
+export interface Playback {
+  readonly options: PlaybackOptions;
+  readonly state: PlaybackState;
+  /** Programs to run after the current one, in order. */
+  readonly queue: EngineProgram[];
+  nextKey: number;
+}
+
+/** Where a scene (or, with `scene: null`, the UNIX command loop) first starts. */
+export interface TimelineMark {
+  scene: string | null;
+  time: number;
+}
+
+/** Overview of a scripted session, for timelines and skip-to-scene. */
+export interface PlaybackTimeline {
+  /** First start of every scene and of the UNIX loop, in playback order. */
+  marks: TimelineMark[];
+  /** Time at which the session hands off to the shell and waits for input (ms). */
+  duration: number;
+}
+
+/** Upper bound when scanning a session that never hands off to the shell (ms). */
+const MAX_SCAN_MS = 30 * 60 * 1000;
+
+/** Per-character delay range for system "typewriter" output (ms). */
+const SYSTEM_TYPE_MIN_MS = 40;
+const SYSTEM_TYPE_MAX_MS = 70;
+/** Delay between output lines during command playback (ms). */
+export const OUTPUT_LINE_DELAY_MS = 120;
+/** Frames in a `[BARRAGE]` data flood. */
+const BARRAGE_FRAMES = 30;
+/** Characters a barrage line is made of. */
+const BARRAGE_CHARS = "0123456789ABCDEF.:/<>[]{}#@!$%&*";
+/** Value updates in a `[COUNTER]` animation. */
+const COUNTER_STEPS = 18;
+
+// ---------------------------------------------------------------------------
+// Random source
+// ---------------------------------------------------------------------------
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning floats in [0, 1).
+ * Small and fast; quality is plenty for typing jitter and picks.
+ */
+export function createRng(seed: number): () => number {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let mixed = value;
+    mixed = Math.imul(mixed ^ (mixed >>> 15), mixed | 1);
+    mixed ^= mixed + Math.imul(mixed ^ (mixed >>> 7), mixed | 61);
+    return ((mixed ^ (mixed >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Programs
+// ---------------------------------------------------------------------------
+
+/** Random float between `min` and `max`. */
+function between(rng: () => number, min: number, max: number): number {
+  return min + rng() * (max - min);
+}
+
+/**
+ * Types text character-by-character, but handles HTML tags specially:
+ * - Opening and closing tags appear instantly as a pair
+ * - Only the visible text content is typed character-by-character
+ * - ANSI escape sequences appear instantly with the next character
+ */
+function* typeSystem(text: string, rng: () => number): Generator<EngineOp> {
+  yield { type: "push", text: "" };
+
+  // Match paired tags with their content: <tag>content</tag>
+  const pairedTagRegex = /<([busi])>([\s\S]*?)<\/\1>/g;
+  const segments: Array<{ tag?: string; content: string }> = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pairedTagRegex.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ content: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ tag: match[1], content: match[2] });
+    lastIndex = pairedTagRegex.lastIndex;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ content: text.slice(lastIndex) });
+  }
+
+  let displayText = "";
+  for (const segment of segments) {
+    const openTag = segment.tag ? `<${segment.tag}>` : "";
+    const closeTag = segment.tag ? `</${segment.tag}>` : "";
+    if (segment.tag) {
+      // Insert opening and closing tags instantly, then type between them
+      yield { type: "update", text: displayText + openTag + closeTag };
+    }
+    // Escape sequences are inserted whole; only visible characters take typing time
+    let typed = "";
+    for (const token of tokenizeTerminalText(segment.content)) {
+      typed += token;
+      if (!isVisibleToken(token)) continue;
+      yield { type: "update", text: displayText + openTag + typed + closeTag };
+      yield { type: "wait", ms: between(rng, SYSTEM_TYPE_MIN_MS, SYSTEM_TYPE_MAX_MS) };
+    }
+    if (typed !== segment.content) {
+      yield { type: "update", text: displayText + openTag + typed + closeTag };
+    }
+    displayText += openTag + segment.content + closeTag;
+  }
+}
+
+/**
+ * Simulates a human typing at a physical keyboard.
+ *
+ * Varies timing per character to mimic real keystrokes:
+ * - Thinking pauses (250-600ms) after spaces and punctuation
+ * - Slightly slower on the last char of a word (100-220ms)
+ * - Occasional mid-word hesitation (180-350ms, ~15% chance)
+ * - Fast bursts within a word (45-100ms)
+ */
+function* typeUser(text: string, prefix: string, rng: () => number): Generator<EngineOp> {
+  yield { type: "push", text: prefix };
+  const tokens = tokenizeTerminalText(text);
+  let typed = "";
+  for (let charIdx = 0; charIdx < tokens.length; charIdx++) {
+    const char = tokens[charIdx];
+    typed += char;
+    if (!isVisibleToken(char)) continue;
+    yield { type: "update", text: prefix + typed };
+    const nextChar = tokens[charIdx + 1];
+
+    let delay: number;
+    if (char === " " || char === "." || char === "," || char === "?") {
+      delay = between(rng, 250, 600);
+    } else if (nextChar === " " || charIdx === tokens.length - 1) {
+      delay = between(rng, 100, 220);
+    } else if (rng() < 0.15) {
+      delay = between(rng, 180, 350);
+    } else {
+      delay = between(rng, 45, 100);
+    }
+    yield { type: "wait", ms: delay };
+  }
+  // Trailing escape sequences (e.g., an SGR reset) take effect without a keystroke
+  if (tokens.length > 0 && !isVisibleToken(tokens[tokens.length - 1])) {
+    yield { type: "update", text: prefix + typed };
+  }
+}
+
+/** Counts from 0 up to `target` in place, e.g. a memory test. */
+function* animateCounter(prefix: string, target: number, suffix: string, rng: () => number): Generator<EngineOp> {
+  yield { type: "push", text: prefix + "0" + suffix };
+  for (let step = 1; step <= COUNTER_STEPS; step++) {
+    const value = Math.round((target / COUNTER_STEPS) * step);
+    yield { type: "update", text: prefix + value + suffix };
+    yield { type: "wait", ms: between(rng, 50, 80) };
+  }
+  yield { type: "update", text: prefix + target + suffix };
+}
+
+/** Prints text, then appends dots one by one. */
+function* printWithDots(text: string, dotCount: number, rng: () => number): Generator<EngineOp> {
+  yield { type: "push", text };
+  for (let dot = 0; dot < dotCount; dot++) {
+    yield { type: "wait", ms: between(rng, 300, 500) };
+    yield { type: "update", text: text + ".".repeat(dot + 1) };
+  }
+}
+
+/** Rapid barrage of random hex/data to simulate the WOPR handshake. */
+function* playBarrage(options: PlaybackOptions, rng: () => number): Generator<EngineOp> {
+  for (let frame = 0; frame < BARRAGE_FRAMES; frame++) {
+    yield { type: "clear" };
+    const lineCount = Math.floor(rng() * 3) + options.rows - 2;
+    for (let row = 0; row < lineCount; row++) {
+      const len = Math.floor(rng() * (options.cols - 4)) + 8;
+      let line = "";
+      for (let col = 0; col < len; col++) {
+        line += BARRAGE_CHARS[Math.floor(rng() * BARRAGE_CHARS.length)];
+      }
+      yield { type: "push", text: line };
+    }
+    yield { type: "wait", ms: between(rng, 60, 100) };
+  }
+}
+
+/** Plays a single scene step, including its trailing delay. */
+function* playStep(step: SceneStep, options: PlaybackOptions, rng: () => number): Generator<EngineOp> {
+  switch (step.type) {
+    case "instant":
+      yield { type: "push", text: step.text ?? "" };
+      break;
+    case "type":
+      yield* typeSystem(step.text ?? "", rng);
+      break;
+    case "counter":
+      yield* animateCounter(step.prefix ?? "", step.target ?? 0, step.suffix ?? "", rng);
+      break;
+    case "dots":
+      yield* printWithDots(step.text ?? "", step.dotCount ?? 3, rng);
+      break;
+    case "system":
+      if (step.text === "") {
+        yield { type: "push", text: "" };
+      } else {
+        yield* typeSystem(step.text ?? "", rng);
+      }
+      break;
+    case "user":
+    case "inline":
+      // Prompt ("> " or "USER: ") appears instantly, input is typed
+      yield* typeUser(step.text ?? "", step.prompt ?? "", rng);
+      break;
+    case "barrage":
+      yield* playBarrage(options, rng);
+      break;
+    case "clear":
+      yield { type: "clear" };
+      break;
+    case "frame":
+      // A whole screen at once: replaces everything, no typing
+      yield { type: "clear" };
+      for (const line of step.lines ?? []) {
+        yield { type: "push", text: line };
+      }
+      break;
+    case "pause":
+      break;
+  }
+  if (step.delayAfter) yield { type: "wait", ms: step.delayAfter };
+}
+
+/** Plays every step of a scene, in order. */
+function* playScene(scene: TerminalScene, options: PlaybackOptions, rng: () => number): Generator<EngineOp> {
+  yield { type: "scene", name: scene.name };
+  for (const step of scene.steps) {
+    yield* playStep(step, options, rng);
+  }
+}
+
+/** Types a pool command after its prompt, then prints its output. */
+function* playInteraction(entry: TerminalEntry, script: TerminalScript, rng: () => number): Generator<EngineOp> {
+  const { config } = script;
+  const promptPrefix = `${entry.prompt} `;
+  yield { type: "push", text: promptPrefix };
+  for (let charIdx = 0; charIdx < entry.command.length; charIdx++) {
+    yield { type: "update", text: promptPrefix + entry.command.slice(0, charIdx + 1) };
+    yield { type: "wait", ms: between(rng, config.typeMin, config.typeMax) };
+  }
+  yield { type: "wait", ms: config.pauseBeforeOutput };
+  for (const outputLine of entry.output) {
+    yield { type: "push", text: outputLine };
+    yield { type: "wait", ms: OUTPUT_LINE_DELAY_MS };
+  }
+  yield { type: "wait", ms: config.pauseAfterOutput };
+}
+
+/**
+ * The scripted session: cursor, start scenes, then UNIX commands with
+ * triggered scenes mixed in, until a `**Then:** shell` scene hands off.
+ * Tracks its own clock from the waits it yields, so scene triggers
+ * depend on virtual time only.
+ */
+function* sessionProgram(script: TerminalScript, options: PlaybackOptions, rng: () => number): Generator<EngineOp> {
+  const { scenes, unixCommands } = script;
+  const played = new Set<string>();
+  const usedIndices = new Set<number>();
+  /** Virtual ms since the last scene ended. */
+  let sinceScene = 0;
+
+  /** Forwards ops from a sub-program, counting the time its waits take. */
+  function* timed(program: Generator<EngineOp>): Generator<EngineOp> {
+    for (const op of program) {
+      if (op.type === "wait") sinceScene += op.ms;
+      yield op;
+    }
+  }
+
+  /** Picks a pool command, without repeats until the pool is exhausted. */
+  const pickInteraction = (): TerminalEntry => {
+    if (usedIndices.size >= unixCommands.length) usedIndices.clear();
+    let index: number;
+    do {
+      index = Math.floor(rng() * unixCommands.length);
+    } while (usedIndices.has(index));
+    usedIndices.add(index);
+    return unixCommands[index];
+  };
+
+  // Show only prompt with blinking cursor before boot starts
+  yield { type: "push", text: "> " };
+  yield { type: "wait", ms: script.config.initialCursorDelay };
+  yield { type: "clear" };
+
+  /** Set once a scene hands off to the interactive shell. */
+  let shell = false;
+
+  for (const scene of startScenes(scenes)) {
+    played.add(scene.name);
+    yield* playScene(scene, options, rng);
+    if (scene.then === "shell") {
+      shell = true;
+      break;
+    }
+  }
+
+  while (!shell) {
+    // Scheduled scenes first, otherwise maybe a weighted random interlude
+    const scene = dueScene(scenes, played, sinceScene / 1000)
+      ?? drawRandomScene(scenes, played, unixCommands.length, rng);
+    if (scene) {
+      played.add(scene.name);
+      yield* playScene(scene, options, rng);
+      shell = scene.then === "shell";
+      sinceScene = 0;
+      continue;
+    }
+    if (unixCommands.length === 0) {
+      // Nothing to fill the gap with: idle until the next scene is due
+      yield* timed(idleProgram(scenes, played, sinceScene));
+      continue;
+    }
+    yield { type: "scene", name: null };
+    yield* timed(playInteraction(pickInteraction(), script, rng));
+  }
+
+  yield { type: "shell" };
+  for (const line of SHELL_GREETING) {
+    yield* typeSystem(line, rng);
+  }
+  yield { type: "push", text: SHELL_PROMPT };
+}
+
+/** Waits until the next `elapsed` trigger is due, or ends if none is pending. */
+function* idleProgram(scenes: TerminalScene[], played: ReadonlySet<string>, sinceScene: number): Generator<EngineOp> {
+  const pending = scenes
+    .filter((scene) => !played.has(scene.name) && scene.trigger.elapsed !== undefined)
+    .map((scene) => (scene.trigger.elapsed ?? 0) * 1000 - sinceScene);
+  if (pending.length === 0) {
+    while (true) yield { type: "wait", ms: 60_000 };
+  }
+  yield { type: "wait", ms: Math.max(1, Math.min(...pending)) };
+}
+
+/**
+ * Output of one shell command: prints the result lines (or clears the
+ * screen), then shows a fresh prompt.
+ */
+export function* shellResponseProgram(result: ShellResult): Generator<EngineOp> {
+  if (result.clear) {
+    yield { type: "clear" };
+  }
+  for (const outputLine of result.output) {
+    yield { type: "push", text: outputLine };
+    yield { type: "wait", ms: OUTPUT_LINE_DELAY_MS };
+  }
+  yield { type: "push", text: SHELL_PROMPT };
+}
+
+// ---------------------------------------------------------------------------
+// State machine
+// ---------------------------------------------------------------------------
+
+/** Creates a playback at time 0 with the scripted session queued. */
+export function createPlayback(script: TerminalScript, options: PlaybackOptions): Playback {
+  const rng = createRng(options.seed);
+  return {
+    options,
+    state: { time: 0, lines: [], resumeAt: 0, scene: null, shell: false, idle: false, revision: 0 },
+    queue: [sessionProgram(script, options, rng)],
+    nextKey: 0,
+  };
+}
+
+/** Applies a single screen operation to the state. */
+function applyOp(playback: Playback, op: EngineOp): void {
+  const { state, options } = playback;
+  switch (op.type) {
+    case "push": {
+      const updated = [...state.lines, { key: playback.nextKey++, text: op.text }];
+      state.lines = updated.length > options.rows ? updated.slice(updated.length - options.rows) : updated;
+      state.revision++;
+      break;
+    }
+    case "update": {
+      if (state.lines.length === 0) {
+        state.lines = [{ key: playback.nextKey++, text: op.text }];
+      } else {
+        const updated = [...state.lines];
+        updated[updated.length - 1] = { ...updated[updated.length - 1], text: op.text };
+        state.lines = updated;
+      }
+      state.revision++;
+      break;
+    }
+    case "clear":
+      state.lines = [];
+      state.revision++;
+      break;
+    case "wait":
+      state.resumeAt += op.ms;
+      break;
+    case "scene":
+      state.scene = op.name;
+      break;
+    case "shell":
+      state.shell = true;
+      state.scene = null;
+      break;
+  }
+}
+
+/**
+ * Runs every operation due at or before `time` and moves the clock there.
+ *
+ * Waits are measured from when the previous wait ended, not from when
+ * `advancePlayback` happened to be called, so the result depends only on
+ * the target time, never on how often the caller ticks.
+ * Moving backwards is not supported: create a new playback and advance it.
+ */
+export function advancePlayback(playback: Playback, time: number): void {
+  const { state, queue } = playback;
+  while (queue.length > 0 && state.resumeAt <= time) {
+    const next = queue[0].next();
+    if (next.done) {
+      queue.shift();
+      continue;
+    }
+    applyOp(playback, next.value);
+  }
+  state.idle = queue.length === 0;
+  state.time = Math.max(state.time, time);
+}
+
+/**
+ * Queues another program (e.g., a shell response). When the playback is
+ * idle, the program starts at the current playback time.
+ */
+export function enqueueProgram(playback: Playback, program: EngineProgram): void {
+  const { state, queue } = playback;
+  if (queue.length === 0) {
+    state.resumeAt = Math.max(state.resumeAt, state.time);
+    state.idle = false;
+  }
+  queue.push(program);
+}
+
+/** Replaces the last line in place (e.g., echoing shell input). */
+export function replaceLastLine(playback: Playback, text: string): void {
+  applyOp(playback, { type: "update", text });
+}
+
+/**
+ * The exact screen buffer of a fresh playback at `time` ms after power-on.
+ * Pure: equal script, options and time always produce equal lines.
+ */
+export function screenAt(script: TerminalScript, options: PlaybackOptions, time: number): ScreenLine[] {
+  const playback = createPlayback(script, options);
+  advancePlayback(playback, time);
+  return playback.state.lines;
+}
+
+/**
+ * Plays a session on the virtual clock without rendering and records when
+ * each scene first starts and when the scripted part ends.
+ * Equal script and options always produce the same timeline.
+ */
+export function scanTimeline(script: TerminalScript, options: PlaybackOptions): PlaybackTimeline {
+  const playback = createPlayback(script, options);
+  const { state } = playback;
+  const marks: TimelineMark[] = [];
+  let previous: string | null = null;
+
+  while (!(state.shell && state.idle) && state.resumeAt <= MAX_SCAN_MS) {
+    const time = state.resumeAt;
+    advancePlayback(playback, time);
+    if (state.shell || state.scene === previous) continue;
+    previous = state.scene;
+    if (!marks.some((mark) => mark.scene === state.scene)) {
+      marks.push({ scene: state.scene, time });
+    }
+  }
+
+  return { marks, duration: Math.min(state.time, MAX_SCAN_MS) };
+}
@@ -0,0 +1,232 @@
+/**
+ * Exports the hero terminal session as an asciinema recording and an
+ * animated SVG, for the README, slides and social posts.
+ *
+ * Both formats are rendered from the deterministic playback engine, so they
+ * follow the typing speeds, pauses and formatting of terminal-script.md
+ * exactly as the landing page plays them. A fixed seed keeps the output
+ * stable between builds.
+ */
+
+import type { TerminalScript } from "./terminal-parser";
+import { advancePlayback, createPlayback, type PlaybackOptions } from "./terminal-engine";
+import { renderTerminal, runCss, runsToAnsi, type ColorScheme, type RenderedTerminal, type StyledRun } from "./terminal-ansi";
+
+/** A distinct screen state and the virtual time (ms) it appears at. */
+export interface ExportFrame {
+  time: number;
+  screen: RenderedTerminal;
+}
+
+/** Recorded session: frames plus the total duration including the final hold. */
+export interface ExportRecording {
+  frames: ExportFrame[];
+  duration: number;
+  /** Whether ANSI colors map onto the phosphor color (`phosphor_colors` in the script). */
+  phosphor: boolean;
+}
+
+/** How long the last frame stays visible before the recording ends (ms). */
+const END_HOLD_MS = 5000;
+
+/** Upper bound for a recording, in case the script never hands off to the shell (ms). */
+const MAX_DURATION_MS = 15 * 60 * 1000;
+
+/** SVG geometry: monospace cell size and padding around the screen (px). */
+const SVG_FONT_SIZE = 14;
+const SVG_CHAR_WIDTH = SVG_FONT_SIZE * 0.6;
+const SVG_LINE_HEIGHT = SVG_FONT_SIZE * 1.2;
+const SVG_PADDING = 12;
+
+/** Green theme colors from global.css (the site's default theme). */
+const SVG_BACKGROUND = "#060a07";
+const SVG_FOREGROUND = "#33ff33";
+const SVG_GLOW = "rgba(102, 255, 102, 0.55)";
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Plays the session on the virtual clock and collects every distinct
+ * screen state, up to the point where the interactive shell waits for
+ * its first command. Screens are rendered through the VT100 emulator,
+ * so lines are clipped to the screen width like on the landing page.
+ */
+export function recordSession(script: TerminalScript, options: PlaybackOptions): ExportRecording {
+  const playback = createPlayback(script, options);
+  const { state } = playback;
+  const frames: ExportFrame[] = [];
+  let revision = -1;
+  let previousKey = "";
+
+  while (!(state.shell && state.idle) && state.resumeAt <= MAX_DURATION_MS) {
+    const time = state.resumeAt;
+    advancePlayback(playback, time);
+    if (state.revision === revision) continue;
+    revision = state.revision;
+
+    const screen = renderTerminal(state.lines.map((line) => line.text), options.cols, options.rows);
+    const key = screenKey(screen);
+    const previous = frames[frames.length - 1];
+    if (previous && previous.time === time) {
+      previous.screen = screen;
+    } else if (!previous || key !== previousKey) {
+      frames.push({ time, screen });
+    }
+    previousKey = key;
+  }
+
+  const lastTime = frames.length > 0 ? frames[frames.length - 1].time : 0;
+  return { frames, duration: lastTime + END_HOLD_MS, phosphor: script.config.phosphorColors !== 0 };
+}
+
+/** Identity of a rendered screen, for skipping frames that look the same. */
+function screenKey({ rows, cursor }: RenderedTerminal): string {
+  return `${cursor.row},${cursor.col}\n${rows.map(runsToAnsi).join("\n")}`;
+}
+
+// ---------------------------------------------------------------------------
+// asciicast v2
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a recording as an asciicast v2 file (https://docs.asciinema.org).
+ *
+ * Each frame only rewrites the rows that changed, then parks the cursor
+ * where the emulator left it, as the blinking cursor on the landing page.
+ */
+export function toAsciicast(recording: ExportRecording, options: PlaybackOptions, title: string): string {
+  const header = {
+    version: 2,
+    width: options.cols,
+    height: options.rows,
+    duration: Number((recording.duration / 1000).toFixed(3)),
+    title,
+    env: { TERM: "xterm-256color", SHELL: "/bin/sh" },
+  };
+  const events: string[] = [JSON.stringify(header), JSON.stringify([0, "o", "\x1B[2J\x1B[H"])];
+
+  let previous: string[] = [];
+  for (const frame of recording.frames) {
+    const { rows, cursor } = frame.screen;
+    const lines = rows.map(runsToAnsi);
+    let output = "";
+    for (let row = 0; row < options.rows; row++) {
+      const text = lines[row] ?? "";
+      if (text === (previous[row] ?? "")) continue;
+      output += `\x1B[${row + 1};1H${text}\x1B[K`;
+    }
+    output += `\x1B[${cursor.row + 1};${cursor.col + 1}H`;
+    events.push(JSON.stringify([Number((frame.time / 1000).toFixed(3)), "o", output]));
+    previous = lines;
+  }
+  // Hold the last frame: players stop at the final event
+  events.push(JSON.stringify([Number((recording.duration / 1000).toFixed(3)), "o", ""]));
+
+  return events.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Animated SVG
+// ---------------------------------------------------------------------------
+
+/** Escapes text for use in SVG markup. */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Converts CSS from `runCss` to SVG presentation styles (text color is `fill`). */
+function toSvgStyle(run: StyledRun, scheme: ColorScheme): string {
+  const css = runCss(run.style, scheme);
+  return [
+    css.color && `fill:${css.color}`,
+    css.fontWeight && `font-weight:${css.fontWeight}`,
+    css.fontStyle && `font-style:${css.fontStyle}`,
+    css.textDecoration && `text-decoration:${css.textDecoration}`,
+    css.opacity !== undefined && `opacity:${css.opacity}`,
+    css.animation && `animation:${css.animation}`,
+  ].filter(Boolean).join(";");
+}
+
+/** Renders a row as SVG: background rects for colored cells, then one tspan per styled run. */
+function toSvgRow(runs: StyledRun[], scheme: ColorScheme): string {
+  const backgrounds: string[] = [];
+  const spans: string[] = [];
+  let column = 0;
+  for (const run of runs) {
+    const background = runCss(run.style, scheme).backgroundColor;
+    if (background) {
+      backgrounds.push(`<rect x="${(column * SVG_CHAR_WIDTH).toFixed(1)}" y="${(-SVG_FONT_SIZE).toFixed(1)}" width="${(run.text.length * SVG_CHAR_WIDTH).toFixed(1)}" height="${SVG_LINE_HEIGHT.toFixed(1)}" style="fill:${background}"/>`);
+    }
+    const style = toSvgStyle(run, scheme);
+    spans.push(style ? `<tspan style="${style}">${escapeXml(run.text)}</tspan>` : escapeXml(run.text));
+    column += run.text.length;
+  }
+  return `${backgrounds.join("")}<text>${spans.join("")}</text>`;
+}
+
+/**
+ * Renders a recording as a self-contained animated SVG (no scripts, fonts
+ * or external references).
+ *
+ * All frames are stacked vertically in a film strip that a single CSS
+ * animation steps through; each distinct line is defined once and
+ * referenced with `<use>` instead of repeating its markup in every frame.
+ * A full session still has thousands of frames and comes out at several
+ * hundred KB, so it is generated at build time and never committed.
+ */
+export function toAnimatedSvg(recording: ExportRecording, options: PlaybackOptions, title: string): string {
+  const screenWidth = Math.ceil(options.cols * SVG_CHAR_WIDTH);
+  const screenHeight = Math.ceil(options.rows * SVG_LINE_HEIGHT);
+  const width = screenWidth + SVG_PADDING * 2;
+  const height = screenHeight + SVG_PADDING * 2;
+  const duration = recording.duration;
+
+  const scheme: ColorScheme = { phosphor: recording.phosphor, foreground: SVG_FOREGROUND, background: SVG_BACKGROUND };
+
+  const lineIds = new Map<string, string>();
+  const defs: string[] = [];
+  const idFor = (runs: StyledRun[]) => {
+    const key = runsToAnsi(runs);
+    let id = lineIds.get(key);
+    if (!id) {
+      id = `l${lineIds.size.toString(36)}`;
+      lineIds.set(key, id);
+      defs.push(`<g id="${id}">${toSvgRow(runs, scheme)}</g>`);
+    }
+    return id;
+  };
+
+  const frames: string[] = [];
+  const keyframes: string[] = [];
+  recording.frames.forEach((frame, index) => {
+    const uses = frame.screen.rows
+      .map((runs, row) => (runs.length === 0 ? "" : `<use href="#${idFor(runs)}" y="${(row * SVG_LINE_HEIGHT + SVG_FONT_SIZE).toFixed(1)}"/>`))
+      .join("");
+    frames.push(`<g transform="translate(0 ${index * screenHeight})">${uses}</g>`);
+    const percent = ((frame.time / duration) * 100).toFixed(4);
+    keyframes.push(`${percent}%{transform:translateY(-${index * screenHeight}px)}`);
+  });
+
+  const style = [
+    `text{font:${SVG_FONT_SIZE}px ui-monospace,Menlo,Consolas,"Liberation Mono",monospace;fill:${SVG_FOREGROUND};white-space:pre}`,
+    `.screen{filter:drop-shadow(0 0 2px ${SVG_GLOW})}`,
+    `.strip{animation:play ${(duration / 1000).toFixed(3)}s steps(1,end) infinite}`,
+    `@keyframes play{${keyframes.join("")}}`,
+    // Same blink as the landing page cursor (global.css), for SGR 5
+    "@keyframes cursor-blink{0%,50%{opacity:1}51%,100%{opacity:0}}",
+  ].join("");
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<style>${style}</style>`,
+    `<defs>${defs.join("")}</defs>`,
+    `<rect width="${width}" height="${height}" rx="8" fill="${SVG_BACKGROUND}"/>`,
+    `<svg class="screen" x="${SVG_PADDING}" y="${SVG_PADDING}" width="${screenWidth}" height="${screenHeight}">`,
+    `<g class="strip">${frames.join("")}</g>`,
+    "</svg>",
+    "</svg>",
+  ].join("\n") + "\n";
+}
@@ -7,25 +7,37 @@
  * - __underline__ → \x1B[4m
  * - ~~strikethrough~~ → \x1B[9m
  * - *italic* → \x1B[3m
+ *
+ * Raw ANSI/VT100 escape sequences can be embedded with the `\e`, `\x1b`,
+ * `\033` or `\u001b` notations (e.g., output captured from a TUIkit app).
  */
 
 import fs from "fs";
 import path from "path";
 
+/** Textual notations of the ESC character accepted in the script: \e, \x1b, \033, \u001b. */
+const ESCAPE_NOTATION_REGEX = /\\(?:e|x1[bB]|033|u001[bB])/g;
+
+/** Replaces escape notations with the real ESC character. */
+function decodeEscapes(text: string): string {
+  return text.replace(ESCAPE_NOTATION_REGEX, "\x1B");
+}
+
 /**
  * Convert Markdown formatting to HTML-like tags for terminal display.
  * These will be rendered by TerminalScreen component.
  * Supports: bold, underline, strikethrough, italic
+ * Escape notations are decoded first, so SGR sequences reach the renderer as-is.
  * 
  * Important: Only matches if there's actual text content between markers,
  * not just repeated special chars (e.g., ******** for password masking)
  */
 function parseMarkdownFormatting(text: string): string {
-  let result = text;
+  let result = decodeEscapes(text);
   
   // Skip formatting if line contains only special characters (like ********)
-  if (/^[*_~\s]+$/.test(text)) {
-    return text;
+  if (/^[*_~\s]+$/.test(result)) {
+    return result;
   }
   
   // Process in order, being careful not to match literal asterisks
@@ -55,9 +67,17 @@ function parseMarkdownFormatting(text: string): string {
   return result;
 }
 
-export interface BootStep {
-  type: "instant" | "type" | "counter" | "pause" | "clear" | "dots";
+/**
+ * One step of a scene. Every scene shares this vocabulary, so any tag
+ * (e.g., `[COUNTER]` or `[BARRAGE]`) can be used in any scene.
+ */
+export interface SceneStep {
+  type: "instant" | "type" | "counter" | "dots" | "system" | "user" | "inline" | "barrage" | "pause" | "clear" | "frame";
   text?: string;
+  /** Complete screen contents of a `frame` step (imported recordings, see terminal-cast). */
+  lines?: string[];
+  /** Text printed before typed input (`[USER]` "> ", `[INLINE]` "USER: "). */
+  prompt?: string;
   prefix?: string;
   target?: number;
   suffix?: string;
@@ -65,17 +85,28 @@ export interface BootStep {
   delayAfter?: number;
 }
 
-export interface SchoolStep {
-  type: "system" | "user" | "inline" | "pause" | "clear";
-  prompt?: string;
-  text?: string;
-  delayAfter?: number;
+/**
+ * When a scene plays. Clauses combine: `after school, elapsed 12s` plays
+ * 12 seconds of UNIX commands after the school scene has finished.
+ */
+export interface SceneTrigger {
+  /** Play right after power-on, before the UNIX command loop starts. */
+  start?: boolean;
+  /** Only eligible once the named scene has played. */
+  after?: string;
+  /** Seconds of UNIX commands (since the previous scene) before the scene plays. */
+  elapsed?: number;
+  /** Chance per UNIX command slot, relative to a single pool command (weight 1). */
+  weight?: number;
 }
 
-export interface JoshuaStep {
-  type: "system" | "user" | "pause" | "clear" | "barrage";
-  text?: string;
-  delayAfter?: number;
+/** A named scene from a `## Scene: name` section. Each scene plays at most once per session. */
+export interface TerminalScene {
+  name: string;
+  trigger: SceneTrigger;
+  /** What follows the scene: back to the UNIX loop, or the interactive shell. */
+  then: "loop" | "shell";
+  steps: SceneStep[];
 }
 
 export interface TerminalEntry {
@@ -84,22 +115,109 @@ export interface TerminalEntry {
   output: string[];
 }
 
+export interface TerminalConfig {
+  initialCursorDelay: number;
+  typeMin: number;
+  typeMax: number;
+  pauseBeforeOutput: number;
+  pauseAfterOutput: number;
+  /** 1: map ANSI colors onto shades of the current phosphor theme; 0: show them as-is. */
+  phosphorColors: number;
+  /** Screen size in characters; the CRT text is sized so this grid fills the screen. */
+  cols: number;
+  rows: number;
+  /** Larger screen on wide viewports (at least `wideMinWidth` px), drawn with a smaller font. */
+  wideCols: number;
+  wideRows: number;
+  wideMinWidth: number;
+}
+
 export interface TerminalScript {
-  config: {
-    initialCursorDelay: number;
-    schoolTrigger: number;
-    joshuaTrigger: number;
-    typeMin: number;
-    typeMax: number;
-    pauseBeforeOutput: number;
-    pauseAfterOutput: number;
-  };
-  bootSequence: BootStep[];
-  schoolSequence: SchoolStep[];
-  joshuaSequence: JoshuaStep[];
+  config: TerminalConfig;
+  /** Scenes in script order. */
+  scenes: TerminalScene[];
   unixCommands: TerminalEntry[];
 }
 
+/** A problem found while validating terminal-script.md. */
+export interface ScriptIssue {
+  /** Script file path, relative to the project root. */
+  file: string;
+  /** 1-based line number the issue refers to. */
+  line: number;
+  /** Section heading (and sub-heading) the line belongs to. */
+  section: string;
+  /** Human-readable reason. */
+  message: string;
+}
+
+/** Default location of the terminal script, relative to the project root. */
+const SCRIPT_FILE = "terminal-script.md";
+
+/** Fixed section headings the parser relies on. Renaming one in the script breaks parsing. */
+const SECTIONS = {
+  config: "## Configuration",
+  unix: "## UNIX Command Pool",
+  effects: "## Special Effects",
+} as const;
+
+/** Matches a scene heading: "## Scene: school". */
+const SCENE_HEADING_REGEX = /^## Scene:\s*(.*)$/;
+
+/** Valid scene names, as referenced by `after NAME` triggers. */
+const SCENE_NAME_REGEX = /^[a-z][a-z0-9-]*$/;
+
+/** Matches the trigger line of a scene: "**Trigger:** after school, elapsed 12s". */
+const TRIGGER_LINE_REGEX = /^\*\*Trigger:\*\*\s*(.*)$/;
+
+/** Matches the optional follow-up line of a scene: "**Then:** shell". */
+const THEN_LINE_REGEX = /^\*\*Then:\*\*\s*(.*)$/;
+
+/** Tags every scene understands (besides `[DELAY …ms]`). */
+const STEP_TAGS = ["INSTANT", "TYPE", "COUNTER", "DOTS", "SYSTEM", "USER", "INLINE", "BARRAGE", "CLEAR", "PAUSE"];
+
+/** Maps YAML keys in the Configuration block to `TerminalConfig` fields. */
+const CONFIG_KEYS: Record<string, keyof TerminalConfig> = {
+  initial_cursor_delay: "initialCursorDelay",
+  type_min: "typeMin",
+  type_max: "typeMax",
+  pause_before_output: "pauseBeforeOutput",
+  pause_after_output: "pauseAfterOutput",
+  phosphor_colors: "phosphorColors",
+  cols: "cols",
+  rows: "rows",
+  wide_cols: "wideCols",
+  wide_rows: "wideRows",
+  wide_min_width: "wideMinWidth",
+};
+
+/** Config keys that count characters or pixels and must be positive whole numbers. */
+const POSITIVE_INTEGER_KEYS = new Set(["cols", "rows", "wide_cols", "wide_rows", "wide_min_width"]);
+
+/** Fallback configuration, used for keys missing from the YAML block. */
+const DEFAULT_CONFIG: TerminalConfig = {
+  initialCursorDelay: 1500,
+  typeMin: 40,
+  typeMax: 80,
+  pauseBeforeOutput: 400,
+  pauseAfterOutput: 1200,
+  phosphorColors: 1,
+  cols: 37,
+  rows: 9,
+  wideCols: 80,
+  wideRows: 24,
+  wideMinWidth: 1280,
+};
+
+/** Matches `key: value` lines in the YAML config block (trailing comments allowed). */
+const CONFIG_LINE_REGEX = /^([A-Za-z_][\w]*)\s*:\s*([^#]*?)\s*(?:#.*)?$/;
+
+/** Matches the `[COUNTER]` payload: "Memory Test: 0 → 4096K OK". */
+const COUNTER_REGEX = /^(.*?\s+)0\s*→\s*(\d+)(.*)$/;
+
+/** Matches the `[INLINE]` payload: "USER: DABNEY". */
+const INLINE_REGEX = /^(.*?:\s*)(.*)$/;
+
 /**
  * Parse a single line from the script.
  * Format: [TYPE] content
@@ -107,40 +225,40 @@ export interface TerminalScript {
  */
 function parseLine(line: string): { type: string; content: string; delay?: number } | null {
   const trimmed = line.trim();
-  
+
   // Parse delay
   const delayMatch = trimmed.match(/^\[DELAY (\d+)ms\]$/);
   if (delayMatch) {
     return { type: "DELAY", content: "", delay: parseInt(delayMatch[1], 10) };
   }
-  
+
   // Parse command
   const commandMatch = trimmed.match(/^\[(\w+)\]\s*(.*)$/);
   if (commandMatch) {
     const [, type, content] = commandMatch;
     return { type, content };
   }
-  
+
   return null;
 }
 
 /**
- * Parse boot sequence from markdown content.
+ * Parse the steps of a scene from the contents of its terminal blocks.
  */
-function parseBootSequence(content: string): BootStep[] {
-  const steps: BootStep[] = [];
+function parseSceneSteps(content: string): SceneStep[] {
+  const steps: SceneStep[] = [];
   const lines = content.split("\n");
   let i = 0;
-  
+
   while (i < lines.length) {
     const parsed = parseLine(lines[i]);
     if (!parsed) {
       i++;
       continue;
     }
-    
-    const step: Partial<BootStep> = {};
-    
+
+    const step: Partial<SceneStep> = {};
+
     switch (parsed.type) {
       case "INSTANT":
         step.type = "instant";
@@ -154,7 +272,7 @@ function parseBootSequence(content: string): BootStep[] {
         step.type = "counter";
         // Format: "Memory Test: 0 → 4096K OK" or "Memory Test:  0 → 4096K OK"
         // Keep spacing between prefix and "0"
-        const counterMatch = parsed.content.match(/^(.*?\s+)0\s*→\s*(\d+)(.*)$/);
+        const counterMatch = parsed.content.match(COUNTER_REGEX);
         if (counterMatch) {
           step.prefix = parseMarkdownFormatting(counterMatch[1]);
           step.target = parseInt(counterMatch[2], 10);
@@ -173,63 +291,29 @@ function parseBootSequence(content: string): BootStep[] {
           step.dotCount = 3;
         }
         break;
-      case "CLEAR":
-        step.type = "clear";
-        break;
-      case "PAUSE":
-        step.type = "pause";
-        break;
-      case "DELAY":
-        // Apply delay to previous step
-        if (steps.length > 0) {
-          steps[steps.length - 1].delayAfter = parsed.delay;
-        }
-        i++;
-        continue;
-    }
-    
-    steps.push(step as BootStep);
-    i++;
-  }
-  
-  return steps;
-}
-
-/**
- * Parse school sequence from markdown content.
- */
-function parseSchoolSequence(content: string): SchoolStep[] {
-  const steps: SchoolStep[] = [];
-  const lines = content.split("\n");
-  let i = 0;
-  
-  while (i < lines.length) {
-    const parsed = parseLine(lines[i]);
-    if (!parsed) {
-      i++;
-      continue;
-    }
-    
-    const step: Partial<SchoolStep> = {};
-    
-    switch (parsed.type) {
       case "SYSTEM":
         step.type = "system";
         step.text = parseMarkdownFormatting(parsed.content);
         break;
       case "USER":
         step.type = "user";
-        step.text = parseMarkdownFormatting(parsed.content);
+        // Format: "> HELLO": the "> " prefix becomes the prompt, only the rest is typed
+        const userMatch = parsed.content.match(/^(>\s*)?(.*)$/);
+        step.prompt = userMatch?.[1] ? "> " : "";
+        step.text = parseMarkdownFormatting(userMatch?.[2] ?? parsed.content);
         break;
       case "INLINE":
         step.type = "inline";
         // Format: "USER: DABNEY"
-        const inlineMatch = parsed.content.match(/^(.*?:\s*)(.*)$/);
+        const inlineMatch = parsed.content.match(INLINE_REGEX);
         if (inlineMatch) {
           step.prompt = parseMarkdownFormatting(inlineMatch[1]);
           step.text = parseMarkdownFormatting(inlineMatch[2]);
         }
         break;
+      case "BARRAGE":
+        step.type = "barrage";
+        break;
       case "CLEAR":
         step.type = "clear";
         break;
@@ -237,69 +321,80 @@ function parseSchoolSequence(content: string): SchoolStep[] {
         step.type = "pause";
         break;
       case "DELAY":
+        // Apply delay to previous step
         if (steps.length > 0) {
           steps[steps.length - 1].delayAfter = parsed.delay;
         }
         i++;
         continue;
+      default:
+        // Unknown tags are reported by validateTerminalScript
+        i++;
+        continue;
     }
-    
-    steps.push(step as SchoolStep);
+
+    steps.push(step as SceneStep);
     i++;
   }
-  
+
   return steps;
 }
 
 /**
- * Parse Joshua sequence from markdown content.
+ * Parse a trigger line such as "after school, elapsed 12s".
+ * Returns the trigger, or an error message describing the first bad clause.
  */
-function parseJoshuaSequence(content: string): JoshuaStep[] {
-  const steps: JoshuaStep[] = [];
-  const lines = content.split("\n");
-  let i = 0;
-  
-  while (i < lines.length) {
-    const parsed = parseLine(lines[i]);
-    if (!parsed) {
-      i++;
-      continue;
+function parseTrigger(value: string): { trigger: SceneTrigger } | { error: string } {
+  const trigger: SceneTrigger = {};
+  const clauses = value.split(",").map((clause) => clause.trim()).filter(Boolean);
+  if (clauses.length === 0) {
+    return { error: 'Empty trigger (expected "start", "after NAME", "elapsed 12s" or "weight 3")' };
+  }
+
+  for (const clause of clauses) {
+    const [keyword, argument, ...rest] = clause.split(/\s+/);
+    if (rest.length > 0) return { error: `Malformed trigger clause "${clause}"` };
+
+    if (keyword === "start" && argument === undefined) {
+      trigger.start = true;
+    } else if (keyword === "after" && argument !== undefined) {
+      trigger.after = argument;
+    } else if (keyword === "elapsed" && /^\d+(\.\d+)?s?$/.test(argument ?? "")) {
+      trigger.elapsed = parseFloat(argument);
+    } else if (keyword === "weight" && /^\d+(\.\d+)?$/.test(argument ?? "") && parseFloat(argument) > 0) {
+      trigger.weight = parseFloat(argument);
+    } else {
+      return { error: `Unknown trigger clause "${clause}" (expected "start", "after NAME", "elapsed 12s" or "weight 3")` };
     }
-    
-    const step: Partial<JoshuaStep> = {};
-    
-    switch (parsed.type) {
-      case "SYSTEM":
-        step.type = "system";
-        step.text = parseMarkdownFormatting(parsed.content);
-        break;
-      case "USER":
-        step.type = "user";
-        // Remove "> " prefix if present, then apply formatting
-        step.text = parseMarkdownFormatting(parsed.content.replace(/^>\s*/, ""));
-        break;
-      case "BARRAGE":
-        step.type = "barrage";
-        break;
-      case "CLEAR":
-        step.type = "clear";
-        break;
-      case "PAUSE":
-        step.type = "pause";
-        break;
-      case "DELAY":
-        if (steps.length > 0) {
-          steps[steps.length - 1].delayAfter = parsed.delay;
-        }
-        i++;
-        continue;
+  }
+
+  if (trigger.start && clauses.length > 1) {
+    return { error: '"start" cannot be combined with other trigger clauses' };
+  }
+  if (trigger.elapsed !== undefined && trigger.weight !== undefined) {
+    return { error: '"elapsed" and "weight" cannot be combined' };
+  }
+  return { trigger };
+}
+
+/**
+ * Parse the YAML configuration block. Unknown keys and non-numeric values
+ * are skipped here and reported by `validateTerminalScript`.
+ */
+function parseConfig(content: string): TerminalConfig {
+  const config = { ...DEFAULT_CONFIG };
+
+  for (const line of content.split("\n")) {
+    const match = line.trim().match(CONFIG_LINE_REGEX);
+    if (!match) continue;
+    const field = CONFIG_KEYS[match[1]];
+    const value = Number(match[2]);
+    if (field && match[2] !== "" && Number.isFinite(value)) {
+      config[field] = value;
     }
-    
-    steps.push(step as JoshuaStep);
-    i++;
   }
-  
-  return steps;
+
+  return config;
 }
 
 /**
@@ -307,63 +402,305 @@ function parseJoshuaSequence(content: string): JoshuaStep[] {
  */
 function parseUnixCommands(content: string): TerminalEntry[] {
   const commands: TerminalEntry[] = [];
-  const blocks = content.split("```terminal\n").slice(1);
-  
-  for (const block of blocks) {
-    const lines = block.split("\n```")[0].split("\n");
+
+  for (const block of codeBlocks(content, "terminal")) {
+    const lines = block.split("\n");
     if (lines.length === 0) continue;
-    
+
     const firstLine = lines[0];
     const promptMatch = firstLine.match(/^(\$|#)\s+(.+)$/);
     if (!promptMatch) continue;
-    
+
     const prompt = promptMatch[1];
     const command = parseMarkdownFormatting(promptMatch[2]);
     const output = lines.slice(1)
       .filter(line => line.trim() !== "")
       .map(line => parseMarkdownFormatting(line));
-    
+
     commands.push({ prompt, command, output });
   }
-  
+
   return commands;
 }
 
+/**
+ * Splits the script into `## ` sections.
+ * Returns each heading with the text up to the next `## ` heading.
+ */
+function splitSections(content: string): { heading: string; body: string }[] {
+  const sections: { heading: string; body: string }[] = [];
+  let current: { heading: string; lines: string[] } | null = null;
+  let inFence = false;
+
+  for (const line of content.split("\n")) {
+    if (line.trim().startsWith("```")) inFence = !inFence;
+    if (!inFence && line.startsWith("## ")) {
+      if (current) sections.push({ heading: current.heading, body: current.lines.join("\n") });
+      current = { heading: line.trim(), lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  if (current) sections.push({ heading: current.heading, body: current.lines.join("\n") });
+
+  return sections;
+}
+
+/** Returns the contents of every fenced code block with the given language. */
+function codeBlocks(body: string, lang: string): string[] {
+  const regex = new RegExp("```" + lang + "\\n([\\s\\S]*?)\\n```", "g");
+  return Array.from(body.matchAll(regex), (match) => match[1]);
+}
+
+/** Returns the value of the first `**Label:** value` line matching `regex`, if any. */
+function metaLine(body: string, regex: RegExp): string | null {
+  for (const line of body.split("\n")) {
+    const match = line.trim().match(regex);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+/** Reads the script file; `scriptPath` is relative to the project root. */
+function readScript(scriptPath: string): string {
+  return fs.readFileSync(path.join(process.cwd(), scriptPath), "utf-8");
+}
+
 /**
  * Parse the complete terminal script markdown file.
  */
-export function parseTerminalScript(): TerminalScript {
-  const scriptPath = path.join(process.cwd(), "terminal-script.md");
-  const content = fs.readFileSync(scriptPath, "utf-8");
-  
-  // Extract sections
-  const bootMatch = content.match(/## Boot Sequence\s*```terminal\n([\s\S]*?)\n```/);
-  const schoolMatch = content.match(/## School Computer Scene[\s\S]*?```terminal\n([\s\S]*?)\n```/);
-  const joshuaMatch = content.match(/## Joshua\/WOPR Scene[\s\S]*?### First Contact([\s\S]*?)## UNIX Command Pool/);
-  const unixMatch = content.match(/## UNIX Command Pool([\s\S]*?)## Special Effects/);
-  
+export function parseTerminalScript(scriptPath = SCRIPT_FILE): TerminalScript {
+  const sections = splitSections(readScript(scriptPath));
+  const bodyOf = (heading: string) => sections.find((section) => section.heading === heading)?.body ?? "";
+
   // Parse config
-  const config = {
-    initialCursorDelay: 1500,
-    schoolTrigger: 12,
-    joshuaTrigger: 12,
-    typeMin: 40,
-    typeMax: 80,
-    pauseBeforeOutput: 400,
-    pauseAfterOutput: 1200,
-  };
-  
-  // Parse sequences
-  const bootSequence = bootMatch ? parseBootSequence(bootMatch[1]) : [];
-  const schoolSequence = schoolMatch ? parseSchoolSequence(schoolMatch[1]) : [];
-  const joshuaSequence = joshuaMatch ? parseJoshuaSequence(joshuaMatch[1]) : [];
-  const unixCommands = unixMatch ? parseUnixCommands(unixMatch[1]) : [];
-  
+  const configBlock = codeBlocks(bodyOf(SECTIONS.config), "yaml")[0];
+  const config = configBlock ? parseConfig(configBlock) : { ...DEFAULT_CONFIG };
+
+  // Parse scenes: a scene may span several ```terminal blocks (one per sub-scene)
+  const scenes: TerminalScene[] = [];
+  for (const { heading, body } of sections) {
+    const name = heading.match(SCENE_HEADING_REGEX)?.[1].trim();
+    if (!name) continue;
+    const parsedTrigger = parseTrigger(metaLine(body, TRIGGER_LINE_REGEX) ?? "");
+    scenes.push({
+      name,
+      trigger: "trigger" in parsedTrigger ? parsedTrigger.trigger : {},
+      then: metaLine(body, THEN_LINE_REGEX) === "shell" ? "shell" : "loop",
+      steps: parseSceneSteps(codeBlocks(body, "terminal").join("\n")),
+    });
+  }
+
+  const unixCommands = parseUnixCommands(bodyOf(SECTIONS.unix));
+
   return {
     config,
-    bootSequence,
-    schoolSequence,
-    joshuaSequence,
+    scenes,
     unixCommands,
   };
 }
+
+// ── Validation ────────────────────────────────────────────────────
+
+/** Returns the SECTIONS key for a `## ` heading line, if the parser knows it. */
+function sectionKey(heading: string): keyof typeof SECTIONS | null {
+  const entry = Object.entries(SECTIONS).find(([, title]) => title === heading);
+  return entry ? (entry[0] as keyof typeof SECTIONS) : null;
+}
+
+/** What the validator remembers about a scene until the whole file has been read. */
+interface SceneOutline {
+  name: string;
+  line: number;
+  trigger: SceneTrigger | null;
+  triggerLine: number;
+  blockCount: number;
+}
+
+/**
+ * Validate terminal-script.md without executing it.
+ *
+ * Walks the file line by line and reports every problem the parser would
+ * otherwise swallow silently: missing sections, unknown tags, malformed
+ * `[DELAY …ms]` lines, unparseable `[COUNTER]`/`[INLINE]` payloads,
+ * UNIX command blocks without a prompt, broken YAML config keys, and
+ * scenes with missing or invalid triggers.
+ *
+ * Returns an empty array when the script is valid.
+ */
+export function validateTerminalScript(scriptPath = SCRIPT_FILE): ScriptIssue[] {
+  const lines = readScript(scriptPath).split("\n");
+  const issues: ScriptIssue[] = [];
+  const seen = new Set<keyof typeof SECTIONS>();
+  const scenes: SceneOutline[] = [];
+
+  let section: keyof typeof SECTIONS | "scene" | null = null;
+  let sectionLabel = "(preamble)";
+  let scene: SceneOutline | null = null;
+  let fence: { lang: string; line: number; firstContentSeen: boolean } | null = null;
+  /** Whether the current scene already has a step a DELAY can attach to. */
+  let hasStep = false;
+  /** Code blocks per fixed section, to report sections without any. */
+  const blockCount: Partial<Record<keyof typeof SECTIONS, number>> = {};
+
+  const report = (line: number, message: string) => {
+    issues.push({ file: scriptPath, line, section: sectionLabel, message });
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const trimmed = rawLine.trim();
+
+    if (trimmed.startsWith("```")) {
+      if (fence) {
+        fence = null;
+      } else {
+        fence = { lang: trimmed.slice(3).trim(), line: lineNumber, firstContentSeen: false };
+        if (scene && fence.lang === "terminal") scene.blockCount++;
+        else if (section && section !== "scene") blockCount[section] = (blockCount[section] ?? 0) + 1;
+      }
+      return;
+    }
+
+    if (!fence) {
+      if (rawLine.startsWith("## ")) {
+        const sceneMatch = trimmed.match(SCENE_HEADING_REGEX);
+        sectionLabel = trimmed.slice(3);
+        hasStep = false;
+        scene = null;
+        if (sceneMatch) {
+          section = "scene";
+          const name = sceneMatch[1].trim();
+          if (!SCENE_NAME_REGEX.test(name)) {
+            report(lineNumber, `Invalid scene name "${name}" (use lowercase letters, digits and dashes)`);
+          } else if (scenes.some((other) => other.name === name)) {
+            report(lineNumber, `Duplicate scene "${name}"`);
+          }
+          scene = { name, line: lineNumber, trigger: null, triggerLine: lineNumber, blockCount: 0 };
+          scenes.push(scene);
+        } else {
+          section = sectionKey(trimmed);
+          if (section) seen.add(section);
+        }
+      } else if (rawLine.startsWith("### ") && section) {
+        const parent = section === "scene" ? `Scene: ${scene?.name}` : SECTIONS[section].slice(3);
+        sectionLabel = `${parent} › ${trimmed.slice(4)}`;
+      } else if (scene) {
+        const triggerMatch = trimmed.match(TRIGGER_LINE_REGEX);
+        const thenMatch = trimmed.match(THEN_LINE_REGEX);
+        if (triggerMatch) {
+          const parsed = parseTrigger(triggerMatch[1]);
+          if ("error" in parsed) report(lineNumber, parsed.error);
+          else scene.trigger = parsed.trigger;
+          scene.triggerLine = lineNumber;
+        } else if (thenMatch && !["loop", "shell"].includes(thenMatch[1].trim())) {
+          report(lineNumber, `Unknown follow-up "${thenMatch[1].trim()}" (expected "loop" or "shell")`);
+        }
+      }
+      return;
+    }
+
+    if (trimmed === "") return;
+
+    // YAML configuration block
+    if (section === "config" && fence.lang === "yaml") {
+      if (trimmed.startsWith("#")) return;
+      const match = trimmed.match(CONFIG_LINE_REGEX);
+      if (!match) {
+        report(lineNumber, `Malformed config line "${trimmed}" (expected "key: value")`);
+      } else if (!CONFIG_KEYS[match[1]]) {
+        report(lineNumber, `Unknown config key "${match[1]}" (known: ${Object.keys(CONFIG_KEYS).join(", ")})`);
+      } else if (match[2] === "" || !Number.isFinite(Number(match[2]))) {
+        report(lineNumber, `Config key "${match[1]}" needs a numeric value, got "${match[2]}"`);
+      } else if (POSITIVE_INTEGER_KEYS.has(match[1]) && !(Number.isInteger(Number(match[2])) && Number(match[2]) > 0)) {
+        report(lineNumber, `Config key "${match[1]}" needs a positive whole number, got "${match[2]}"`);
+      }
+      return;
+    }
+
+    if (fence.lang !== "terminal") return;
+
+    // UNIX command pool: every block starts with a prompt line
+    if (section === "unix") {
+      if (!fence.firstContentSeen && !/^(\$|#)\s+.+$/.test(rawLine)) {
+        report(lineNumber, `Command block must start with "$ command" or "# command", got "${trimmed}"`);
+      }
+      fence.firstContentSeen = true;
+      return;
+    }
+
+    if (section !== "scene") return;
+
+    // Scenes: one tag per line
+    if (trimmed.startsWith("[DELAY")) {
+      if (!/^\[DELAY (\d+)ms\]$/.test(trimmed)) {
+        report(lineNumber, `Invalid delay "${trimmed}" (expected "[DELAY 1200ms]")`);
+      } else if (!hasStep) {
+        report(lineNumber, "DELAY has no preceding step to attach to");
+      }
+      return;
+    }
+
+    const parsed = parseLine(rawLine);
+    if (!parsed) {
+      report(lineNumber, `Unrecognised line "${trimmed}" (expected "[TAG] text")`);
+      return;
+    }
+
+    if (!STEP_TAGS.includes(parsed.type)) {
+      report(lineNumber, `Unknown tag [${parsed.type}] (allowed: ${STEP_TAGS.join(", ")}, DELAY)`);
+      return;
+    }
+
+    if (parsed.type === "COUNTER" && !COUNTER_REGEX.test(parsed.content)) {
+      report(lineNumber, `Malformed [COUNTER] "${parsed.content}" (expected "Label: 0 → 4096K OK")`);
+    } else if (parsed.type === "INLINE" && !/:/.test(parsed.content)) {
+      report(lineNumber, `Malformed [INLINE] "${parsed.content}" (expected "PROMPT: INPUT")`);
+    }
+    hasStep = true;
+  });
+
+  const openFence = fence as { line: number } | null;
+  if (openFence) {
+    report(openFence.line, "Code block is never closed");
+  }
+
+  for (const key of Object.keys(SECTIONS) as (keyof typeof SECTIONS)[]) {
+    if (!seen.has(key)) {
+      issues.push({ file: scriptPath, line: 1, section: SECTIONS[key].slice(3), message: `Missing section "${SECTIONS[key]}"` });
+    } else if (key !== "effects" && !blockCount[key]) {
+      issues.push({ file: scriptPath, line: 1, section: SECTIONS[key].slice(3), message: "Section has no code block" });
+    }
+  }
+
+  if (scenes.length === 0) {
+    issues.push({ file: scriptPath, line: 1, section: "(script)", message: 'No scenes found (expected "## Scene: name" sections)' });
+  }
+
+  const sceneNames = new Set(scenes.map((outline) => outline.name));
+  for (const outline of scenes) {
+    const label = `Scene: ${outline.name}`;
+    const issueAt = (line: number, message: string) => issues.push({ file: scriptPath, line, section: label, message });
+    if (outline.blockCount === 0) {
+      issueAt(outline.line, "Scene has no terminal code block");
+    }
+    if (!outline.trigger) {
+      // Invalid trigger lines were reported above; only flag scenes without one
+      if (outline.triggerLine === outline.line) issueAt(outline.line, 'Scene has no "**Trigger:**" line');
+      continue;
+    }
+    const after = outline.trigger.after;
+    if (after === outline.name) {
+      issueAt(outline.triggerLine, "Scene cannot play after itself");
+    } else if (after !== undefined && !sceneNames.has(after)) {
+      issueAt(outline.triggerLine, `Unknown scene "${after}" in trigger (known: ${[...sceneNames].join(", ")})`);
+    }
+  }
+
+  return issues;
+}
+
+/** Formats an issue as `file:line [section] message` for console output. */
+export function formatScriptIssue(issue: ScriptIssue): string {
+  return `${issue.file}:${issue.line} [${issue.section}] ${issue.message}`;
+}
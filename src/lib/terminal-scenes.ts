@@ -0,0 +1,66 @@
+/**
+ * Scene scheduling for TerminalScreen.
+ *
+ * Decides which scene from terminal-script.md plays next, based on the
+ * triggers declared in the script. Pure functions: the caller owns the
+ * clock, the set of played scenes and the random source.
+ */
+
+import type { TerminalScene } from "./terminal-parser";
+
+/** Whether the scene's `after` dependency (if any) has already played. */
+function isUnlocked(scene: TerminalScene, played: ReadonlySet<string>): boolean {
+  return scene.trigger.after === undefined || played.has(scene.trigger.after);
+}
+
+/** Scenes with a `start` trigger, in script order. */
+export function startScenes(scenes: TerminalScene[]): TerminalScene[] {
+  return scenes.filter((scene) => scene.trigger.start);
+}
+
+/**
+ * Returns the first scheduled (`elapsed` / `after`) scene that is due.
+ *
+ * @param elapsedSec - Seconds of UNIX commands since the previous scene ended.
+ */
+export function dueScene(
+  scenes: TerminalScene[],
+  played: ReadonlySet<string>,
+  elapsedSec: number,
+): TerminalScene | null {
+  return scenes.find((scene) =>
+    !scene.trigger.start
+    && scene.trigger.weight === undefined
+    && !played.has(scene.name)
+    && isUnlocked(scene, played)
+    && elapsedSec >= (scene.trigger.elapsed ?? 0),
+  ) ?? null;
+}
+
+/**
+ * Draws a weighted random scene for the next UNIX command slot, or null
+ * to play a pool command. Each pool command counts as weight 1, so a
+ * `weight 3` scene is three times as likely as any single command.
+ *
+ * @param poolSize - Number of commands in the UNIX pool.
+ * @param random - Random source in [0, 1), e.g. `Math.random`.
+ */
+export function drawRandomScene(
+  scenes: TerminalScene[],
+  played: ReadonlySet<string>,
+  poolSize: number,
+  random: () => number,
+): TerminalScene | null {
+  const candidates = scenes.filter((scene) =>
+    scene.trigger.weight !== undefined && !played.has(scene.name) && isUnlocked(scene, played),
+  );
+  if (candidates.length === 0) return null;
+
+  const total = candidates.reduce((sum, scene) => sum + (scene.trigger.weight ?? 0), poolSize);
+  let roll = random() * total;
+  for (const scene of candidates) {
+    roll -= scene.trigger.weight ?? 0;
+    if (roll < 0) return scene;
+  }
+  return null;
+}
@@ -0,0 +1,127 @@
+/**
+ * Command interpreter for the interactive shell in TerminalScreen.
+ *
+ * Once the scripted story has finished, visitors can type into the CRT.
+ * This module is pure: it turns a command line plus some live context
+ * (TUIkit version, star count, installer command) into output lines.
+ * Output uses the same `<b>/<u>/<s>/<i>` tags as the parsed terminal
+ * script, so TerminalScreen renders it with `renderTerminal`.
+ */
+
+/** Live data the shell commands can report on. */
+export interface ShellContext {
+  /** Latest TUIkit release (e.g., "0.3.0"). */
+  version: string;
+  /** Current stargazer count, or null while stats are still loading. */
+  stars: number | null;
+  /** One-line installer command from TemplateBadge. */
+  installCommand: string;
+  /** Visible columns: long output is wrapped to this width. */
+  cols: number;
+}
+
+/** Result of running a single command line. */
+export interface ShellResult {
+  /** Lines to print, in order. */
+  output: string[];
+  /** Whether the screen should be cleared instead of printing. */
+  clear?: boolean;
+}
+
+/** Prompt shown in front of every command line. */
+export const SHELL_PROMPT = "$ ";
+
+/** Lines printed when the shell takes over from the scripted sequence. */
+export const SHELL_GREETING = [
+  "<b>TUIkit</b> interactive shell",
+  "Type 'help' for commands.",
+];
+
+/** Files known to `ls` and `cat`. Contents are built lazily from the context. */
+const FILES: Record<string, (context: ShellContext) => string[]> = {
+  README: (context) => [
+    "<b>TUIkit</b> " + context.version,
+    "Terminal UIs, the Swift way.",
+    "",
+    "Declarative, SwiftUI-like views",
+    "for macOS and Linux. Pure Swift,",
+    "no ncurses, no C dependencies.",
+    "",
+    "Docs: docs.tuikit.dev",
+  ],
+  "Package.swift": (context) => [
+    ".package(",
+    '  url: "github.com/phranck/TUIkit",',
+    `  from: "${context.version}"`,
+    ")",
+  ],
+};
+
+/** Help text: one line per command, kept within the compact 37-column screen. */
+const HELP_LINES = [
+  "Available commands:",
+  "  help      show this list",
+  "  ls        list files",
+  "  cat FILE  print a file",
+  "  version   latest TUIkit release",
+  "  stars     GitHub stargazers",
+  "  install   CLI installer command",
+  "  clear     clear the screen",
+];
+
+/**
+ * Wraps plain text into chunks of at most `width` characters.
+ *
+ * Breaks at the last space before the limit when possible, otherwise hard-wraps.
+ * Intended for untagged output such as shell commands and URLs.
+ */
+export function wrapText(text: string, width: number): string[] {
+  if (width <= 0 || text.length <= width) return [text];
+
+  const lines: string[] = [];
+  let rest = text;
+  while (rest.length > width) {
+    const breakAt = rest.lastIndexOf(" ", width);
+    const cut = breakAt > 0 ? breakAt : width;
+    lines.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^ /, "");
+  }
+  if (rest.length > 0) lines.push(rest);
+  return lines;
+}
+
+/**
+ * Executes one command line and returns the lines to print.
+ *
+ * Unknown commands produce a classic `sh: name: not found` error,
+ * empty input produces no output.
+ */
+export function executeShellCommand(input: string, context: ShellContext): ShellResult {
+  const [command = "", ...args] = input.trim().split(/\s+/).filter(Boolean);
+
+  switch (command) {
+    case "":
+      return { output: [] };
+    case "help":
+      return { output: HELP_LINES };
+    case "ls":
+      return { output: [Object.keys(FILES).join("  ")] };
+    case "cat": {
+      if (args.length === 0) return { output: ["usage: cat FILE"] };
+      const file = FILES[args[0]];
+      if (!file) return { output: [`cat: ${args[0]}: No such file`] };
+      return { output: file(context) };
+    }
+    case "version":
+      return { output: [`TUIkit <b>${context.version}</b>`] };
+    case "stars":
+      if (context.stars === null) return { output: ["stars: still counting, try again"] };
+      return { output: [`phranck/TUIkit: <b>${context.stars.toLocaleString("en-US")}</b> stars`] };
+    case "install":
+      return { output: wrapText(context.installCommand, context.cols) };
+    case "clear":
+      return { output: [], clear: true };
+    default:
+      return { output: [`sh: ${command}: not found`] };
+  }
+}
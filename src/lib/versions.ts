@@ -0,0 +1,150 @@
+/**
+ * TUIkit versions from the repository's tags: semantic version parsing and
+ * ordering, and the latest version per release channel.
+ *
+ * Shared by scripts/update-version-cache.ts (public/version-cache.json),
+ * the `useTUIkitVersion` hook and the build config's version fallback.
+ */
+
+import { failureError, isFailure, type GitHubClient } from "./github-client";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Version shown when no tag could be read and no cached version exists. */
+export const FALLBACK_VERSION = "0.3.0";
+
+/** Pre-generated channels, relative to `public/` (served at `/version-cache.json`). */
+export const VERSION_CACHE_FILE = "version-cache.json";
+
+/** A parsed semantic version (https://semver.org). */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Dot-separated pre-release identifiers ("beta.2" is ["beta", "2"]), empty for a stable version. */
+  prerelease: string[];
+  /** The version as written, without a tag's `v` prefix and without build metadata. */
+  version: string;
+}
+
+/** Latest version of each release channel. */
+export interface VersionChannels {
+  /** Highest stable version. */
+  stable: string;
+  /** Highest pre-release newer than `stable`, or null if there is none. */
+  prerelease: string | null;
+}
+
+/** Contents of public/version-cache.json. */
+export interface VersionCache extends VersionChannels {
+  generatedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Semantic versions
+// ---------------------------------------------------------------------------
+
+/** MAJOR.MINOR.PATCH, optional `-pre.release` and `+build`, with an optional `v` prefix. */
+const SEMVER_REGEX = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/** Parses a version or tag name ("v1.2.0-beta.1"), or returns null if it isn't a semantic version. */
+export function parseSemVer(tag: string): SemVer | null {
+  const match = tag.trim().match(SEMVER_REGEX);
+  if (!match) return null;
+  const [, major, minor, patch, prerelease] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease ? prerelease.split(".") : [],
+    version: `${major}.${minor}.${patch}${prerelease ? `-${prerelease}` : ""}`,
+  };
+}
+
+/** Compares two pre-release identifiers: numeric ones numerically and below alphanumeric ones. */
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Semver precedence: negative if `a` is lower than `b`, positive if higher,
+ * 0 if equal. A pre-release is lower than its stable version
+ * (1.0.0-rc.1 < 1.0.0).
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const order = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (order !== 0) return order;
+  }
+  return a.prerelease.length - b.prerelease.length;
+}
+
+/**
+ * Latest stable and pre-release version among tag names; names that are not
+ * semantic versions are ignored. Without any stable tag, `stable` is
+ * FALLBACK_VERSION.
+ */
+export function versionChannels(tags: string[]): VersionChannels {
+  const versions = tags
+    .map(parseSemVer)
+    .filter((version): version is SemVer => version !== null)
+    .sort((a, b) => compareSemVer(b, a));
+
+  const stable = versions.find((version) => version.prerelease.length === 0);
+  const prerelease = versions.find(
+    (version) => version.prerelease.length > 0 && (!stable || compareSemVer(version, stable) > 0),
+  );
+
+  return {
+    stable: stable?.version ?? FALLBACK_VERSION,
+    prerelease: prerelease?.version ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+/** Repository the tags are read from. */
+const TAGS_PATH = "/repos/phranck/TUIkit/tags";
+
+/** Tags per page of the tags API. */
+const TAGS_PER_PAGE = 100;
+
+/**
+ * Most tag pages read. The same in the browser and the version cache
+ * script, so both see the same tags and agree on the latest version.
+ */
+const MAX_TAG_PAGES = 5;
+
+/**
+ * Reads up to MAX_TAG_PAGES pages of tags and returns the latest version per
+ * channel. The tags API does not sort by version, so all read tags are
+ * compared. Throws (failureError) if a request fails or there are no
+ * semantic version tags.
+ */
+export async function fetchVersionChannels(client: GitHubClient): Promise<VersionChannels> {
+  const names: string[] = [];
+  for (let page = 1; page <= MAX_TAG_PAGES; page++) {
+    const result = await client.request<{ name?: string }[]>(`${TAGS_PATH}?per_page=${TAGS_PER_PAGE}&page=${page}`);
+    if (isFailure(result)) throw failureError(result.error);
+    names.push(...result.data.flatMap((tag) => (tag.name ? [tag.name] : [])));
+    if (result.data.length < TAGS_PER_PAGE) break;
+  }
+
+  if (!names.some((name) => parseSemVer(name) !== null)) {
+    throw new Error("No version tags found in repository");
+  }
+  return versionChannels(names);
+}
@@ -0,0 +1,9 @@
+import type { APIRoute } from "astro";
+import { loadReleases } from "../../lib/releases-data";
+import { atomFeed } from "../../lib/release-feeds";
+
+/** Atom feed of the TUIkit releases (see src/lib/release-feeds.ts). */
+export const GET: APIRoute = ({ site }) =>
+  new Response(atomFeed(loadReleases(), site ?? new URL("https://tuikit.dev")), {
+    headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+  });
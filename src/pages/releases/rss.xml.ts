@@ -0,0 +1,9 @@
+import type { APIRoute } from "astro";
+import { loadReleases } from "../../lib/releases-data";
+import { rssFeed } from "../../lib/release-feeds";
+
+/** RSS 2.0 feed of the TUIkit releases (see src/lib/release-feeds.ts). */
+export const GET: APIRoute = ({ site }) =>
+  new Response(rssFeed(loadReleases(), site ?? new URL("https://tuikit.dev")), {
+    headers: { "Content-Type": "application/rss+xml; charset=utf-8" },
+  });